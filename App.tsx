@@ -1,307 +1,643 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { summarizeNewsWithGoogleSearch, generateSpeech } from './services/geminiService';
-import { decode, decodeAudioData } from './utils/audio';
-import type { Result, FavoriteItem } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { DEFAULT_VOICE, TTS_VOICES } from './services/voices';
+import { PROVIDERS, DEFAULT_PROVIDER_ID, getProvider, isProviderId, setActiveProvider } from './services/provider';
+import type { ProviderId } from './services/provider';
+import { isProxyAvailable } from './services/geminiService';
+import { fetchBriefing } from './services/briefings';
+import { describeError, subscribeToOfflineQueue } from './services/geminiClient';
+import { deleteCachedAudio, listCachedResultIds } from './services/audioCache';
+import { loadStoredData, saveHistory, saveFavorites, loadCollections, saveCollections, loadRetentionPolicy, saveRetentionPolicy, checkStorageQuota, migrateSettings, StorageQuotaError, DEFAULT_RETENTION_POLICY } from './services/storage';
+import type { QuotaStatus } from './services/storage';
+import { applyBackup } from './services/backup';
+import { parseSharedResult, readShareFragment, ShareLinkError } from './services/shareLinks';
+import type { BackupContents, ImportMode } from './services/backup';
+import { normalizeDomain } from './utils/sites';
+import { isSubscriptionDue, toBriefingRequest } from './utils/subscriptions';
+import { computeHistoryDiffs } from './utils/briefingDiff';
+import { applyRetention } from './utils/retention';
+import { audioCacheIds } from './utils/deepDives';
+import { entityRetryDelay, needsEntities, nextEntityBatch } from './utils/timeline';
+import { briefingRequestFromParams, clearBriefingParams, hasBriefingParams, isSameRoute, routeFromParams, viewRoute, writeRouteToParams } from './utils/routes';
+import type { AppView, Route } from './utils/routes';
+import { createCollection, createFavorite, filterNotebook, findFavorite, removeCollectionFromFavorites, EMPTY_NOTEBOOK_FILTER } from './utils/favorites';
+import type { NotebookFilter } from './utils/favorites';
+import { DEFAULT_CATALOGS, catalogNames, restoreCatalogs, visibleNames } from './utils/catalogs';
+import { DEFAULT_PROMPT_TEMPLATES, restorePromptTemplates } from './utils/prompts';
+import { filterResults, filterFavorites, filtersFromParams, writeFiltersToParams, EMPTY_FILTERS } from './utils/search';
+import type { SearchFilters as Filters } from './utils/search';
+import type { Result, FavoriteItem, FavoriteCollection, NewsItem, NewsSite, VoiceIntent, BriefingRequest, Subscription, SubscriptionTarget, RetentionPolicy, ChatMessage, PerspectiveAnalysis, DeepDive, Catalogs, PromptTemplates, Language } from './types';
+import { LANGUAGES, LANGUAGE_NAMES, MESSAGES, detectLanguage, entryLabel, isLanguage } from './i18n';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { themeStyles } from './theme';
+import type { BackgroundTheme, FontSize } from './theme';
 import SpinnerIcon from './components/icons/SpinnerIcon';
-import StarIcon from './components/icons/StarIcon';
 import TrashIcon from './components/icons/TrashIcon';
-import PlayIcon from './components/icons/PlayIcon';
-import StopIcon from './components/icons/StopIcon';
+import PlusIcon from './components/icons/PlusIcon';
+import ResultCard from './components/ResultCard';
+import VoiceRequest from './components/VoiceRequest';
+import PodcastPanel from './components/PodcastPanel';
+import SubscriptionsPanel from './components/SubscriptionsPanel';
+import StorageSettings from './components/StorageSettings';
+import BackupPanel from './components/BackupPanel';
+import FavoritesNotebook from './components/FavoritesNotebook';
+import SearchFilters from './components/SearchFilters';
+import CatalogSettings from './components/CatalogSettings';
+import TimelineView from './components/TimelineView';
+import SharedResultPreview from './components/SharedResultPreview';
 
-type BackgroundTheme = 'light' | 'dark' | 'sepia';
-type FontSize = 'medium' | 'large' | 'xlarge';
-type ActiveView = 'feed' | 'discover' | 'favorites';
-
-const fontSizeClassMap: Record<FontSize, string> = {
-    medium: 'text-base',
-    large: 'text-lg',
-    xlarge: 'text-xl',
-};
-
-const themeStyles: Record<BackgroundTheme, { bg: string, text: string, cardBg: string, cardBorder: string, prose: string, subText: string, inputBg: string, hoverBg: string, activeTab: string, inactiveTab: string }> = {
-    light: {
-        bg: 'bg-gray-100',
-        text: 'text-gray-800',
-        cardBg: 'bg-white/50',
-        cardBorder: 'border-gray-300',
-        prose: '',
-        subText: 'text-gray-500',
-        inputBg: 'bg-gray-200',
-        hoverBg: 'hover:bg-gray-300',
-        activeTab: 'bg-white shadow text-gray-800',
-        inactiveTab: 'text-gray-600 hover:bg-gray-200',
-    },
-    dark: {
-        bg: 'bg-gray-900',
-        text: 'text-gray-200',
-        cardBg: 'bg-gray-800/50',
-        cardBorder: 'border-gray-700',
-        prose: 'prose-invert',
-        subText: 'text-gray-400',
-        inputBg: 'bg-gray-700/80',
-        hoverBg: 'hover:bg-gray-600/80',
-        activeTab: 'bg-gray-700 shadow text-gray-200',
-        inactiveTab: 'text-gray-400 hover:bg-gray-700/80',
-    },
-    sepia: {
-        bg: 'bg-[#fbf0e4]',
-        text: 'text-[#5b4636]',
-        cardBg: 'bg-[#f5e5d3]/50',
-        cardBorder: 'border-[#dcd0c0]',
-        prose: 'prose-sepia',
-        subText: 'text-[#8d7966]',
-        inputBg: 'bg-[#e9dac9]',
-        hoverBg: 'hover:bg-[#dcd0c0]',
-        activeTab: 'bg-[#f5e5d3] shadow text-[#5b4636]',
-        inactiveTab: 'text-[#8d7966] hover:bg-[#e9dac9]',
-    },
-};
-
-
-// A single result card component
-const ResultCard: React.FC<{
-    result: Result;
-    onAddFavorite: (text: string, source: string, timestamp: number) => void;
-    onDelete: (id: string) => void;
-    isFavorited: (text: string) => boolean;
-    fontSize: FontSize;
-    theme: BackgroundTheme;
-}> = ({ result, onAddFavorite, onDelete, isFavorited, fontSize, theme }) => {
-    const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
-    const [isPlaying, setIsPlaying] = useState(false);
-    const [audioError, setAudioError] = useState<string | null>(null);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-    const styles = themeStyles[theme];
-
-    const newsItems = result.summary
-      .split('\n')
-      .map(line => line.trim().replace(/^[-*]\s*|^\d+\.\s*/, ''))
-      .filter(line => line.length > 0);
-
-
-    const handleAudioAction = async () => {
-        if (isPlaying) {
-            sourceNodeRef.current?.stop();
-            return;
-        }
-
-        if (!result.summary) return;
-        setIsGeneratingAudio(true);
-        setAudioError(null);
-        
-        try {
-            const base64Audio = await generateSpeech(result.summary);
-
-            if (!audioContextRef.current) {
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const audioContext = audioContextRef.current;
-
-            if (audioContext.state === 'suspended') {
-                await audioContext.resume();
-            }
-
-            const audioBytes = decode(base64Audio);
-            const audioBuffer = await decodeAudioData(
-                audioBytes,
-                audioContext,
-                24000, 
-                1      
-            );
-            
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContext.destination);
-
-            sourceNodeRef.current = source;
-            source.onended = () => {
-                setIsPlaying(false);
-                sourceNodeRef.current = null;
-            };
-
-            source.start();
-            setIsPlaying(true);
-
-        } catch (error) {
-            console.error(error);
-            setAudioError("Sesli brifing oluşturulamadı.");
-            setIsPlaying(false);
-        } finally {
-            setIsGeneratingAudio(false);
-        }
-    };
-
-    return (
-        <div className={`${styles.cardBg} rounded-xl shadow-lg p-5 backdrop-blur-sm border ${styles.cardBorder} transition-all`}>
-            <div className="flex justify-between items-start mb-3">
-                <p className={`text-sm ${styles.subText}`}>
-                    Kaynak: <span className={`font-semibold ${styles.text}`}>{result.source}</span>
-                </p>
-                <button onClick={() => onDelete(result.id)} title="Geçmişten sil" className={`${styles.subText} hover:text-red-500 transition-colors`}>
-                    <TrashIcon className="w-6 h-6" />
-                </button>
-            </div>
-            
-            <div className={`space-y-3 prose ${styles.prose} max-w-none ${styles.text} whitespace-pre-wrap mb-4 ${fontSizeClassMap[fontSize]}`}>
-                {newsItems.map((item, index) => (
-                    <div key={index} className="flex items-start gap-3">
-                        <button onClick={() => onAddFavorite(item, result.source, result.timestamp)} title="Favorilere ekle" className={`${styles.subText} hover:text-yellow-400 transition-colors pt-1`}>
-                            <StarIcon filled={isFavorited(item)} className="w-5 h-5" />
-                        </button>
-                        <p className="flex-1">{item}</p>
-                    </div>
-                ))}
-            </div>
-
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                 <button 
-                    onClick={handleAudioAction}
-                    disabled={isGeneratingAudio}
-                    className="flex items-center justify-center px-4 py-2 w-48 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-teal-500 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
-                >
-                    {isGeneratingAudio ? <SpinnerIcon className="w-4 h-4 mr-2" /> : (isPlaying ? <StopIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />)}
-                    {isGeneratingAudio ? "Oluşturuluyor..." : (isPlaying ? "Durdur" : "Sesli Brifing Dinle")}
-                </button>
-            </div>
-            
-            {audioError && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{audioError}</p>}
-            
-            {result.groundingChunks.length > 0 && (
-                <div className={`mt-4 border-t ${styles.cardBorder} pt-3`}>
-                    <h4 className={`text-sm font-semibold mb-2 ${styles.subText}`}>İlgili Bağlantılar</h4>
-                    <ul className="list-disc list-inside space-y-1 text-sm">
-                        {result.groundingChunks.filter(c => c.web).map((chunk, index) => (
-                            <li key={index}>
-                                <a href={chunk.web?.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:underline">
-                                    {chunk.web?.title}
-                                </a>
-                            </li>
-                        ))}
-                    </ul>
-                </div>
-            )}
-        </div>
-    );
-};
-
-const countries = ["Dünya", "Türkiye", "ABD", "Almanya", "İngiltere", "Fransa", "Japonya", "Rusya", "Çin"];
-const categories = ["Gündem", "Son Dakika", "Spor", "Teknoloji", "Bilim", "Sanat", "Sağlık", "Eğlence"];
-const discoverCategories = ["Yorum & Analiz", "Edebiyat & Sanat", "Felsefe", "Popüler Bilim", "Siyaset", "Din", "Sinema", "Toplum", "Psikoloji", "Hukuk"];
+type StorageWarning = 'loadFailed' | 'nearLimit' | 'quotaExceeded' | 'saveFailed';
 
+function savedLanguage(key: string, fallback: Language): Language {
+    const saved = localStorage.getItem(key);
+    return isLanguage(saved) ? saved : fallback;
+}
 
 // Main App component
 const App: React.FC = () => {
     const [history, setHistory] = useState<Result[]>([]);
     const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
+    const [collections, setCollections] = useState<FavoriteCollection[]>([]);
+    const [notebookFilter, setNotebookFilter] = useState<NotebookFilter>(EMPTY_NOTEBOOK_FILTER);
     const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
     const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [backgroundTheme, setBackgroundTheme] = useState<BackgroundTheme>('light');
     const [fontSize, setFontSize] = useState<FontSize>('medium');
-    const [activeView, setActiveView] = useState<ActiveView>('feed');
+    const [voice, setVoice] = useState<string>(DEFAULT_VOICE);
+    const [collapseRepeated, setCollapseRepeated] = useState(false);
+    const [providerId, setProviderId] = useState<ProviderId>(() => {
+        const saved = localStorage.getItem('provider');
+        return isProviderId(saved) ? saved : DEFAULT_PROVIDER_ID;
+    });
+    const [isGeminiAvailable, setIsGeminiAvailable] = useState<boolean | null>(null);
+    // The interface language and the language briefings are written in are
+    // separate: a German reader may still want Turkish briefings.
+    const [uiLanguage, setUiLanguage] = useState<Language>(() => savedLanguage('uiLanguage', detectLanguage()));
+    const [outputLanguage, setOutputLanguage] = useState<Language>(() => savedLanguage('outputLanguage', savedLanguage('uiLanguage', detectLanguage())));
+    const [route, setRoute] = useState<Route>(() => routeFromParams(new URLSearchParams(window.location.search)));
+    const activeView = route.view;
+    const [filters, setFilters] = useState<Filters>(() => filtersFromParams(new URLSearchParams(window.location.search)));
+    const [cachedAudioIds, setCachedAudioIds] = useState<Set<string>>(new Set());
+    const [pendingResult, setPendingResult] = useState<Result | null>(null);
+    const [queuedRequestCount, setQueuedRequestCount] = useState(0);
+    const isOnline = useOnlineStatus();
+    const [sites, setSites] = useState<NewsSite[]>([]);
+    const [selectedSiteIds, setSelectedSiteIds] = useState<string[]>([]);
+    const [newSiteDomain, setNewSiteDomain] = useState('');
+    const [newSiteName, setNewSiteName] = useState('');
+    const [newSiteLanguage, setNewSiteLanguage] = useState(() => MESSAGES[uiLanguage].feed.defaultSiteLanguage);
+    const [topicQuery, setTopicQuery] = useState('');
+    const [catalogs, setCatalogs] = useState<Catalogs>(DEFAULT_CATALOGS);
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplates>(DEFAULT_PROMPT_TEMPLATES);
+    const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+    const [runningSubscriptionId, setRunningSubscriptionId] = useState<string | null>(null);
+    const [hasLoadedData, setHasLoadedData] = useState(false);
+    const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+    const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
+    const [storageWarning, setStorageWarning] = useState<StorageWarning | null>(null);
+    const [isExtractingEntities, setIsExtractingEntities] = useState(false);
+    const [entityExtractionFailed, setEntityExtractionFailed] = useState(false);
+    const [entityRetryAt, setEntityRetryAt] = useState(0);
+    const [sharedResult, setSharedResult] = useState<Result | null>(null);
+    const [shareError, setShareError] = useState<string | null>(null);
+    const subscriptionsRef = useRef(subscriptions);
+    const sitesRef = useRef(sites);
+    const isRefreshingRef = useRef(false);
+    const entityFailuresRef = useRef(new Set<string>());
+    const entityErrorCountRef = useRef(0);
+    const hasHandledBriefingLinkRef = useRef(false);
+    const briefingAbortRef = useRef<AbortController | null>(null);
+    const promptTemplatesRef = useRef(promptTemplates);
+    const uiLanguageRef = useRef(uiLanguage);
+    const outputLanguageRef = useRef(outputLanguage);
+    subscriptionsRef.current = subscriptions;
+    sitesRef.current = sites;
+    promptTemplatesRef.current = promptTemplates;
+    uiLanguageRef.current = uiLanguage;
+    outputLanguageRef.current = outputLanguage;
+    const t = MESSAGES[uiLanguage];
+
+    const countries = useMemo(() => visibleNames(catalogs.countries), [catalogs]);
+    const categories = useMemo(() => visibleNames(catalogs.categories), [catalogs]);
+    const discoverCategories = useMemo(() => visibleNames(catalogs.discoverCategories), [catalogs]);
+    // Hidden entries stay searchable: older briefings may still use them.
+    const filterCountries = useMemo(() => catalogNames(catalogs.countries), [catalogs]);
+    const filterCategories = useMemo(() => catalogNames(catalogs.categories), [catalogs]);
+    const filterDiscoverCategories = useMemo(() => catalogNames(catalogs.discoverCategories), [catalogs]);
+
+    // Switch the active provider before anything below can make a request
+    useEffect(() => {
+        setActiveProvider(providerId);
+    }, [providerId]);
+
+    // Without a reachable proxy, fall back to the local provider unless the
+    // user picked one explicitly
+    useEffect(() => {
+        isProxyAvailable().then(available => {
+            setIsGeminiAvailable(available);
+            // Offline, the proxy is unreachable for a different reason; saved
+            // briefings should not make way for demo ones.
+            if (!available && navigator.onLine && !localStorage.getItem('provider')) setProviderId('mock');
+        });
+    }, []);
+
+    const handleProviderChange = (id: ProviderId) => {
+        setProviderId(id);
+        localStorage.setItem('provider', id);
+    };
 
     // Load settings from localStorage
     useEffect(() => {
+        migrateSettings();
         const savedTheme = localStorage.getItem('backgroundTheme') as BackgroundTheme | null;
-        let savedFontSize = localStorage.getItem('fontSize') as FontSize | null;
+        const savedFontSize = localStorage.getItem('fontSize') as FontSize | null;
         const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
 
         setBackgroundTheme(savedTheme || (prefersDark ? 'dark' : 'light'));
-
-        if (savedFontSize === ('small' as any)) {
-            savedFontSize = 'medium';
-            localStorage.setItem('fontSize', 'medium');
-        }
         setFontSize(savedFontSize || 'medium');
+
+        const savedVoice = localStorage.getItem('ttsVoice');
+        if (savedVoice && TTS_VOICES.some(v => v.name === savedVoice)) setVoice(savedVoice);
+        setCollapseRepeated(localStorage.getItem('collapseRepeated') === 'true');
     }, []);
 
     // Save settings to localStorage
     useEffect(() => {
         localStorage.setItem('backgroundTheme', backgroundTheme);
         localStorage.setItem('fontSize', fontSize);
-    }, [backgroundTheme, fontSize]);
+        localStorage.setItem('ttsVoice', voice);
+        localStorage.setItem('collapseRepeated', String(collapseRepeated));
+        localStorage.setItem('uiLanguage', uiLanguage);
+        localStorage.setItem('outputLanguage', outputLanguage);
+    }, [backgroundTheme, fontSize, voice, collapseRepeated, uiLanguage, outputLanguage]);
 
-    // Load history and favorites from localStorage
+    useEffect(() => {
+        document.documentElement.lang = uiLanguage;
+    }, [uiLanguage]);
+
+    // Load history and favorites from IndexedDB, and the smaller
+    // collections from localStorage
     useEffect(() => {
         try {
-            const savedHistory = localStorage.getItem('newsBriefingHistory');
-            if (savedHistory) setHistory(JSON.parse(savedHistory));
-            const savedFavorites = localStorage.getItem('newsBriefingFavorites');
-            if (savedFavorites) setFavorites(JSON.parse(savedFavorites));
+            const savedSites = localStorage.getItem('newsBriefingSites');
+            if (savedSites) setSites(JSON.parse(savedSites));
+            const savedSubscriptions = localStorage.getItem('newsBriefingSubscriptions');
+            if (savedSubscriptions) setSubscriptions(JSON.parse(savedSubscriptions));
+            const savedCatalogs = localStorage.getItem('newsBriefingCatalogs');
+            if (savedCatalogs) setCatalogs(restoreCatalogs(JSON.parse(savedCatalogs)));
+            const savedTemplates = localStorage.getItem('newsBriefingPromptTemplates');
+            if (savedTemplates) setPromptTemplates(restorePromptTemplates(JSON.parse(savedTemplates)));
         } catch (e) {
             console.error("Failed to load data from localStorage", e);
         }
+        Promise.all([loadStoredData(), loadCollections(), loadRetentionPolicy()])
+            .then(([stored, savedCollections, policy]) => {
+                setHistory(stored.history);
+                setFavorites(stored.favorites);
+                setCollections(savedCollections);
+                setRetentionPolicy(policy);
+            })
+            .catch(e => {
+                console.error("Failed to load data from IndexedDB", e);
+                setStorageWarning('loadFailed');
+            })
+            .finally(() => setHasLoadedData(true));
     }, []);
 
-    // Save history and favorites to localStorage
+    const refreshQuotaStatus = useCallback(async () => {
+        const status = await checkStorageQuota();
+        setQuotaStatus(status);
+        if (status?.nearLimit) {
+            setStorageWarning('nearLimit');
+        }
+    }, []);
+
+    // Save history and favorites to IndexedDB
+    useEffect(() => {
+        if (!hasLoadedData) return;
+        Promise.all([saveHistory(history), saveFavorites(favorites)])
+            .then(refreshQuotaStatus)
+            .catch(e => {
+                console.error("Failed to save data to IndexedDB", e);
+                setStorageWarning(e instanceof StorageQuotaError ? 'quotaExceeded' : 'saveFailed');
+            });
+    }, [history, favorites, hasLoadedData, refreshQuotaStatus]);
+
+    useEffect(() => {
+        if (!hasLoadedData) return;
+        saveCollections(collections).catch(e => {
+            console.error("Failed to save collections", e);
+            setStorageWarning('saveFailed');
+        });
+    }, [collections, hasLoadedData]);
+
+    // Apply the retention policy whenever history, favorites or the policy change
+    useEffect(() => {
+        if (!hasLoadedData) return;
+        const retained = applyRetention(history, favorites, retentionPolicy, Date.now());
+        if (retained !== history) {
+            const keptIds = new Set(retained.map(result => result.id));
+            history.filter(result => !keptIds.has(result.id)).flatMap(audioCacheIds).forEach(deleteCachedAudio);
+            setHistory(retained);
+        }
+    }, [history, favorites, retentionPolicy, hasLoadedData]);
+
+    const handleRetentionPolicyChange = (policy: RetentionPolicy) => {
+        setRetentionPolicy(policy);
+        saveRetentionPolicy(policy).catch(e => console.error("Failed to save retention policy", e));
+    };
+
+    const handleRestoreBackup = (backup: BackupContents, mode: ImportMode) => {
+        const restored = applyBackup({ history, favorites, collections }, backup, mode);
+        const keptIds = new Set(restored.history.map(result => result.id));
+        history.filter(result => !keptIds.has(result.id)).flatMap(audioCacheIds).forEach(deleteCachedAudio);
+        setHistory(restored.history);
+        setFavorites(restored.favorites);
+        setCollections(restored.collections);
+    };
+
+    // Track requests waiting for the connection to come back
+    useEffect(() => subscribeToOfflineQueue(setQueuedRequestCount), []);
+
+    const setActiveView = useCallback((view: AppView) => setRoute(viewRoute(view)), []);
+
+    // Mirror the route and search filters in the URL so any view, result or
+    // favorite can be bookmarked. Moving to another route adds a history
+    // entry so the back button returns; filter changes replace it.
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const isNavigation = !isSameRoute(routeFromParams(params), route);
+        writeFiltersToParams(filters, params);
+        writeRouteToParams(route, params);
+        const query = params.toString();
+        const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+        if (isNavigation) window.history.pushState(null, '', url);
+        else window.history.replaceState(null, '', url);
+    }, [filters, route]);
+
+    useEffect(() => {
+        const handlePopState = () => {
+            const params = new URLSearchParams(window.location.search);
+            setRoute(routeFromParams(params));
+            setFilters(filtersFromParams(params));
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    // Bring a linked result or favorite into view once the stored data is
+    // there
+    useEffect(() => {
+        if (!hasLoadedData) return;
+        if (route.resultId) {
+            if (!history.some(result => result.id === route.resultId)) {
+                setError(MESSAGES[uiLanguageRef.current].feed.linkedResultMissing);
+                return;
+            }
+            requestAnimationFrame(() => document.getElementById(`result-${route.resultId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+        } else if (route.favoriteId) {
+            requestAnimationFrame(() => document.getElementById(`favorite-${route.favoriteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+        }
+        // Only a new route scrolls; later history changes should not.
+    }, [route, hasLoadedData]);
+
+    // A share link carries its briefing in the fragment; it is previewed
+    // until the reader imports or dismisses it.
+    useEffect(() => {
+        const openShareFragment = () => {
+            const encoded = readShareFragment(window.location.hash);
+            if (!encoded) return;
+            parseSharedResult(encoded)
+                .then(result => {
+                    setSharedResult(result);
+                    setShareError(null);
+                })
+                .catch(error => {
+                    console.error("Failed to open shared briefing", error);
+                    setSharedResult(null);
+                    setShareError(MESSAGES[uiLanguageRef.current].share.problems[error instanceof ShareLinkError ? error.problem : 'unreadable']);
+                });
+        };
+        openShareFragment();
+        window.addEventListener('hashchange', openShareFragment);
+        return () => window.removeEventListener('hashchange', openShareFragment);
+    }, []);
+
+    const clearShareFragment = () => {
+        window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+        setSharedResult(null);
+        setShareError(null);
+    };
+
+    const handleImportSharedResult = () => {
+        if (!sharedResult) return;
+        if (!history.some(result => result.id === sharedResult.id)) {
+            setHistory(prev => [{ ...sharedResult, unread: true }, ...prev]);
+        }
+        clearShareFragment();
+        handleOpenResult(sharedResult.id);
+    };
+
+    // The "has audio cached" filter and the cards' offline badges need the
+    // set of results with cached audio
+    useEffect(() => {
+        let cancelled = false;
+        listCachedResultIds().then(ids => {
+            if (!cancelled) setCachedAudioIds(ids);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [history]);
+
+    const handleAudioSaved = useCallback((id: string) => {
+        setCachedAudioIds(prev => new Set(prev).add(id));
+    }, []);
+
+    // Save configured news sites to localStorage
     useEffect(() => {
         try {
-            localStorage.setItem('newsBriefingHistory', JSON.stringify(history));
-            localStorage.setItem('newsBriefingFavorites', JSON.stringify(favorites));
+            localStorage.setItem('newsBriefingSites', JSON.stringify(sites));
         } catch (e) {
-            console.error("Failed to save data to localStorage", e);
+            console.error("Failed to save sites to localStorage", e);
         }
-    }, [history, favorites]);
+    }, [sites]);
 
-    const handleGetSummary = async () => {
-        if (!selectedCountry || !selectedCategory) {
-            setError("Lütfen bir ülke ve kategori seçin.");
-            return;
+    // Save subscriptions to localStorage
+    useEffect(() => {
+        try {
+            localStorage.setItem('newsBriefingSubscriptions', JSON.stringify(subscriptions));
+        } catch (e) {
+            console.error("Failed to save subscriptions to localStorage", e);
         }
-        setIsLoading(true);
-        setError(null);
+    }, [subscriptions]);
+
+    // Save catalogs and prompt templates to localStorage
+    useEffect(() => {
         try {
-            const prompt = `Lütfen ${selectedCountry === 'Dünya' ? 'dünyadaki' : `${selectedCountry} ülkesindeki`} en güncel ${selectedCategory} haberlerini özetle. Özetini oluştururken, farklı bakış açıları sunan birden çok çeşitli ve güvenilir web kaynağını kullandığından emin ol. Sonucu Türkçe olarak maddeler halinde sun.`;
-            const { summary, groundingChunks } = await summarizeNewsWithGoogleSearch(prompt);
-            const newResult: Result = {
-                id: new Date().toISOString(),
-                source: `${selectedCountry} - ${selectedCategory}`,
-                summary,
-                groundingChunks,
-                timestamp: Date.now()
-            };
-            setHistory(prevHistory => [newResult, ...prevHistory]);
+            localStorage.setItem('newsBriefingCatalogs', JSON.stringify(catalogs));
+            localStorage.setItem('newsBriefingPromptTemplates', JSON.stringify(promptTemplates));
+        } catch (e) {
+            console.error("Failed to save catalogs to localStorage", e);
+        }
+    }, [catalogs, promptTemplates]);
+
+    const updateSubscription = (id: string, changes: Partial<Subscription>) => {
+        setSubscriptions(prev => prev.map(sub => sub.id === id ? { ...sub, ...changes } : sub));
+    };
+
+    const runSubscription = async (subscription: Subscription) => {
+        const startedAt = Date.now();
+        updateSubscription(subscription.id, { lastRunAt: startedAt });
+        setRunningSubscriptionId(subscription.id);
+        try {
+            const request = toBriefingRequest(subscription.target, sitesRef.current);
+            if (!request) {
+                updateSubscription(subscription.id, {
+                    lastErrorAt: Date.now(),
+                    lastError: MESSAGES[uiLanguageRef.current].subscriptions.sitesMissing,
+                });
+                return;
+            }
+            const result = await fetchBriefing(request, { templates: promptTemplatesRef.current, language: outputLanguageRef.current });
+            setHistory(prevHistory => [{ ...result, subscriptionId: subscription.id, unread: true }, ...prevHistory]);
+            updateSubscription(subscription.id, { lastSuccessAt: Date.now() });
         } catch (err) {
             console.error(err);
-            setError("Haber özeti alınırken bir hata oluştu. Lütfen tekrar deneyin.");
+            updateSubscription(subscription.id, {
+                lastErrorAt: Date.now(),
+                lastError: describeError(err, MESSAGES[uiLanguageRef.current].subscriptions.runFailed, uiLanguageRef.current),
+            });
         } finally {
-            setIsLoading(false);
+            setRunningSubscriptionId(null);
         }
     };
-    
-     const handleGetDiscovery = async (category: string) => {
+
+    // Refresh due subscriptions one at a time; also catches up on runs missed
+    // while the app was closed, since the first check happens right after load.
+    const refreshDueSubscriptions = useCallback(async () => {
+        if (isRefreshingRef.current) return;
+        isRefreshingRef.current = true;
+        try {
+            const now = Date.now();
+            for (const subscription of subscriptionsRef.current.filter(sub => isSubscriptionDue(sub, now))) {
+                await runSubscription(subscription);
+            }
+        } finally {
+            isRefreshingRef.current = false;
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!hasLoadedData) return;
+        refreshDueSubscriptions();
+        const timer = window.setInterval(refreshDueSubscriptions, 60 * 1000);
+        return () => window.clearInterval(timer);
+    }, [hasLoadedData, refreshDueSubscriptions]);
+
+    // Entities for the timeline are extracted while the timeline is open, a
+    // batch at a time; each finished batch updates history, which starts the
+    // next. A failed request is retried after a growing pause.
+    useEffect(() => {
+        if (!hasLoadedData || !isOnline || isExtractingEntities || activeView !== 'timeline') return;
+        const wait = entityRetryAt - Date.now();
+        if (wait > 0) {
+            const timer = window.setTimeout(() => setEntityRetryAt(0), wait);
+            return () => window.clearTimeout(timer);
+        }
+        const batch = nextEntityBatch(history, entityFailuresRef.current);
+        if (batch.length === 0) return;
+        setIsExtractingEntities(true);
+        getProvider().extractEntities(batch)
+            .then(extracted => {
+                entityErrorCountRef.current = 0;
+                setEntityExtractionFailed(false);
+                // Results the reply left out are not asked for again this session.
+                batch.filter(result => !extracted[result.id]).forEach(result => entityFailuresRef.current.add(result.id));
+                setHistory(prev => prev.map(result => extracted[result.id] ? { ...result, entities: extracted[result.id] } : result));
+            })
+            .catch(error => {
+                console.error("Error extracting entities:", error);
+                setEntityExtractionFailed(true);
+                setEntityRetryAt(Date.now() + entityRetryDelay(entityErrorCountRef.current++));
+            })
+            .finally(() => setIsExtractingEntities(false));
+    }, [history, hasLoadedData, isOnline, isExtractingEntities, activeView, entityRetryAt]);
+
+    const handleAddSubscription = (target: SubscriptionTarget, intervalMinutes: number) => {
+        const subscription: Subscription = { id: new Date().toISOString(), target, intervalMinutes, createdAt: Date.now() };
+        setSubscriptions(prev => [...prev, subscription]);
+        // Kick off the first run right away instead of waiting for the next tick.
+        subscriptionsRef.current = [...subscriptionsRef.current, subscription];
+        refreshDueSubscriptions();
+    };
+
+    const handleRemoveSubscription = (id: string) => {
+        setSubscriptions(prev => prev.filter(sub => sub.id !== id));
+    };
+
+    const handleRunSubscriptionNow = async (id: string) => {
+        const subscription = subscriptions.find(sub => sub.id === id);
+        if (!subscription || isRefreshingRef.current) return;
+        isRefreshingRef.current = true;
+        try {
+            await runSubscription(subscription);
+        } finally {
+            isRefreshingRef.current = false;
+        }
+    };
+
+    const handleMarkRead = useCallback((id: string) => {
+        setHistory(prev => prev.map(item => item.id === id && item.unread ? { ...item, unread: false } : item));
+    }, []);
+
+    const handleUpdateConversation = useCallback((id: string, conversation: ChatMessage[]) => {
+        setHistory(prev => prev.map(item => item.id === id ? { ...item, conversation } : item));
+    }, []);
+
+    const handleUpdatePerspectives = useCallback((id: string, perspectives: PerspectiveAnalysis[]) => {
+        setHistory(prev => prev.map(item => item.id === id ? { ...item, perspectives } : item));
+    }, []);
+
+    const handleUpdateDeepDives = useCallback((id: string, deepDives: DeepDive[]) => {
+        setHistory(prev => prev.map(item => item.id === id ? { ...item, deepDives } : item));
+    }, []);
+
+    const handleMarkAllRead = () => {
+        setHistory(prev => prev.map(item => item.unread ? { ...item, unread: false } : item));
+    };
+
+    const runBriefing = async (request: BriefingRequest, errorMessage: string): Promise<Result | null> => {
+        const controller = new AbortController();
+        briefingAbortRef.current = controller;
         setIsLoading(true);
         setError(null);
         try {
-            const prompt = `"${category}" alanında, dünya çapında saygın düşünce liderlerinden, eleştirmenlerden veya sanatçılardan ufuk açıcı, güncel bir deneme, analiz veya eleştiri yazısı bul ve bunu Türkçe olarak, ana fikirlerini ve temel argümanlarını vurgulayarak maddeler halinde özetle. Özetini oluştururken, farklı bakış açıları sunan çeşitli ve güvenilir web kaynaklarını kullandığından emin ol.`;
-            const { summary, groundingChunks } = await summarizeNewsWithGoogleSearch(prompt);
-            const newResult: Result = {
-                id: new Date().toISOString(),
-                source: `Keşfet - ${category}`,
-                summary,
-                groundingChunks,
-                timestamp: Date.now()
-            };
+            const newResult = await fetchBriefing(request, { signal: controller.signal, onPartial: setPendingResult, templates: promptTemplates, language: outputLanguage });
             setHistory(prevHistory => [newResult, ...prevHistory]);
-            setActiveView('feed');
+            return newResult;
         } catch (err) {
+            if (controller.signal.aborted) return null;
             console.error(err);
-            setError("İçerik getirilirken bir hata oluştu. Lütfen tekrar deneyin.");
+            setError(describeError(err, errorMessage, uiLanguage));
+            return null;
         } finally {
+            briefingAbortRef.current = null;
+            setPendingResult(null);
             setIsLoading(false);
         }
     };
 
-    const handleAddFavorite = useCallback((text: string, source: string, timestamp: number) => {
+    const handleCancelBriefing = () => {
+        briefingAbortRef.current?.abort();
+    };
+
+    const handleGetSummary = async () => {
+        if (!selectedCountry || !selectedCategory) {
+            setError(t.feed.selectCountryAndCategory);
+            return;
+        }
+        await runBriefing({ kind: 'news', country: selectedCountry, category: selectedCategory }, t.feed.summaryFailed);
+    };
+
+    // A link such as ?country=Türkiye&category=Spor runs its briefing as
+    // soon as the stored data has loaded, once.
+    useEffect(() => {
+        if (!hasLoadedData || hasHandledBriefingLinkRef.current) return;
+        hasHandledBriefingLinkRef.current = true;
+        const params = new URLSearchParams(window.location.search);
+        if (!hasBriefingParams(params)) return;
+        const request = briefingRequestFromParams(params, filterCountries, filterCategories);
+        clearBriefingParams(params);
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+        if (!request) {
+            setError(t.feed.invalidBriefingLink);
+            return;
+        }
+        if (request.kind === 'news') {
+            setSelectedCountry(request.country);
+            setSelectedCategory(request.category);
+        } else if (request.kind === 'topic') {
+            setTopicQuery(request.topic);
+        }
+        setActiveView('feed');
+        runBriefing(request, request.kind === 'topic' ? t.feed.topicFailed : t.feed.summaryFailed);
+    }, [hasLoadedData]);
+
+    const handleGetTopicSummary = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const topic = topicQuery.trim();
+        if (!topic) {
+            setError(t.feed.enterTopic);
+            return;
+        }
+        await runBriefing({ kind: 'topic', topic }, t.feed.topicFailed);
+    };
+
+    const handleVoiceIntent = async (intent: VoiceIntent): Promise<string | null> => {
+        const country = intent.country && countries.includes(intent.country) ? intent.country : null;
+        const category = intent.category && categories.includes(intent.category) ? intent.category : null;
+        const result = intent.kind === 'briefing' && country && category
+            ? await runBriefing({ kind: 'news', country, category }, t.feed.summaryFailed)
+            : await runBriefing({ kind: 'question', question: intent.question || intent.transcript }, t.feed.questionFailed);
+        return result ? result.summary : null;
+    };
+    
+     const handleGetDiscovery = async (category: string) => {
+        // Switch first so the summary can be watched as it streams in.
+        setActiveView('feed');
+        await runBriefing({ kind: 'discover', topic: category }, t.discover.failed);
+    };
+
+    const handleGetSiteSummary = async () => {
+        const selectedSites = sites.filter(site => selectedSiteIds.includes(site.id));
+        if (selectedSites.length === 0) {
+            setError(t.feed.selectSite);
+            return;
+        }
+        await runBriefing({ kind: 'sites', sites: selectedSites, category: selectedCategory ?? undefined }, t.feed.summaryFailed);
+    };
+
+    const handleAddSite = () => {
+        const domain = normalizeDomain(newSiteDomain);
+        if (!domain || !domain.includes('.')) {
+            setError(t.feed.invalidDomain);
+            return;
+        }
+        if (sites.some(site => normalizeDomain(site.domain) === domain)) {
+            setError(t.feed.duplicateSite);
+            return;
+        }
+        const newSite: NewsSite = {
+            id: new Date().toISOString(),
+            domain,
+            name: newSiteName.trim() || domain,
+            language: newSiteLanguage.trim() || t.feed.defaultSiteLanguage,
+        };
+        setSites(prev => [...prev, newSite]);
+        setNewSiteDomain('');
+        setNewSiteName('');
+        setError(null);
+    };
+
+    const handleRemoveSite = (id: string) => {
+        setSites(prev => prev.filter(site => site.id !== id));
+        setSelectedSiteIds(prev => prev.filter(siteId => siteId !== id));
+    };
+
+    const toggleSiteSelection = (id: string) => {
+        setSelectedSiteIds(prev => prev.includes(id) ? prev.filter(siteId => siteId !== id) : [...prev, id]);
+    };
+
+    const handleAddFavorite = useCallback((result: Result, item: NewsItem) => {
         setFavorites(prev => {
-            const exists = prev.some(item => item.text === text);
-            if (exists) {
-                return prev.filter(item => item.text !== text);
+            const existing = findFavorite(prev, result.id, item);
+            if (existing) {
+                return prev.filter(fav => fav !== existing);
             } else {
-                const newFavorite: FavoriteItem = { id: new Date().toISOString(), text, source, timestamp };
-                return [newFavorite, ...prev];
+                return [createFavorite(result, item, Date.now()), ...prev];
             }
         });
     }, []);
@@ -310,16 +646,50 @@ const App: React.FC = () => {
         setFavorites(prev => prev.filter(item => item.id !== id));
     }, []);
 
+    const handleUpdateFavorite = useCallback((favorite: FavoriteItem) => {
+        setFavorites(prev => prev.map(fav => fav.id === favorite.id ? favorite : fav));
+    }, []);
+
+    const handleCreateCollection = (name: string) => {
+        const collection = createCollection(name, Date.now());
+        setCollections(prev => [...prev, collection]);
+        setNotebookFilter(prev => ({ ...prev, collectionId: collection.id }));
+    };
+
+    const handleRenameCollection = (id: string, name: string) => {
+        setCollections(prev => prev.map(collection => collection.id === id ? { ...collection, name: name.trim() } : collection));
+    };
+
+    const handleDeleteCollection = (id: string) => {
+        setCollections(prev => prev.filter(collection => collection.id !== id));
+        setFavorites(prev => removeCollectionFromFavorites(prev, id));
+        setNotebookFilter(prev => prev.collectionId === id ? { ...prev, collectionId: null } : prev);
+    };
+
+    // Jump from a favorite to the briefing it was saved from. The feed
+    // filters are cleared so the result is sure to be listed.
+    const handleOpenResult = (id: string) => {
+        setFilters(EMPTY_FILTERS);
+        setRoute({ view: 'feed', resultId: id, favoriteId: null });
+    };
+
     const handleDeleteResult = useCallback((id:string) => {
+        const deleted = history.find(item => item.id === id);
         setHistory(prev => prev.filter(item => item.id !== id));
-    }, []);
+        (deleted ? audioCacheIds(deleted) : [id]).forEach(deleteCachedAudio);
+    }, [history]);
 
-    const isFavoritedCheck = useCallback((text: string) => {
-        return favorites.some(fav => fav.text === text);
+    const isFavoritedCheck = useCallback((resultId: string, item: NewsItem) => {
+        return findFavorite(favorites, resultId, item) !== undefined;
     }, [favorites]);
 
     const sortedHistory = history.sort((a,b) => b.timestamp - a.timestamp);
+    const pendingEntityCount = useMemo(() => history.filter(needsEntities).length, [history]);
+    const unreadCount = history.filter(item => item.unread).length;
+    const historyDiffs = useMemo(() => computeHistoryDiffs(history), [history]);
     const sortedFavorites = favorites.sort((a,b) => b.timestamp - a.timestamp);
+    const filteredHistory = useMemo(() => filterResults(sortedHistory, filters, cachedAudioIds), [sortedHistory, filters, cachedAudioIds]);
+    const filteredFavorites = useMemo(() => filterNotebook(filterFavorites(sortedFavorites, filters), notebookFilter), [sortedFavorites, filters, notebookFilter]);
 
     const styles = themeStyles[backgroundTheme];
 
@@ -328,34 +698,118 @@ const App: React.FC = () => {
             <div className="w-full max-w-4xl mx-auto">
                 <header className="text-center mb-6">
                     <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-500 to-teal-400 dark:from-blue-400 dark:to-teal-300">
-                        Gündem Asistanı
+                        {t.app.title}
                     </h1>
-                    <p className={`${styles.subText} mt-2`}>Anlık haber özetleri ve ufuk açan içerikleri keşfedin.</p>
+                    <p className={`${styles.subText} mt-2`}>{t.app.tagline}</p>
                 </header>
 
                 <div className="flex justify-center items-center gap-4 flex-wrap mb-8">
                     <div className={`flex items-center p-1 rounded-full text-xs font-semibold ${styles.inputBg}`}>
-                       <button onClick={() => setBackgroundTheme('light')} className={`px-3 py-1 rounded-full ${backgroundTheme === 'light' ? 'bg-white shadow text-gray-800' : 'text-gray-600'}`}>Açık</button>
-                       <button onClick={() => setBackgroundTheme('sepia')} className={`px-3 py-1 rounded-full ${backgroundTheme === 'sepia' ? 'bg-[#e9dac9] shadow text-[#5b4636]' : 'text-gray-500'}`}>Sepya</button>
-                       <button onClick={() => setBackgroundTheme('dark')} className={`px-3 py-1 rounded-full ${backgroundTheme === 'dark' ? 'bg-gray-700 shadow text-gray-200' : 'text-gray-400'}`}>Siyah</button>
+                       <button onClick={() => setBackgroundTheme('light')} className={`px-3 py-1 rounded-full ${backgroundTheme === 'light' ? 'bg-white shadow text-gray-800' : 'text-gray-600'}`}>{t.settings.themeLight}</button>
+                       <button onClick={() => setBackgroundTheme('sepia')} className={`px-3 py-1 rounded-full ${backgroundTheme === 'sepia' ? 'bg-[#e9dac9] shadow text-[#5b4636]' : 'text-gray-500'}`}>{t.settings.themeSepia}</button>
+                       <button onClick={() => setBackgroundTheme('dark')} className={`px-3 py-1 rounded-full ${backgroundTheme === 'dark' ? 'bg-gray-700 shadow text-gray-200' : 'text-gray-400'}`}>{t.settings.themeDark}</button>
                     </div>
                      <div className={`flex items-center p-1 rounded-full font-semibold ${styles.inputBg}`}>
                        <button onClick={() => setFontSize('medium')} className={`px-3 py-1 rounded-full text-sm ${fontSize === 'medium' ? (backgroundTheme === 'dark' ? 'bg-gray-700 shadow' : 'bg-white shadow') : ''}`}>A</button>
                        <button onClick={() => setFontSize('large')} className={`px-3 py-1 rounded-full text-base ${fontSize === 'large' ? (backgroundTheme === 'dark' ? 'bg-gray-700 shadow' : 'bg-white shadow') : ''}`}>A</button>
                        <button onClick={() => setFontSize('xlarge')} className={`px-3 py-1 rounded-full text-lg ${fontSize === 'xlarge' ? (backgroundTheme === 'dark' ? 'bg-gray-700 shadow' : 'bg-white shadow') : ''}`}>A</button>
                     </div>
+                    <div className={`flex items-center p-1 rounded-full text-xs font-semibold ${styles.inputBg}`}>
+                       <label htmlFor="voice-select" className={`pl-3 pr-1 ${styles.subText}`}>{t.settings.voice}</label>
+                       <select id="voice-select" value={voice} onChange={e => setVoice(e.target.value)} className={`px-2 py-1 rounded-full bg-transparent ${styles.text} focus:outline-none`}>
+                           {TTS_VOICES.map(v => (
+                               <option key={v.name} value={v.name}>{v.name} · {v.description}</option>
+                           ))}
+                       </select>
+                    </div>
+                    <div className={`flex items-center p-1 rounded-full text-xs font-semibold ${styles.inputBg}`}>
+                       <label htmlFor="provider-select" className={`pl-3 pr-1 ${styles.subText}`}>{t.settings.provider}</label>
+                       <select id="provider-select" value={providerId} onChange={e => handleProviderChange(e.target.value as ProviderId)} className={`px-2 py-1 rounded-full bg-transparent ${styles.text} focus:outline-none`}>
+                           {Object.values(PROVIDERS).map(provider => (
+                               <option key={provider.id} value={provider.id}>
+                                   {provider.label}{provider.id === 'gemini' && isGeminiAvailable === false ? ` (${t.settings.providerUnreachable})` : ''}
+                               </option>
+                           ))}
+                       </select>
+                    </div>
+                    <div className={`flex items-center p-1 rounded-full text-xs font-semibold ${styles.inputBg}`}>
+                       <label htmlFor="ui-language-select" className={`pl-3 pr-1 ${styles.subText}`}>{t.settings.uiLanguage}</label>
+                       <select id="ui-language-select" value={uiLanguage} onChange={e => setUiLanguage(e.target.value as Language)} className={`px-2 py-1 rounded-full bg-transparent ${styles.text} focus:outline-none`}>
+                           {LANGUAGES.map(language => <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>)}
+                       </select>
+                    </div>
+                    <div className={`flex items-center p-1 rounded-full text-xs font-semibold ${styles.inputBg}`}>
+                       <label htmlFor="output-language-select" className={`pl-3 pr-1 ${styles.subText}`}>{t.settings.outputLanguage}</label>
+                       <select id="output-language-select" value={outputLanguage} onChange={e => setOutputLanguage(e.target.value as Language)} className={`px-2 py-1 rounded-full bg-transparent ${styles.text} focus:outline-none`}>
+                           {LANGUAGES.map(language => <option key={language} value={language}>{LANGUAGE_NAMES[language]}</option>)}
+                       </select>
+                    </div>
                 </div>
 
+                {(!isOnline || queuedRequestCount > 0) && (
+                    <div role="status" className="mb-6 p-3 rounded-lg bg-amber-500/20 text-amber-800 dark:text-amber-200 text-sm text-center space-y-1">
+                        {!isOnline && <p className="font-semibold">{t.app.offline}</p>}
+                        {queuedRequestCount > 0 && <p>{t.app.offlineQueue(queuedRequestCount)}</p>}
+                        {!isOnline && activeView === 'feed' && !filters.hasAudio && (
+                            <button onClick={() => setFilters({ ...filters, hasAudio: true })} className="underline">
+                                {t.app.showOfflineAudio}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <StorageSettings
+                    policy={retentionPolicy}
+                    onChange={handleRetentionPolicyChange}
+                    quota={quotaStatus}
+                    warning={storageWarning && t.storage[storageWarning]}
+                    onDismissWarning={() => setStorageWarning(null)}
+                    theme={backgroundTheme}
+                    language={uiLanguage}
+                >
+                    <BackupPanel history={sortedHistory} favorites={favorites} collections={collections} onRestore={handleRestoreBackup} theme={backgroundTheme} language={uiLanguage} />
+                </StorageSettings>
+
+                <CatalogSettings
+                    catalogs={catalogs}
+                    onCatalogsChange={setCatalogs}
+                    templates={promptTemplates}
+                    onTemplatesChange={setPromptTemplates}
+                    theme={backgroundTheme}
+                    language={uiLanguage}
+                    outputLanguage={outputLanguage}
+                />
+
                 <main>
+                    {sharedResult && (
+                        <SharedResultPreview
+                            result={sharedResult}
+                            isInHistory={history.some(result => result.id === sharedResult.id)}
+                            onImport={handleImportSharedResult}
+                            onDismiss={clearShareFragment}
+                            fontSize={fontSize}
+                            theme={backgroundTheme}
+                            language={uiLanguage}
+                        />
+                    )}
+                    {shareError && (
+                        <div role="alert" className="mb-6 p-3 rounded-lg bg-red-500/20 text-red-800 dark:text-red-200 text-sm flex items-center justify-between gap-3">
+                            <span>{shareError}</span>
+                            <button onClick={clearShareFragment} className="underline">{t.share.dismiss}</button>
+                        </div>
+                    )}
                     <div className={`flex items-center justify-center mb-6 p-1 rounded-full ${styles.inputBg}`}>
-                        <button onClick={() => setActiveView('feed')} className={`w-1/3 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'feed' ? styles.activeTab : styles.inactiveTab}`}>
-                           Haber Akışı
+                        <button onClick={() => setActiveView('feed')} className={`w-1/4 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'feed' ? styles.activeTab : styles.inactiveTab}`}>
+                           {t.tabs.feed}{unreadCount > 0 && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-600 text-white">{unreadCount}</span>}
+                        </button>
+                        <button onClick={() => setActiveView('discover')} className={`w-1/4 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'discover' ? styles.activeTab : styles.inactiveTab}`}>
+                           {t.tabs.discover}
                         </button>
-                        <button onClick={() => setActiveView('discover')} className={`w-1/3 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'discover' ? styles.activeTab : styles.inactiveTab}`}>
-                           Keşfet
+                        <button onClick={() => setActiveView('favorites')} className={`w-1/4 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'favorites' ? styles.activeTab : styles.inactiveTab}`}>
+                            {t.tabs.favorites}
                         </button>
-                        <button onClick={() => setActiveView('favorites')} className={`w-1/3 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'favorites' ? styles.activeTab : styles.inactiveTab}`}>
-                            Favoriler
+                        <button onClick={() => setActiveView('timeline')} className={`w-1/4 py-2 text-sm font-semibold rounded-full transition-colors ${activeView === 'timeline' ? styles.activeTab : styles.inactiveTab}`}>
+                            {t.tabs.timeline}
                         </button>
                     </div>
 
@@ -363,7 +817,7 @@ const App: React.FC = () => {
                         <>
                         <div className={`${styles.cardBg} rounded-2xl shadow-lg p-6 backdrop-blur-sm border ${styles.cardBorder} space-y-6`}>
                             <div>
-                                <h3 className={`text-lg font-medium ${styles.text} mb-3`}>Ülke</h3>
+                                <h3 className={`text-lg font-medium ${styles.text} mb-3`}>{t.feed.country}</h3>
                                 <div className="flex flex-wrap gap-3">
                                     {countries.map(country => (
                                         <button 
@@ -375,14 +829,14 @@ const App: React.FC = () => {
                                                     : `${styles.inputBg} ${styles.text} ${styles.hoverBg}`
                                             }`}
                                         >
-                                            {country}
+                                            {entryLabel(t, country)}
                                         </button>
                                     ))}
                                 </div>
                             </div>
                             
                             <div>
-                                 <h3 className={`text-lg font-medium ${styles.text} mb-3`}>Kategori</h3>
+                                 <h3 className={`text-lg font-medium ${styles.text} mb-3`}>{t.feed.category}</h3>
                                 <div className="flex flex-wrap gap-3">
                                     {categories.map(category => (
                                         <button 
@@ -394,28 +848,155 @@ const App: React.FC = () => {
                                                     : `${styles.inputBg} ${styles.text} ${styles.hoverBg}`
                                             }`}
                                         >
-                                            {category}
+                                            {entryLabel(t, category)}
                                         </button>
                                     ))}
                                 </div>
                             </div>
                             
+                            <div>
+                                <h3 className={`text-lg font-medium ${styles.text} mb-1`}>{t.feed.topicTitle}</h3>
+                                <p className={`${styles.subText} mb-3 text-sm`}>{t.feed.topicDescription}</p>
+                                <form onSubmit={handleGetTopicSummary} className="flex flex-col sm:flex-row gap-2">
+                                    <input
+                                        value={topicQuery}
+                                        onChange={e => setTopicQuery(e.target.value)}
+                                        placeholder={t.feed.topicPlaceholder}
+                                        className={`flex-1 px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-emerald-500`}
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={isLoading || !topicQuery.trim()}
+                                        className="flex items-center justify-center px-4 py-2 text-sm font-semibold text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        {isLoading && <SpinnerIcon className="w-4 h-4 mr-2" />}
+                                        {t.feed.getTopicSummary}
+                                    </button>
+                                </form>
+                            </div>
+
+                            <div>
+                                <h3 className={`text-lg font-medium ${styles.text} mb-1`}>{t.feed.sitesTitle}</h3>
+                                <p className={`${styles.subText} mb-3 text-sm`}>{t.feed.sitesDescription}</p>
+                                {sites.length > 0 && (
+                                    <div className="flex flex-wrap gap-3 mb-3">
+                                        {sites.map(site => (
+                                            <div
+                                                key={site.id}
+                                                className={`flex items-center gap-2 pl-4 pr-2 py-2 text-sm font-semibold rounded-full transition-all duration-200 ${
+                                                    selectedSiteIds.includes(site.id)
+                                                        ? 'bg-indigo-600 text-white shadow-lg ring-2 ring-indigo-400'
+                                                        : `${styles.inputBg} ${styles.text} ${styles.hoverBg}`
+                                                }`}
+                                            >
+                                                <button onClick={() => toggleSiteSelection(site.id)} title={`${site.domain} · ${site.language}`}>
+                                                    {site.name}
+                                                </button>
+                                                <button onClick={() => handleRemoveSite(site.id)} title={t.feed.removeSite} className="opacity-70 hover:opacity-100 hover:text-red-400 transition-colors">
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <input
+                                        value={newSiteDomain}
+                                        onChange={e => setNewSiteDomain(e.target.value)}
+                                        placeholder={t.feed.siteDomainPlaceholder}
+                                        className={`flex-1 px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-indigo-500`}
+                                    />
+                                    <input
+                                        value={newSiteName}
+                                        onChange={e => setNewSiteName(e.target.value)}
+                                        placeholder={t.feed.siteNamePlaceholder}
+                                        className={`flex-1 px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-indigo-500`}
+                                    />
+                                    <input
+                                        value={newSiteLanguage}
+                                        onChange={e => setNewSiteLanguage(e.target.value)}
+                                        placeholder={t.feed.siteLanguagePlaceholder}
+                                        className={`sm:w-32 px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-indigo-500`}
+                                    />
+                                    <button onClick={handleAddSite} title={t.feed.addSite} className="flex items-center justify-center px-3 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                                        <PlusIcon className="w-5 h-5" />
+                                    </button>
+                                </div>
+                            </div>
+
                             <div className={`border-t ${styles.cardBorder} pt-6`}>
+                                <VoiceRequest countries={countries} categories={categories} disabled={isLoading} onSubmit={handleVoiceIntent} voice={voice} theme={backgroundTheme} language={uiLanguage} outputLanguage={outputLanguage} />
+                            </div>
+
+                            <div className={`border-t ${styles.cardBorder} pt-6 space-y-3`}>
                                 <button 
                                     onClick={handleGetSummary}
                                     disabled={isLoading || !selectedCountry || !selectedCategory} 
                                     className="w-full flex items-center justify-center bg-blue-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-blue-500 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
                                 >
                                     {isLoading && <SpinnerIcon className="w-5 h-5 mr-2" />}
-                                    {isLoading ? "Özetleniyor..." : "Özet Getir"}
+                                    {isLoading ? t.feed.summarizing : t.feed.getSummary}
                                 </button>
+                                {sites.length > 0 && (
+                                    <button
+                                        onClick={handleGetSiteSummary}
+                                        disabled={isLoading || selectedSiteIds.length === 0}
+                                        className="w-full flex items-center justify-center bg-indigo-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-indigo-500 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        {isLoading && <SpinnerIcon className="w-5 h-5 mr-2" />}
+                                        {isLoading ? t.feed.summarizing : t.feed.getSiteSummary}
+                                    </button>
+                                )}
                                 {error && <p className="text-red-500 dark:text-red-400 mt-3 text-center">{error}</p>}
                             </div>
                         </div>
+                        <SubscriptionsPanel
+                            subscriptions={subscriptions}
+                            sites={sites}
+                            countries={countries}
+                            categories={categories}
+                            discoverCategories={discoverCategories}
+                            runningId={runningSubscriptionId}
+                            onAdd={handleAddSubscription}
+                            onRemove={handleRemoveSubscription}
+                            onRunNow={handleRunSubscriptionNow}
+                            theme={backgroundTheme}
+                            language={uiLanguage}
+                        />
+                        {pendingResult && (
+                            <div className="mt-8">
+                                <ResultCard result={pendingResult} onAddFavorite={handleAddFavorite} onDelete={handleDeleteResult} onMarkRead={handleMarkRead} isFavorited={isFavoritedCheck} voice={voice} collapseRepeated={false} fontSize={fontSize} theme={backgroundTheme} language={uiLanguage} onCancel={handleCancelBriefing} />
+                            </div>
+                        )}
+                        <PodcastPanel results={sortedHistory} theme={backgroundTheme} language={uiLanguage} outputLanguage={outputLanguage} />
                         {sortedHistory.length > 0 && (
                             <section className="mt-8 space-y-4">
-                                {sortedHistory.map(result => (
-                                    <ResultCard key={result.id} result={result} onAddFavorite={handleAddFavorite} onDelete={handleDeleteResult} isFavorited={isFavoritedCheck} fontSize={fontSize} theme={backgroundTheme} />
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <label className={`flex items-center gap-2 text-sm ${styles.subText}`}>
+                                        <input type="checkbox" checked={collapseRepeated} onChange={e => setCollapseRepeated(e.target.checked)} />
+                                        {t.feed.collapseRepeated}
+                                    </label>
+                                    {unreadCount > 0 && (
+                                        <button onClick={handleMarkAllRead} className={`text-sm font-semibold ${styles.subText} hover:underline`}>
+                                            {t.feed.markAllRead(unreadCount)}
+                                        </button>
+                                    )}
+                                </div>
+                                <SearchFilters
+                                    filters={filters}
+                                    onChange={setFilters}
+                                    countries={filterCountries}
+                                    categories={filterCategories}
+                                    discoverCategories={filterDiscoverCategories}
+                                    showAudioFilter
+                                    matchCount={filteredHistory.length}
+                                    totalCount={sortedHistory.length}
+                                    theme={backgroundTheme}
+                                    language={uiLanguage}
+                                />
+                                {filteredHistory.length === 0 && <p className={`${styles.subText} text-center py-8`}>{t.feed.noMatches}</p>}
+                                {filteredHistory.map(result => (
+                                    <ResultCard key={result.id} result={result} onAddFavorite={handleAddFavorite} onDelete={handleDeleteResult} onMarkRead={handleMarkRead} isFavorited={isFavoritedCheck} voice={voice} diff={historyDiffs.get(result.id)} collapseRepeated={collapseRepeated} fontSize={fontSize} theme={backgroundTheme} language={uiLanguage} onUpdateConversation={handleUpdateConversation} onUpdatePerspectives={handleUpdatePerspectives} onUpdateDeepDives={handleUpdateDeepDives} hasOfflineAudio={cachedAudioIds.has(result.id)} onAudioSaved={handleAudioSaved} />
                                 ))}
                             </section>
                         )}
@@ -426,8 +1007,8 @@ const App: React.FC = () => {
                         <section>
                             <div className={`${styles.cardBg} rounded-2xl shadow-lg p-6 backdrop-blur-sm border ${styles.cardBorder} space-y-6`}>
                                 <div>
-                                    <h3 className={`text-lg font-medium ${styles.text} mb-2`}>Keşfet</h3>
-                                    <p className={`${styles.subText} mb-4 text-sm`}>Aşağıdaki konulardan birini seçerek dünya çapındaki güncel düşünce, sanat ve eleştiri yazılarını keşfedin.</p>
+                                    <h3 className={`text-lg font-medium ${styles.text} mb-2`}>{t.discover.title}</h3>
+                                    <p className={`${styles.subText} mb-4 text-sm`}>{t.discover.description}</p>
                                     <div className="flex flex-wrap gap-3">
                                         {discoverCategories.map(category => (
                                             <button 
@@ -436,7 +1017,7 @@ const App: React.FC = () => {
                                                 disabled={isLoading}
                                                 className="px-4 py-2 text-sm font-semibold rounded-full transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed bg-purple-600 text-white hover:bg-purple-700 flex items-center justify-center"
                                             >
-                                                 {isLoading ? <SpinnerIcon className="w-5 h-5" /> : category}
+                                                 {isLoading ? <SpinnerIcon className="w-5 h-5" /> : entryLabel(t, category)}
                                             </button>
                                         ))}
                                     </div>
@@ -448,29 +1029,56 @@ const App: React.FC = () => {
 
                     {activeView === 'favorites' && (
                         <section>
-                             <h2 className="text-2xl font-semibold mb-4 text-transparent bg-clip-text bg-gradient-to-r from-yellow-500 to-orange-500 dark:from-yellow-400 dark:to-orange-400">Favori Haberler</h2>
+                             <h2 className="text-2xl font-semibold mb-4 text-transparent bg-clip-text bg-gradient-to-r from-yellow-500 to-orange-500 dark:from-yellow-400 dark:to-orange-400">{t.favorites.title}</h2>
                              {sortedFavorites.length > 0 ? (
-                                <div className="space-y-4">
-                                    {sortedFavorites.map(fav => (
-                                        <div key={fav.id} className={`${styles.cardBg} rounded-xl shadow-lg p-5 backdrop-blur-sm border ${styles.cardBorder}`}>
-                                            <p className={`mb-3 ${fontSizeClassMap[fontSize]}`}>{fav.text}</p>
-                                            <div className="flex justify-between items-center border-t border-gray-200 dark:border-gray-700 pt-3">
-                                                <div className={`text-xs ${styles.subText}`}>
-                                                    <p>{fav.source}</p>
-                                                    <p>{new Date(fav.timestamp).toLocaleDateString('tr-TR', { year: 'numeric', month: 'long', day: 'numeric' })}</p>
-                                                </div>
-                                                 <button onClick={() => handleRemoveFavorite(fav.id)} title="Favorilerden kaldır" className={`${styles.subText} hover:text-red-500 transition-colors`}>
-                                                    <TrashIcon className="w-6 h-6" />
-                                                </button>
-                                            </div>
-                                        </div>
-                                    ))}
-                                </div>
+                                <FavoritesNotebook
+                                    favorites={sortedFavorites}
+                                    visibleFavorites={filteredFavorites}
+                                    collections={collections}
+                                    history={history}
+                                    filter={notebookFilter}
+                                    onFilterChange={setNotebookFilter}
+                                    onUpdateFavorite={handleUpdateFavorite}
+                                    onRemoveFavorite={handleRemoveFavorite}
+                                    onCreateCollection={handleCreateCollection}
+                                    onRenameCollection={handleRenameCollection}
+                                    onDeleteCollection={handleDeleteCollection}
+                                    onOpenResult={handleOpenResult}
+                                    fontSize={fontSize}
+                                    theme={backgroundTheme}
+                                    language={uiLanguage}
+                                >
+                                    <SearchFilters
+                                        filters={filters}
+                                        onChange={setFilters}
+                                        countries={filterCountries}
+                                        categories={filterCategories}
+                                        discoverCategories={filterDiscoverCategories}
+                                        showAudioFilter={false}
+                                        matchCount={filteredFavorites.length}
+                                        totalCount={sortedFavorites.length}
+                                        theme={backgroundTheme}
+                                        language={uiLanguage}
+                                    />
+                                </FavoritesNotebook>
                              ) : (
-                                <p className={`${styles.subText} text-center py-8`}>Henüz favori haberiniz bulunmuyor.</p>
+                                <p className={`${styles.subText} text-center py-8`}>{t.favorites.empty}</p>
                              )}
                         </section>
                     )}
+
+                    {activeView === 'timeline' && (
+                        <TimelineView
+                            history={sortedHistory}
+                            pendingCount={pendingEntityCount}
+                            isExtracting={isExtractingEntities}
+                            extractionFailed={entityExtractionFailed}
+                            onOpenResult={handleOpenResult}
+                            fontSize={fontSize}
+                            theme={backgroundTheme}
+                            language={uiLanguage}
+                        />
+                    )}
                 </main>
             </div>
         </div>
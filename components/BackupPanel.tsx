@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { createBackup, parseBackup, BackupError } from '../services/backup';
+import type { BackupContents, ImportMode } from '../services/backup';
+import { toMarkdown, toHtml } from '../utils/digest';
+import { downloadBlob } from '../utils/download';
+import type { FavoriteCollection, FavoriteItem, Language, Result } from '../types';
+import { MESSAGES, formatDate } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import DownloadIcon from './icons/DownloadIcon';
+
+function fileDate(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+// Full JSON backup/restore plus Markdown and HTML digests of a hand-picked
+// set of briefings and favorites.
+const BackupPanel: React.FC<{
+    history: Result[];
+    favorites: FavoriteItem[];
+    collections: FavoriteCollection[];
+    onRestore: (backup: BackupContents, mode: ImportMode) => void;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ history, favorites, collections, onRestore, theme, language }) => {
+    const [selectedResultIds, setSelectedResultIds] = useState<string[]>([]);
+    const [selectedFavoriteIds, setSelectedFavoriteIds] = useState<string[]>([]);
+    const [pendingBackup, setPendingBackup] = useState<BackupContents | null>(null);
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const buttonClass = `flex items-center px-3 py-1 text-sm font-semibold rounded-lg ${styles.inputBg} ${styles.hoverBg} ${styles.text} disabled:opacity-50 disabled:cursor-not-allowed`;
+
+    const toggle = (setter: React.Dispatch<React.SetStateAction<string[]>>, id: string) => {
+        setter(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+    };
+
+    const selection = () => ({
+        results: history.filter(result => selectedResultIds.includes(result.id)),
+        favorites: favorites.filter(favorite => selectedFavoriteIds.includes(favorite.id)),
+    });
+    const hasSelection = selectedResultIds.length > 0 || selectedFavoriteIds.length > 0;
+
+    const handleBackup = () => {
+        downloadBlob(createBackup({ history, favorites, collections }), `${t.backup.backupFileName} ${fileDate()}.json`);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setMessage(null);
+        setError(null);
+        setPendingBackup(null);
+        try {
+            setPendingBackup(parseBackup(await file.text()));
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof BackupError ? t.backup.problem(err.problem) : t.backup.readFailed);
+        }
+    };
+
+    const handleRestore = () => {
+        if (!pendingBackup) return;
+        if (importMode === 'replace' && !window.confirm(t.backup.confirmReplace)) return;
+        onRestore(pendingBackup, importMode);
+        const describe = importMode === 'merge' ? t.backup.merged : t.backup.restored;
+        setMessage(describe(pendingBackup.history.length, pendingBackup.favorites.length));
+        setPendingBackup(null);
+    };
+
+    return (
+        <details className={`text-sm ${styles.subText} mt-2`}>
+            <summary className="cursor-pointer text-center">{t.backup.title}</summary>
+            <div className={`mt-3 p-4 rounded-xl border ${styles.cardBorder} ${styles.cardBg} space-y-4`}>
+                <div>
+                    <h4 className={`font-semibold ${styles.text} mb-2`}>{t.backup.backup}</h4>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button onClick={handleBackup} className={buttonClass}>
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            {t.backup.download}
+                        </button>
+                        <label className={`${buttonClass} cursor-pointer`}>
+                            {t.backup.restoreFromFile}
+                            <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+                        </label>
+                    </div>
+                    {pendingBackup && (
+                        <div className={`mt-3 p-3 rounded-lg ${styles.inputBg} flex flex-wrap items-center gap-3`}>
+                            <span className={styles.text}>
+                                {t.backup.contents(pendingBackup.history.length, pendingBackup.favorites.length)}
+                                {pendingBackup.exportedAt > 0 && ` · ${formatDate(pendingBackup.exportedAt, language, { dateStyle: 'long', timeStyle: 'short' })}`}
+                            </span>
+                            <label className="flex items-center gap-1">
+                                <input type="radio" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} />
+                                {t.backup.merge}
+                            </label>
+                            <label className="flex items-center gap-1">
+                                <input type="radio" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} />
+                                {t.backup.replace}
+                            </label>
+                            <button onClick={handleRestore} className="px-3 py-1 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700">{t.backup.restore}</button>
+                            <button onClick={() => setPendingBackup(null)} className="font-semibold hover:underline">{t.backup.cancel}</button>
+                        </div>
+                    )}
+                    {message && <p className="mt-2 text-teal-700 dark:text-teal-300">{message}</p>}
+                    {error && <p className="mt-2 text-red-500 dark:text-red-400">{error}</p>}
+                </div>
+
+                <div>
+                    <h4 className={`font-semibold ${styles.text} mb-2`}>{t.backup.exportTitle}</h4>
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <span>{t.backup.briefings}</span>
+                                <button onClick={() => setSelectedResultIds(selectedResultIds.length === history.length ? [] : history.map(result => result.id))} className="text-xs hover:underline">
+                                    {selectedResultIds.length === history.length && history.length > 0 ? t.backup.clearSelection : t.backup.selectAll}
+                                </button>
+                            </div>
+                            <div className="space-y-1 max-h-40 overflow-y-auto">
+                                {history.map(result => (
+                                    <label key={result.id} className={`flex items-center gap-2 ${styles.text}`}>
+                                        <input type="checkbox" checked={selectedResultIds.includes(result.id)} onChange={() => toggle(setSelectedResultIds, result.id)} />
+                                        <span className="font-semibold truncate">{result.source}</span>
+                                        <span className={`text-xs ${styles.subText}`}>{formatDate(result.timestamp, language, { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                    </label>
+                                ))}
+                                {history.length === 0 && <p className="text-xs">{t.backup.noHistory}</p>}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <span>{t.backup.favorites}</span>
+                                <button onClick={() => setSelectedFavoriteIds(selectedFavoriteIds.length === favorites.length ? [] : favorites.map(favorite => favorite.id))} className="text-xs hover:underline">
+                                    {selectedFavoriteIds.length === favorites.length && favorites.length > 0 ? t.backup.clearSelection : t.backup.selectAll}
+                                </button>
+                            </div>
+                            <div className="space-y-1 max-h-40 overflow-y-auto">
+                                {favorites.map(favorite => (
+                                    <label key={favorite.id} className={`flex items-center gap-2 ${styles.text}`}>
+                                        <input type="checkbox" checked={selectedFavoriteIds.includes(favorite.id)} onChange={() => toggle(setSelectedFavoriteIds, favorite.id)} />
+                                        <span className="truncate">{favorite.item?.headline || favorite.text}</span>
+                                    </label>
+                                ))}
+                                {favorites.length === 0 && <p className="text-xs">{t.backup.noFavorites}</p>}
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-3">
+                        <button
+                            onClick={() => downloadBlob(new Blob([toMarkdown(selection(), language)], { type: 'text/markdown' }), `${t.backup.digestFileName} ${fileDate()}.md`)}
+                            disabled={!hasSelection}
+                            className={buttonClass}
+                        >
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            Markdown
+                        </button>
+                        <button
+                            onClick={() => downloadBlob(new Blob([toHtml(selection(), language)], { type: 'text/html' }), `${t.backup.digestFileName} ${fileDate()}.html`)}
+                            disabled={!hasSelection}
+                            className={buttonClass}
+                        >
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            HTML
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </details>
+    );
+};
+
+export default BackupPanel;
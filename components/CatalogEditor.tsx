@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { addCatalogEntry, moveCatalogEntry, removeCatalogEntry, toggleCatalogEntry, validateEntryName } from '../utils/catalogs';
+import type { EntryNameProblem } from '../utils/catalogs';
+import type { CatalogEntry, Language } from '../types';
+import { MESSAGES, entryLabel } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+
+// Add, reorder and hide the entries of one pick list.
+const CatalogEditor: React.FC<{
+    label: string;
+    entries: CatalogEntry[];
+    onChange: (entries: CatalogEntry[]) => void;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ label, entries, onChange, theme, language }) => {
+    const [newName, setNewName] = useState('');
+    const [error, setError] = useState<EntryNameProblem | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const problem = validateEntryName(entries, newName);
+        setError(problem);
+        if (problem) return;
+        onChange(addCatalogEntry(entries, newName));
+        setNewName('');
+    };
+
+    return (
+        <div className="space-y-2">
+            <h4 className={`font-semibold ${styles.text}`}>{label}</h4>
+            <ul className="space-y-1">
+                {entries.map((entry, index) => (
+                    <li key={entry.name} className={`flex items-center gap-2 px-2 py-1 rounded-lg ${styles.inputBg} ${entry.hidden ? 'opacity-50' : ''}`}>
+                        <label className={`flex flex-1 items-center gap-2 ${styles.text}`} title={entry.hidden ? t.catalogs.hiddenTitle : t.catalogs.visibleTitle}>
+                            <input type="checkbox" checked={!entry.hidden} onChange={() => onChange(toggleCatalogEntry(entries, entry.name))} />
+                            {entry.custom ? entry.name : entryLabel(t, entry.name)}
+                        </label>
+                        <button onClick={() => onChange(moveCatalogEntry(entries, index, -1))} disabled={index === 0} title={t.catalogs.moveUp} className={`px-1 rounded ${styles.hoverBg} disabled:opacity-30`}>
+                            ↑
+                        </button>
+                        <button onClick={() => onChange(moveCatalogEntry(entries, index, 1))} disabled={index === entries.length - 1} title={t.catalogs.moveDown} className={`px-1 rounded ${styles.hoverBg} disabled:opacity-30`}>
+                            ↓
+                        </button>
+                        {entry.custom && (
+                            <button onClick={() => onChange(removeCatalogEntry(entries, entry.name))} title={t.catalogs.remove} className="hover:text-red-500 transition-colors">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            <form onSubmit={handleAdd} className="flex gap-2">
+                <input
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    placeholder={t.catalogs.addPlaceholder}
+                    aria-label={t.catalogs.addLabel(label)}
+                    className={`flex-1 min-w-0 px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                />
+                <button type="submit" title={t.catalogs.add} className="flex items-center px-2 py-1 text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                    <PlusIcon className="w-4 h-4" />
+                </button>
+            </form>
+            {error && <p className="text-red-500 dark:text-red-400 text-xs">{t.catalogs.nameProblem[error]}</p>}
+        </div>
+    );
+};
+
+export default CatalogEditor;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { CATALOG_IDS, DEFAULT_CATALOGS, visibleNames } from '../utils/catalogs';
+import type { CatalogId, Catalogs, Language, PromptTemplates } from '../types';
+import { MESSAGES } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import CatalogEditor from './CatalogEditor';
+import PromptTemplateEditor from './PromptTemplateEditor';
+
+const CatalogSettings: React.FC<{
+    catalogs: Catalogs;
+    onCatalogsChange: (catalogs: Catalogs) => void;
+    templates: PromptTemplates;
+    onTemplatesChange: (templates: PromptTemplates) => void;
+    theme: BackgroundTheme;
+    language: Language;
+    // Used for the prompt preview.
+    outputLanguage: Language;
+}> = ({ catalogs, onCatalogsChange, templates, onTemplatesChange, theme, language, outputLanguage }) => {
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const updateCatalog = (id: CatalogId) => (entries: Catalogs[CatalogId]) => onCatalogsChange({ ...catalogs, [id]: entries });
+
+    const handleReset = () => {
+        if (window.confirm(t.catalogs.confirmReset)) {
+            onCatalogsChange(DEFAULT_CATALOGS);
+        }
+    };
+
+    return (
+        <details className={`mb-6 text-sm ${styles.subText}`}>
+            <summary className="cursor-pointer text-center">{t.catalogs.title}</summary>
+            <div className={`mt-3 p-4 rounded-xl border ${styles.cardBorder} ${styles.cardBg} space-y-6`}>
+                <div className="grid gap-4 sm:grid-cols-3">
+                    {CATALOG_IDS.map(id => (
+                        <CatalogEditor key={id} label={t.catalogs.labels[id]} entries={catalogs[id]} onChange={updateCatalog(id)} theme={theme} language={language} />
+                    ))}
+                </div>
+                <button onClick={handleReset} className="text-xs font-semibold hover:underline">
+                    {t.catalogs.reset}
+                </button>
+                <div className={`border-t ${styles.cardBorder} pt-4`}>
+                    <PromptTemplateEditor
+                        templates={templates}
+                        onChange={onTemplatesChange}
+                        countries={visibleNames(catalogs.countries)}
+                        categories={visibleNames(catalogs.categories)}
+                        discoverCategories={visibleNames(catalogs.discoverCategories)}
+                        theme={theme}
+                        language={language}
+                        outputLanguage={outputLanguage}
+                    />
+                </div>
+            </div>
+        </details>
+    );
+};
+
+export default CatalogSettings;
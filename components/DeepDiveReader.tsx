@@ -0,0 +1,146 @@
+import React, { useEffect } from 'react';
+import { useBriefingPlayer } from '../hooks/useBriefingPlayer';
+import { describeError } from '../services/geminiClient';
+import { summaryParagraphs } from '../utils/deepDives';
+import type { DeepDive, Language } from '../types';
+import { MESSAGES, formatDate } from '../i18n';
+import { themeStyles, fontSizeClassMap } from '../theme';
+import type { BackgroundTheme, FontSize } from '../theme';
+import SpinnerIcon from './icons/SpinnerIcon';
+import PlayIcon from './icons/PlayIcon';
+import PauseIcon from './icons/PauseIcon';
+import StopIcon from './icons/StopIcon';
+
+// The reader pane for a deep-dive reading. It is read aloud through the
+// same player as briefings, one summary paragraph at a time, with the audio
+// cached under the reading's id.
+const DeepDiveReader: React.FC<{
+    deepDive: DeepDive;
+    voice: string;
+    isRereading: boolean;
+    onReread: () => void;
+    onClose: () => void;
+    fontSize: FontSize;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ deepDive, voice, isRereading, onReread, onClose, fontSize, theme, language }) => {
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const paragraphs = summaryParagraphs(deepDive);
+    const player = useBriefingPlayer(deepDive.id, [deepDive.title, ...paragraphs], voice, deepDive.language);
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [onClose]);
+
+    const playerError = player.error
+        ? (player.error.kind === 'synthesis' ? describeError(player.error.cause, t.reader.synthesisFailed, language) : t.player.playbackFailed)
+        : null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+            <aside
+                role="dialog"
+                aria-modal="true"
+                aria-label={t.reader.title}
+                onClick={e => e.stopPropagation()}
+                className={`w-full max-w-2xl h-full overflow-y-auto ${styles.bg} ${styles.text} shadow-2xl p-6 space-y-5`}
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <p className={`text-xs uppercase tracking-wide ${styles.subText}`}>{t.reader.title}</p>
+                        <h2 className="text-2xl font-semibold">{deepDive.title}</h2>
+                        <p className={`text-xs mt-1 ${styles.subText}`}>
+                            {t.reader.readAt(formatDate(deepDive.timestamp, language, { dateStyle: 'medium', timeStyle: 'short' }))}
+                            {' · '}
+                            <a href={deepDive.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{t.reader.openOriginal}</a>
+                        </p>
+                    </div>
+                    <button onClick={onClose} title={t.reader.close} className={`px-2 text-2xl leading-none rounded ${styles.hoverBg}`}>×</button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <button
+                        onClick={player.toggle}
+                        className="flex items-center px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 transition-colors"
+                    >
+                        {player.status === 'loading' ? <SpinnerIcon className="w-4 h-4 mr-2" /> : (player.status === 'playing' ? <PauseIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />)}
+                        {player.status === 'loading' ? t.reader.generating : (player.status === 'playing' ? t.reader.pause : (player.status === 'paused' ? t.reader.resume : t.reader.listen))}
+                    </button>
+                    {player.status !== 'idle' && (
+                        <button onClick={player.stop} title={t.reader.stop} className={`p-2 rounded-lg ${styles.inputBg} ${styles.hoverBg}`}>
+                            <StopIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                    <button
+                        onClick={onReread}
+                        disabled={isRereading}
+                        className={`flex items-center px-4 py-2 text-sm font-medium rounded-lg ${styles.inputBg} ${styles.hoverBg} disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                        {isRereading && <SpinnerIcon className="w-4 h-4 mr-2" />}
+                        {t.reader.reread}
+                    </button>
+                </div>
+                {playerError && <p className="text-red-500 dark:text-red-400 text-sm">{playerError}</p>}
+
+                <section className={`space-y-3 ${fontSizeClassMap[fontSize]}`}>
+                    <h3 className={`text-sm font-semibold ${styles.subText}`}>{t.reader.summary}</h3>
+                    {paragraphs.map((paragraph, index) => (
+                        <p
+                            key={index}
+                            className={`whitespace-pre-wrap rounded-lg transition-colors ${player.currentIndex === index + 1 ? 'bg-teal-500/15 ring-1 ring-teal-500/50 -mx-2 px-2 py-1' : ''}`}
+                        >
+                            {paragraph}
+                        </p>
+                    ))}
+                </section>
+
+                {deepDive.quotes.length > 0 && (
+                    <section className="space-y-2">
+                        <h3 className={`text-sm font-semibold ${styles.subText}`}>{t.reader.quotes}</h3>
+                        {deepDive.quotes.map((quote, index) => (
+                            <blockquote key={index} className="border-l-4 border-teal-500 pl-3 italic">
+                                “{quote.text}”
+                                {quote.speaker && <span className={`block not-italic text-sm mt-1 ${styles.subText}`}>— {quote.speaker}</span>}
+                            </blockquote>
+                        ))}
+                    </section>
+                )}
+
+                {deepDive.entities.length > 0 && (
+                    <section className="space-y-2">
+                        <h3 className={`text-sm font-semibold ${styles.subText}`}>{t.reader.entities}</h3>
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            {deepDive.entities.map(entity => (
+                                <span key={entity.name} title={t.reader.entityKinds[entity.kind]} className={`px-2 py-1 rounded-full ${styles.inputBg}`}>
+                                    {entity.name}
+                                    <span className={`ml-1 text-xs ${styles.subText}`}>{t.reader.entityKinds[entity.kind]}</span>
+                                </span>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {deepDive.citations && deepDive.citations.length > 0 && (
+                    <section className="space-y-1 text-sm">
+                        <h3 className={`font-semibold ${styles.subText}`}>{t.reader.sources}</h3>
+                        <ol className="space-y-1">
+                            {deepDive.citations.map(citation => (
+                                <li key={citation.index}>
+                                    <span className={`mr-2 ${styles.subText}`}>[{citation.index + 1}]</span>
+                                    <a href={citation.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{citation.title}</a>
+                                </li>
+                            ))}
+                        </ol>
+                    </section>
+                )}
+            </aside>
+        </div>
+    );
+};
+
+export default DeepDiveReader;
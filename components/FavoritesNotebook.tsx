@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { addTag, allTags, removeTag, toggleCollection, validateCollectionName } from '../utils/favorites';
+import type { CollectionNameProblem, NotebookFilter } from '../utils/favorites';
+import { dossierToMarkdown, dossierToHtml } from '../utils/digest';
+import { downloadBlob } from '../utils/download';
+import { routeUrl } from '../utils/routes';
+import type { FavoriteCollection, FavoriteItem, Language, Result } from '../types';
+import { MESSAGES, formatDate } from '../i18n';
+import { themeStyles, fontSizeClassMap } from '../theme';
+import type { BackgroundTheme, FontSize } from '../theme';
+import ItemCitations from './ItemCitations';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+import DownloadIcon from './icons/DownloadIcon';
+
+// One saved story with its citations, where it came from, and the reader's
+// tags, note and collections.
+const FavoriteCard: React.FC<{
+    favorite: FavoriteItem;
+    collections: FavoriteCollection[];
+    hasResult: boolean;
+    onUpdate: (favorite: FavoriteItem) => void;
+    onRemove: (id: string) => void;
+    onOpenResult: (id: string) => void;
+    fontSize: FontSize;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ favorite, collections, hasResult, onUpdate, onRemove, onOpenResult, fontSize, theme, language }) => {
+    const [newTag, setNewTag] = useState('');
+    const [note, setNote] = useState(favorite.note);
+    const [linkStatus, setLinkStatus] = useState<'copied' | 'failed' | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const handleAddTag = (e: React.FormEvent) => {
+        e.preventDefault();
+        onUpdate(addTag(favorite, newTag));
+        setNewTag('');
+    };
+
+    // The note is saved when the field loses focus rather than on every
+    // keystroke, which would rewrite the favorites store each time.
+    const handleNoteBlur = () => {
+        if (note !== favorite.note) onUpdate({ ...favorite, note });
+    };
+
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(routeUrl({ view: 'favorites', resultId: null, favoriteId: favorite.id }, window.location.href));
+            setLinkStatus('copied');
+        } catch (error) {
+            console.error(error);
+            setLinkStatus('failed');
+        }
+        window.setTimeout(() => setLinkStatus(null), 2000);
+    };
+
+    return (
+        <div id={`favorite-${favorite.id}`} className={`${styles.cardBg} rounded-xl shadow-lg p-5 backdrop-blur-sm border ${styles.cardBorder}`}>
+            <div className={`mb-3 ${fontSizeClassMap[fontSize]}`}>
+                {favorite.item?.headline && <p className="font-semibold">{favorite.item.headline}</p>}
+                <p>{favorite.item ? favorite.item.body : favorite.text}{favorite.item && <ItemCitations item={favorite.item} language={language} />}</p>
+                {favorite.item?.citations && favorite.item.citations.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                        {favorite.item.citations.map(citation => (
+                            <li key={citation.index}>
+                                <span className={`mr-2 ${styles.subText}`}>[{citation.index + 1}]</span>
+                                <a href={citation.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{citation.title}</a>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <div className="space-y-2 mb-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                    {favorite.tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-yellow-500/20 text-yellow-800 dark:text-yellow-200">
+                            #{tag}
+                            <button onClick={() => onUpdate(removeTag(favorite, tag))} title={t.favorites.removeTag(tag)} className="hover:text-red-500">×</button>
+                        </span>
+                    ))}
+                    <form onSubmit={handleAddTag} className="flex gap-1">
+                        <input
+                            value={newTag}
+                            onChange={e => setNewTag(e.target.value)}
+                            placeholder={t.favorites.addTagPlaceholder}
+                            aria-label={t.favorites.addTagPlaceholder}
+                            className={`w-28 px-2 py-0.5 text-xs rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-yellow-500`}
+                        />
+                    </form>
+                </div>
+                <textarea
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    onBlur={handleNoteBlur}
+                    placeholder={t.favorites.notePlaceholder}
+                    aria-label={t.favorites.note}
+                    rows={note ? 3 : 1}
+                    className={`w-full px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-yellow-500`}
+                />
+                {collections.length > 0 && (
+                    <div className={`flex flex-wrap items-center gap-3 text-xs ${styles.subText}`}>
+                        <span>{t.favorites.collections}:</span>
+                        {collections.map(collection => (
+                            <label key={collection.id} className="flex items-center gap-1">
+                                <input type="checkbox" checked={favorite.collectionIds.includes(collection.id)} onChange={() => onUpdate(toggleCollection(favorite, collection.id))} />
+                                {collection.name}
+                            </label>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <div className="flex justify-between items-center border-t border-gray-200 dark:border-gray-700 pt-3">
+                <div className={`text-xs ${styles.subText}`}>
+                    <p>{favorite.source}</p>
+                    <p>
+                        {formatDate(favorite.timestamp, language, { year: 'numeric', month: 'long', day: 'numeric' })}
+                        {' · '}
+                        {hasResult && favorite.resultId ? (
+                            <button onClick={() => onOpenResult(favorite.resultId!)} className="text-blue-600 dark:text-blue-400 hover:underline">{t.favorites.openResult}</button>
+                        ) : (
+                            <span>{t.favorites.resultDeleted}</span>
+                        )}
+                        {' · '}
+                        <button onClick={handleCopyLink} title={t.favorites.copyLinkTitle} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {linkStatus === 'copied' ? t.favorites.linkCopied : linkStatus === 'failed' ? t.favorites.copyLinkFailed : t.favorites.copyLink}
+                        </button>
+                    </p>
+                </div>
+                <button onClick={() => onRemove(favorite.id)} title={t.favorites.remove} className={`${styles.subText} hover:text-red-500 transition-colors`}>
+                    <TrashIcon className="w-6 h-6" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// The favorites view: collections and tags to narrow the list, the search
+// filters passed in as children, and a dossier export of one collection.
+const FavoritesNotebook: React.FC<{
+    favorites: FavoriteItem[];
+    // The favorites left after search and the notebook filter.
+    visibleFavorites: FavoriteItem[];
+    collections: FavoriteCollection[];
+    history: Result[];
+    filter: NotebookFilter;
+    onFilterChange: (filter: NotebookFilter) => void;
+    onUpdateFavorite: (favorite: FavoriteItem) => void;
+    onRemoveFavorite: (id: string) => void;
+    onCreateCollection: (name: string) => void;
+    onRenameCollection: (id: string, name: string) => void;
+    onDeleteCollection: (id: string) => void;
+    onOpenResult: (id: string) => void;
+    fontSize: FontSize;
+    theme: BackgroundTheme;
+    language: Language;
+    children?: React.ReactNode;
+}> = ({ favorites, visibleFavorites, collections, history, filter, onFilterChange, onUpdateFavorite, onRemoveFavorite, onCreateCollection, onRenameCollection, onDeleteCollection, onOpenResult, fontSize, theme, language, children }) => {
+    const [newName, setNewName] = useState('');
+    const [nameProblem, setNameProblem] = useState<CollectionNameProblem | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const chipClass = (active: boolean) => `px-3 py-1 text-sm rounded-full transition-colors ${active ? 'bg-yellow-500 text-white' : `${styles.inputBg} ${styles.hoverBg} ${styles.text}`}`;
+    const buttonClass = `flex items-center px-3 py-1 text-sm font-semibold rounded-lg ${styles.inputBg} ${styles.hoverBg} ${styles.text}`;
+
+    const tags = allTags(favorites);
+    const resultIds = new Set(history.map(result => result.id));
+    const activeCollection = collections.find(collection => collection.id === filter.collectionId) ?? null;
+    const countIn = (collectionId: string) => favorites.filter(favorite => favorite.collectionIds.includes(collectionId)).length;
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const problem = validateCollectionName(collections, newName);
+        setNameProblem(problem);
+        if (problem) return;
+        onCreateCollection(newName);
+        setNewName('');
+    };
+
+    const handleRename = (collection: FavoriteCollection) => {
+        const name = window.prompt(t.favorites.renamePrompt, collection.name);
+        if (name === null) return;
+        const problem = validateCollectionName(collections, name, collection.id);
+        setNameProblem(problem);
+        if (!problem) onRenameCollection(collection.id, name);
+    };
+
+    const handleDelete = (collection: FavoriteCollection) => {
+        if (!window.confirm(t.favorites.confirmDeleteCollection(collection.name))) return;
+        onDeleteCollection(collection.id);
+    };
+
+    // The dossier holds the whole collection in saved order, whatever the
+    // search and tag filters currently show.
+    const handleExport = (format: 'md' | 'html') => {
+        if (!activeCollection) return;
+        const dossier = {
+            collection: activeCollection,
+            favorites: favorites.filter(favorite => favorite.collectionIds.includes(activeCollection.id)),
+            history,
+        };
+        const blob = format === 'md'
+            ? new Blob([dossierToMarkdown(dossier, language)], { type: 'text/markdown' })
+            : new Blob([dossierToHtml(dossier, language)], { type: 'text/html' });
+        downloadBlob(blob, `${t.favorites.dossierFileName} - ${activeCollection.name}.${format}`);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className={`${styles.cardBg} rounded-xl p-4 border ${styles.cardBorder} space-y-3`}>
+                <h3 className={`text-sm font-semibold ${styles.subText}`}>{t.favorites.collections}</h3>
+                <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={() => onFilterChange({ ...filter, collectionId: null })} className={chipClass(filter.collectionId === null)}>
+                        {t.favorites.allCollections} ({favorites.length})
+                    </button>
+                    {collections.map(collection => (
+                        <button key={collection.id} onClick={() => onFilterChange({ ...filter, collectionId: collection.id })} className={chipClass(filter.collectionId === collection.id)}>
+                            {collection.name} ({countIn(collection.id)})
+                        </button>
+                    ))}
+                    {collections.length === 0 && <span className={`text-xs ${styles.subText}`}>{t.favorites.noCollections}</span>}
+                </div>
+                <form onSubmit={handleCreate} className="flex gap-2">
+                    <input
+                        value={newName}
+                        onChange={e => setNewName(e.target.value)}
+                        placeholder={t.favorites.newCollectionPlaceholder}
+                        aria-label={t.favorites.newCollectionPlaceholder}
+                        className={`flex-1 min-w-0 px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-yellow-500`}
+                    />
+                    <button type="submit" title={t.favorites.createCollection} className="flex items-center px-2 py-1 text-white bg-yellow-500 rounded-lg hover:bg-yellow-600">
+                        <PlusIcon className="w-4 h-4" />
+                    </button>
+                </form>
+                {nameProblem && <p className="text-red-500 dark:text-red-400 text-xs">{t.favorites.collectionNameProblem[nameProblem]}</p>}
+                {activeCollection && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button onClick={() => handleExport('md')} title={t.favorites.exportDossier} className={buttonClass}>
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            Markdown
+                        </button>
+                        <button onClick={() => handleExport('html')} title={t.favorites.exportDossier} className={buttonClass}>
+                            <DownloadIcon className="w-4 h-4 mr-1" />
+                            HTML
+                        </button>
+                        <button onClick={() => handleRename(activeCollection)} className={buttonClass}>
+                            {t.favorites.renameCollection}
+                        </button>
+                        <button onClick={() => handleDelete(activeCollection)} className={`${buttonClass} hover:text-red-500`}>
+                            <TrashIcon className="w-4 h-4 mr-1" />
+                            {t.favorites.deleteCollection}
+                        </button>
+                    </div>
+                )}
+                {tags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className={`text-xs ${styles.subText}`}>{t.favorites.tags}:</span>
+                        <button onClick={() => onFilterChange({ ...filter, tag: null })} className={chipClass(filter.tag === null)}>
+                            {t.favorites.allTags}
+                        </button>
+                        {tags.map(tag => (
+                            <button key={tag} onClick={() => onFilterChange({ ...filter, tag })} className={chipClass(filter.tag === tag)}>
+                                #{tag}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {children}
+            {visibleFavorites.length === 0 && (
+                <p className={`${styles.subText} text-center py-8`}>
+                    {activeCollection && countIn(activeCollection.id) === 0 ? t.favorites.emptyCollection : t.favorites.noMatches}
+                </p>
+            )}
+            {visibleFavorites.map(favorite => (
+                <FavoriteCard
+                    key={favorite.id}
+                    favorite={favorite}
+                    collections={collections}
+                    hasResult={favorite.resultId !== undefined && resultIds.has(favorite.resultId)}
+                    onUpdate={onUpdateFavorite}
+                    onRemove={onRemoveFavorite}
+                    onOpenResult={onOpenResult}
+                    fontSize={fontSize}
+                    theme={theme}
+                    language={language}
+                />
+            ))}
+        </div>
+    );
+};
+
+export default FavoritesNotebook;
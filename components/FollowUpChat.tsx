@@ -0,0 +1,128 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { getProvider } from '../services/provider';
+import { describeError } from '../services/geminiClient';
+import type { ChatMessage, Language, Result } from '../types';
+import { MESSAGES } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import SpinnerIcon from './icons/SpinnerIcon';
+import StopIcon from './icons/StopIcon';
+
+// The "Sor" panel under a result card: a multi-turn conversation about the
+// briefing. Every turn is reported through onChange so it is saved with the
+// result and survives reloads.
+const FollowUpChat: React.FC<{
+    result: Result;
+    onChange: (conversation: ChatMessage[]) => void;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ result, onChange, theme, language }) => {
+    const [question, setQuestion] = useState('');
+    const [isAnswering, setIsAnswering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const conversation = result.conversation ?? [];
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = question.trim();
+        if (!text || isAnswering) return;
+
+        const asked: ChatMessage[] = [...conversation, { id: `${Date.now()}-user`, role: 'user', text, timestamp: Date.now() }];
+        onChange(asked);
+        setQuestion('');
+        setError(null);
+        setIsAnswering(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        try {
+            const answer = await getProvider().answerFollowUp(result, asked, { signal: controller.signal });
+            onChange([...asked, answer]);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setError(describeError(err, t.chat.failed, language));
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setIsAnswering(false);
+        }
+    };
+
+    const handleClear = () => {
+        abortRef.current?.abort();
+        onChange([]);
+        setError(null);
+    };
+
+    return (
+        <div className={`mt-4 border-t ${styles.cardBorder} pt-3 space-y-3`}>
+            <div className="flex items-center justify-between">
+                <h4 className={`text-sm font-semibold ${styles.subText}`}>{t.chat.title}</h4>
+                {conversation.length > 0 && (
+                    <button onClick={handleClear} className={`text-xs ${styles.subText} hover:text-red-500 transition-colors`}>
+                        {t.chat.clear}
+                    </button>
+                )}
+            </div>
+
+            {conversation.length > 0 && (
+                <ul className="space-y-2 text-sm">
+                    {conversation.map(message => (
+                        <li
+                            key={message.id}
+                            className={`rounded-lg px-3 py-2 whitespace-pre-wrap ${message.role === 'user' ? 'ml-8 bg-teal-600/15' : `mr-8 ${styles.inputBg}`} ${styles.text}`}
+                        >
+                            {message.text}
+                            {message.citations && message.citations.length > 0 && (
+                                <ol className="mt-2 space-y-0.5 text-xs">
+                                    {message.citations.map(citation => (
+                                        <li key={citation.index}>
+                                            <span className={`mr-1 ${styles.subText}`}>[{citation.index + 1}]</span>
+                                            <a href={citation.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                                                {citation.title}
+                                            </a>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {isAnswering && (
+                <p className={`flex items-center text-sm ${styles.subText}`}>
+                    <SpinnerIcon className="w-4 h-4 mr-2" />
+                    {t.chat.answering}
+                    <button onClick={() => abortRef.current?.abort()} title={t.chat.stop} className={`ml-2 p-1 rounded ${styles.hoverBg}`}>
+                        <StopIcon className="w-4 h-4" />
+                    </button>
+                </p>
+            )}
+            {error && <p className="text-red-500 dark:text-red-400 text-sm">{error}</p>}
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    type="text"
+                    value={question}
+                    onChange={e => setQuestion(e.target.value)}
+                    placeholder={t.chat.placeholder}
+                    aria-label={t.chat.inputLabel}
+                    className={`flex-1 px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-teal-500`}
+                />
+                <button
+                    type="submit"
+                    disabled={isAnswering || !question.trim()}
+                    className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                >
+                    {t.chat.send}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default FollowUpChat;
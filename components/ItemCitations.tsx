@@ -0,0 +1,40 @@
+import React from 'react';
+import type { Language, NewsItem } from '../types';
+import { MESSAGES } from '../i18n';
+
+// Inline numbered references for a single news item. Numbers match the
+// position of the source in the result's related links list.
+const ItemCitations: React.FC<{ item: NewsItem; language: Language }> = ({ item, language }) => {
+    const t = MESSAGES[language];
+
+    // Items parsed from summaries saved before citations existed carry no
+    // citation data at all, so they are neither verified nor unverified.
+    if (!item.citations) return null;
+
+    if (item.citations.length === 0) {
+        return (
+            <span title={t.citations.unverifiedTitle} className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-500/20 text-amber-700 dark:text-amber-300 whitespace-nowrap">
+                {t.citations.unverified}
+            </span>
+        );
+    }
+
+    return (
+        <span className="ml-1">
+            {item.citations.map(citation => (
+                <a
+                    key={citation.index}
+                    href={citation.uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={citation.title}
+                    className="align-super text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline mr-0.5"
+                >
+                    [{citation.index + 1}]
+                </a>
+            ))}
+        </span>
+    );
+};
+
+export default ItemCitations;
@@ -0,0 +1,178 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { getProvider } from '../services/provider';
+import { describeError } from '../services/geminiClient';
+import { coverageWarnings, findPerspective, groupSourcesByOutlet, perspectiveSourceIndices, withPerspective } from '../utils/perspectives';
+import type { CoverageWarning, OutletSources } from '../utils/perspectives';
+import { getResultItems } from '../utils/newsItems';
+import type { Language, PerspectiveAnalysis, Result } from '../types';
+import { MESSAGES, entryLabel, formatDate } from '../i18n';
+import type { Messages } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import SpinnerIcon from './icons/SpinnerIcon';
+import StopIcon from './icons/StopIcon';
+
+function describeWarning(t: Messages, warning: CoverageWarning, groups: OutletSources[]): string {
+    switch (warning) {
+        case 'noSources':
+            return t.perspectives.warnings.noSources();
+        case 'singleOutlet':
+            return t.perspectives.warnings.singleOutlet(groups[0].outlet);
+        case 'singleCountry':
+            return t.perspectives.warnings.singleCountry(entryLabel(t, groups[0].country ?? ''));
+    }
+}
+
+// The "Bakış Açıları" panel under a result card: the sources grouped by
+// outlet, how each outlet framed the story and where they disagree, for the
+// whole briefing or one of its items. Analyses are saved with the result
+// through onChange; the coverage warnings need no request and show at once.
+const PerspectivesPanel: React.FC<{
+    result: Result;
+    itemId?: string;
+    onItemChange: (itemId?: string) => void;
+    onChange: (perspectives: PerspectiveAnalysis[]) => void;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ result, itemId, onItemChange, onChange, theme, language }) => {
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const citedItems = getResultItems(result).filter(item => item.citations && item.citations.length > 0);
+    const item = citedItems.find(candidate => candidate.id === itemId);
+    const groups = groupSourcesByOutlet(result.groundingChunks, perspectiveSourceIndices(result, item));
+    const warnings = coverageWarnings(groups);
+    const analysis = findPerspective(result, item?.id);
+    const sourceCount = groups.reduce((sum, group) => sum + group.sourceIndices.length, 0);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Switching scope abandons an analysis still running for the old one.
+    useEffect(() => {
+        abortRef.current?.abort();
+        setError(null);
+    }, [itemId]);
+
+    const handleAnalyze = async () => {
+        setError(null);
+        setIsAnalyzing(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        try {
+            const next = await getProvider().analyzePerspectives(result, item, { signal: controller.signal });
+            onChange(withPerspective(result.perspectives, next));
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setError(describeError(err, t.perspectives.failed, language));
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setIsAnalyzing(false);
+        }
+    };
+
+    return (
+        <div className={`mt-4 border-t ${styles.cardBorder} pt-3 space-y-3 text-sm`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className={`font-semibold ${styles.subText}`}>{t.perspectives.title}</h4>
+                <label className={`flex items-center gap-2 ${styles.subText}`}>
+                    {t.perspectives.scope}
+                    <select
+                        value={item?.id ?? ''}
+                        onChange={e => onItemChange(e.target.value || undefined)}
+                        className={`max-w-xs px-2 py-1 rounded-lg ${styles.inputBg} ${styles.text}`}
+                    >
+                        <option value="">{t.perspectives.wholeBriefing}</option>
+                        {citedItems.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.headline || candidate.body}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            {warnings.map(warning => (
+                <p key={warning} role="alert" className="px-3 py-2 rounded-lg bg-amber-500/15 text-amber-800 dark:text-amber-200">
+                    {describeWarning(t, warning, groups)}
+                </p>
+            ))}
+
+            {groups.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3">
+                    <button
+                        onClick={handleAnalyze}
+                        disabled={isAnalyzing}
+                        className="px-4 py-2 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {analysis ? t.perspectives.reanalyze : t.perspectives.analyze}
+                    </button>
+                    <span className={styles.subText}>{t.perspectives.outletCount(groups.length, sourceCount)}</span>
+                    {analysis && <span className={`text-xs ${styles.subText}`}>{t.perspectives.analyzedAt(formatDate(analysis.createdAt, language, { dateStyle: 'medium', timeStyle: 'short' }))}</span>}
+                </div>
+            )}
+
+            {isAnalyzing && (
+                <p className={`flex items-center ${styles.subText}`}>
+                    <SpinnerIcon className="w-4 h-4 mr-2" />
+                    {t.perspectives.analyzing}
+                    <button onClick={() => abortRef.current?.abort()} title={t.perspectives.stop} className={`ml-2 p-1 rounded ${styles.hoverBg}`}>
+                        <StopIcon className="w-4 h-4" />
+                    </button>
+                </p>
+            )}
+            {error && <p className="text-red-500 dark:text-red-400">{error}</p>}
+
+            {groups.length > 0 && (
+                <ul className="space-y-2">
+                    {groups.map(group => {
+                        const framing = analysis?.outlets.find(outlet => outlet.outlet === group.outlet)?.framing;
+                        return (
+                            <li key={group.outlet} className={`rounded-lg px-3 py-2 ${styles.inputBg} ${styles.text}`}>
+                                <p className="font-semibold">
+                                    {group.outlet}
+                                    {group.country && <span className={`ml-2 text-xs font-normal ${styles.subText}`}>{entryLabel(t, group.country)}</span>}
+                                </p>
+                                {analysis && <p className="mt-1">{framing || <span className={styles.subText}>{t.perspectives.noFraming}</span>}</p>}
+                                <ol className="mt-1 space-y-0.5 text-xs">
+                                    {group.sourceIndices.map(index => result.groundingChunks[index].web && (
+                                        <li key={index}>
+                                            <span className={`mr-1 ${styles.subText}`}>[{index + 1}]</span>
+                                            <a href={result.groundingChunks[index].web!.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                                                {result.groundingChunks[index].web!.title}
+                                            </a>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {analysis && groups.length > 1 && (
+                <div>
+                    <h5 className={`font-semibold mb-1 ${styles.subText}`}>{t.perspectives.disagreements}</h5>
+                    {analysis.disagreements.length === 0 ? (
+                        <p className={styles.subText}>{t.perspectives.noDisagreements}</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {analysis.disagreements.map((disagreement, index) => (
+                                <li key={index} className={`rounded-lg px-3 py-2 border border-amber-500/40 ${styles.text}`}>
+                                    <p className="font-semibold">{disagreement.claim}</p>
+                                    <ul className="mt-1 space-y-0.5">
+                                        {disagreement.positions.map(position => (
+                                            <li key={position.outlet}>
+                                                <span className="font-semibold">{position.outlet}:</span> {position.position}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PerspectivesPanel;
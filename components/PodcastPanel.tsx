@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { getProvider } from '../services/provider';
+import { TTS_VOICES, PODCAST_HOSTS } from '../services/voices';
+import { describeError } from '../services/geminiClient';
+import { decode, pcmToWav } from '../utils/audio';
+import type { Language, PodcastLine, Result } from '../types';
+import { MESSAGES, formatDate } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import SpinnerIcon from './icons/SpinnerIcon';
+import DownloadIcon from './icons/DownloadIcon';
+
+type PodcastStatus = 'idle' | 'writing' | 'recording';
+
+const MAX_PODCAST_RESULTS = 5;
+
+// Turns a handful of briefings into a two-host dialogue and renders it with
+// multi-speaker TTS.
+const PodcastPanel: React.FC<{
+    results: Result[];
+    theme: BackgroundTheme;
+    language: Language;
+    // The language the script is written and read in.
+    outputLanguage: Language;
+}> = ({ results, theme, language, outputLanguage }) => {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [hostVoices, setHostVoices] = useState<[string, string]>(['Charon', 'Kore']);
+    const [status, setStatus] = useState<PodcastStatus>('idle');
+    const [script, setScript] = useState<PodcastLine[] | null>(null);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    useEffect(() => () => {
+        if (audioUrl) URL.revokeObjectURL(audioUrl);
+    }, [audioUrl]);
+
+    const recentResults = results.slice(0, 10);
+
+    const toggleResult = (id: string) => {
+        setSelectedIds(prev => {
+            if (prev.includes(id)) return prev.filter(selectedId => selectedId !== id);
+            if (prev.length >= MAX_PODCAST_RESULTS) return prev;
+            return [...prev, id];
+        });
+    };
+
+    const setHostVoice = (index: 0 | 1, voice: string) => {
+        setHostVoices(prev => index === 0 ? [voice, prev[1]] : [prev[0], voice]);
+    };
+
+    const handleCreate = async () => {
+        const selected = results.filter(result => selectedIds.includes(result.id));
+        if (selected.length === 0) return;
+        setError(null);
+        setScript(null);
+        setAudioUrl(null);
+        try {
+            setStatus('writing');
+            const lines = await getProvider().generatePodcastScript(selected, outputLanguage);
+            setScript(lines);
+            setStatus('recording');
+            const pcm = decode(await getProvider().generateDialogueSpeech(lines, hostVoices, outputLanguage));
+            setAudioUrl(URL.createObjectURL(pcmToWav(pcm, 24000, 1)));
+        } catch (err) {
+            console.error(err);
+            setError(describeError(err, t.podcast.failed, language));
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    if (recentResults.length === 0) return null;
+
+    return (
+        <div className={`${styles.cardBg} rounded-2xl shadow-lg p-6 backdrop-blur-sm border ${styles.cardBorder} mt-8`}>
+            <h3 className={`text-lg font-medium ${styles.text} mb-1`}>{t.podcast.title}</h3>
+            <p className={`${styles.subText} mb-3 text-sm`}>{t.podcast.description(MAX_PODCAST_RESULTS)}</p>
+            <div className="space-y-1 mb-4 max-h-48 overflow-y-auto">
+                {recentResults.map(result => (
+                    <label key={result.id} className={`flex items-center gap-2 text-sm ${styles.text}`}>
+                        <input type="checkbox" checked={selectedIds.includes(result.id)} onChange={() => toggleResult(result.id)} />
+                        <span className="font-semibold">{result.source}</span>
+                        <span className={`text-xs ${styles.subText}`}>{formatDate(result.timestamp, language, { dateStyle: 'short', timeStyle: 'short' })}</span>
+                    </label>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                {PODCAST_HOSTS.map((host, index) => (
+                    <label key={host} className={`flex items-center gap-2 text-sm ${styles.subText}`}>
+                        {host}:
+                        <select
+                            value={hostVoices[index]}
+                            onChange={e => setHostVoice(index as 0 | 1, e.target.value)}
+                            className={`px-2 py-1 rounded-lg ${styles.inputBg} ${styles.text}`}
+                        >
+                            {TTS_VOICES.map(voice => (
+                                <option key={voice.name} value={voice.name}>{voice.name} · {voice.description}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+            <button
+                onClick={handleCreate}
+                disabled={status !== 'idle' || selectedIds.length === 0}
+                className="w-full flex items-center justify-center bg-orange-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-orange-700 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+                {status !== 'idle' && <SpinnerIcon className="w-5 h-5 mr-2" />}
+                {status === 'writing' ? t.podcast.writing : (status === 'recording' ? t.podcast.recording : t.podcast.create)}
+            </button>
+            {error && <p className="text-red-500 dark:text-red-400 mt-3 text-sm">{error}</p>}
+
+            {audioUrl && (
+                <div className="flex items-center gap-3 mt-4">
+                    <audio controls src={audioUrl} className="flex-1" />
+                    <a href={audioUrl} download={`${t.podcast.fileName} ${new Date().toISOString().slice(0, 10)}.wav`} title={t.podcast.download} className={`p-2 rounded-lg ${styles.inputBg} ${styles.hoverBg}`}>
+                        <DownloadIcon className="w-5 h-5" />
+                    </a>
+                </div>
+            )}
+            {script && (
+                <details className="mt-4 text-sm">
+                    <summary className={`cursor-pointer ${styles.subText}`}>{t.podcast.showScript}</summary>
+                    <div className="mt-2 space-y-2">
+                        {script.map((line, index) => (
+                            <p key={index}><span className="font-semibold">{line.speaker}:</span> {line.text}</p>
+                        ))}
+                    </div>
+                </details>
+            )}
+        </div>
+    );
+};
+
+export default PodcastPanel;
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_KINDS, PROMPT_PLACEHOLDERS, buildPrompt, unknownPlaceholders } from '../utils/prompts';
+import type { PromptKind } from '../utils/prompts';
+import type { BriefingRequest, Language, PromptTemplates } from '../types';
+import { MESSAGES } from '../i18n';
+import type { Messages } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+
+const SAMPLE_SITES = [{ id: 'sample', domain: 'bbc.com', name: 'BBC', language: 'İngilizce' }];
+
+// A request of the given kind filled with example values, for the preview.
+function sampleRequest(kind: PromptKind, countries: string[], categories: string[], discoverCategories: string[], t: Messages): BriefingRequest {
+    switch (kind) {
+        case 'news':
+            return { kind, country: countries[0] ?? 'Türkiye', category: categories[0] ?? 'Gündem' };
+        case 'discover':
+            return { kind, topic: discoverCategories[0] ?? 'Felsefe' };
+        case 'topic':
+            return { kind, topic: t.prompts.sampleTopic };
+        case 'sites':
+            return { kind, sites: SAMPLE_SITES, category: categories[0] };
+        case 'question':
+            return { kind, question: t.prompts.sampleQuestion };
+    }
+}
+
+// Lets analysts tune the wording of each briefing kind. Placeholders are
+// inserted at the cursor and the preview shows the prompt as it will be sent.
+const PromptTemplateEditor: React.FC<{
+    templates: PromptTemplates;
+    onChange: (templates: PromptTemplates) => void;
+    countries: string[];
+    categories: string[];
+    discoverCategories: string[];
+    theme: BackgroundTheme;
+    language: Language;
+    outputLanguage: Language;
+}> = ({ templates, onChange, countries, categories, discoverCategories, theme, language, outputLanguage }) => {
+    const [kind, setKind] = useState<PromptKind>('news');
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const template = templates[kind];
+    const unknown = unknownPlaceholders(template, kind);
+    const isDefault = template === DEFAULT_PROMPT_TEMPLATES[kind];
+
+    const update = (value: string) => onChange({ ...templates, [kind]: value });
+
+    const insertPlaceholder = (name: string) => {
+        const textarea = textareaRef.current;
+        const token = `{${name}}`;
+        if (!textarea) {
+            update(`${template}${token}`);
+            return;
+        }
+        const { selectionStart, selectionEnd } = textarea;
+        update(`${template.slice(0, selectionStart)}${token}${template.slice(selectionEnd)}`);
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+        });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className={`font-semibold ${styles.text}`}>{t.prompts.title}</h4>
+                <select value={kind} onChange={e => setKind(e.target.value as PromptKind)} className={`px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text}`}>
+                    {PROMPT_KINDS.map(option => <option key={option} value={option}>{t.prompts.kinds[option]}</option>)}
+                </select>
+            </div>
+            <textarea
+                ref={textareaRef}
+                value={template}
+                onChange={e => update(e.target.value)}
+                rows={5}
+                aria-label={t.prompts.templateLabel(t.prompts.kinds[kind])}
+                className={`w-full px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-blue-500`}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                {PROMPT_PLACEHOLDERS[kind].map(name => (
+                    <button
+                        key={name}
+                        onClick={() => insertPlaceholder(name)}
+                        title={t.prompts.placeholders[name]}
+                        className={`px-2 py-0.5 rounded-full font-mono ${styles.inputBg} ${styles.hoverBg}`}
+                    >
+                        {`{${name}}`}
+                    </button>
+                ))}
+                {!isDefault && (
+                    <button onClick={() => update(DEFAULT_PROMPT_TEMPLATES[kind])} className="ml-auto font-semibold hover:underline">
+                        {t.prompts.resetTemplate}
+                    </button>
+                )}
+            </div>
+            {unknown.length > 0 && (
+                <p className="text-amber-700 dark:text-amber-300 text-xs">
+                    {t.prompts.unknownPlaceholders(unknown.map(name => `{${name}}`).join(', '))}
+                </p>
+            )}
+            {!template.trim() && <p className="text-amber-700 dark:text-amber-300 text-xs">{t.prompts.emptyTemplate}</p>}
+            <div className={`p-3 rounded-lg border ${styles.cardBorder} text-xs`}>
+                <p className="font-semibold mb-1">{t.prompts.preview}</p>
+                <p className={`${styles.text} whitespace-pre-wrap`}>{buildPrompt(sampleRequest(kind, countries, categories, discoverCategories, t), templates, outputLanguage)}</p>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplateEditor;
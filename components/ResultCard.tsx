@@ -0,0 +1,496 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useBriefingPlayer, PLAYBACK_SPEEDS } from '../hooks/useBriefingPlayer';
+import type { PlayerError } from '../hooks/useBriefingPlayer';
+import { getProvider } from '../services/provider';
+import { describeError } from '../services/geminiClient';
+import { deleteCachedAudio } from '../services/audioCache';
+import { createShareLink } from '../services/shareLinks';
+import { pcmToWav } from '../utils/audio';
+import { downloadBlob } from '../utils/download';
+import { getResultItems, itemText } from '../utils/newsItems';
+import { countChanges } from '../utils/briefingDiff';
+import { findDeepDive, withDeepDive } from '../utils/deepDives';
+import { routeUrl } from '../utils/routes';
+import type { ItemChange, ResultDiff } from '../utils/briefingDiff';
+import type { Result, NewsItem, ChatMessage, DeepDive, Language, PerspectiveAnalysis } from '../types';
+import { MESSAGES } from '../i18n';
+import type { Messages } from '../i18n';
+import { themeStyles, fontSizeClassMap } from '../theme';
+import type { BackgroundTheme, FontSize } from '../theme';
+import ItemCitations from './ItemCitations';
+import FollowUpChat from './FollowUpChat';
+import PerspectivesPanel from './PerspectivesPanel';
+import DeepDiveReader from './DeepDiveReader';
+import SpinnerIcon from './icons/SpinnerIcon';
+import StarIcon from './icons/StarIcon';
+import TrashIcon from './icons/TrashIcon';
+import PlayIcon from './icons/PlayIcon';
+import PauseIcon from './icons/PauseIcon';
+import StopIcon from './icons/StopIcon';
+import ForwardIcon from './icons/ForwardIcon';
+import BackwardIcon from './icons/BackwardIcon';
+import DownloadIcon from './icons/DownloadIcon';
+
+function formatTime(seconds: number): string {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+const changeBadges: Record<ItemChange, { label: (t: Messages) => string; className: string }> = {
+    new: { label: t => t.result.changeNew, className: 'bg-green-600/20 text-green-700 dark:text-green-300' },
+    updated: { label: t => t.result.changeUpdated, className: 'bg-amber-500/20 text-amber-700 dark:text-amber-300' },
+    covered: { label: t => t.result.changeCovered, className: 'bg-gray-500/20' },
+};
+
+function describePlayerError(error: PlayerError, language: Language): string {
+    const t = MESSAGES[language];
+    return error.kind === 'synthesis' ? describeError(error.cause, t.player.synthesisFailed, language) : t.player.playbackFailed;
+}
+
+// A single result card component
+const ResultCard: React.FC<{
+    result: Result;
+    onAddFavorite: (result: Result, item: NewsItem) => void;
+    onDelete: (id: string) => void;
+    onMarkRead: (id: string) => void;
+    isFavorited: (resultId: string, item: NewsItem) => boolean;
+    voice: string;
+    diff?: ResultDiff;
+    collapseRepeated: boolean;
+    fontSize: FontSize;
+    theme: BackgroundTheme;
+    language: Language;
+    // Set while the result is still streaming in; the card is then
+    // read-only and offers to cancel the request instead of deleting.
+    onCancel?: () => void;
+    onUpdateConversation?: (id: string, conversation: ChatMessage[]) => void;
+    onUpdatePerspectives?: (id: string, perspectives: PerspectiveAnalysis[]) => void;
+    onUpdateDeepDives?: (id: string, deepDives: DeepDive[]) => void;
+    // Whether some of the briefing's audio is stored for offline listening.
+    hasOfflineAudio?: boolean;
+    onAudioSaved?: (id: string) => void;
+}> = ({ result, onAddFavorite, onDelete, onMarkRead, isFavorited, voice, diff, collapseRepeated, fontSize, theme, language, onCancel, onUpdateConversation, onUpdatePerspectives, onUpdateDeepDives, hasOfflineAudio, onAudioSaved }) => {
+    const [audioError, setAudioError] = useState<string | null>(null);
+    const [showRepeated, setShowRepeated] = useState(false);
+    const [isDownloading, setIsDownloading] = useState(false);
+    const [isSavingOffline, setIsSavingOffline] = useState(false);
+    const [isSharing, setIsSharing] = useState(false);
+    const [linkStatus, setLinkStatus] = useState<'linkCopied' | 'shareCopied' | 'failed' | null>(null);
+    const [isChatOpen, setIsChatOpen] = useState((result.conversation?.length ?? 0) > 0);
+    const [isPerspectivesOpen, setIsPerspectivesOpen] = useState(false);
+    const [perspectiveItemId, setPerspectiveItemId] = useState<string | undefined>();
+    const [readingIndex, setReadingIndex] = useState<number | null>(null);
+    const [openDeepDiveIndex, setOpenDeepDiveIndex] = useState<number | null>(null);
+    const [deepDiveError, setDeepDiveError] = useState<string | null>(null);
+    const readAbortRef = useRef<AbortController | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const newsItems = getResultItems(result);
+    const player = useBriefingPlayer(result.id, newsItems.map(itemText), voice, result.language);
+    const isPlayerOpen = player.status !== 'idle';
+    const isStreaming = onCancel !== undefined;
+    const changeCounts = diff ? countChanges(diff) : null;
+    const isHidden = (item: NewsItem) => collapseRepeated && !showRepeated && diff?.changes[item.id] === 'covered';
+
+    const handleDownload = async () => {
+        if (newsItems.length === 0) return;
+        setIsDownloading(true);
+        setAudioError(null);
+        try {
+            const wav = pcmToWav(await player.getFullPcm(), 24000, 1);
+            downloadBlob(wav, `${result.source} ${new Date(result.timestamp).toISOString().slice(0, 10)}.wav`);
+        } catch (error) {
+            console.error(error);
+            setAudioError(t.result.downloadFailed);
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    useEffect(() => () => readAbortRef.current?.abort(), []);
+
+    const openDeepDive = openDeepDiveIndex !== null ? findDeepDive(result, openDeepDiveIndex) : undefined;
+
+    // Saved readings open straight away; `reread` replaces one with a fresh
+    // reading of the same link.
+    const handleDeepDive = async (chunkIndex: number, reread = false) => {
+        const existing = findDeepDive(result, chunkIndex);
+        if (existing && !reread) {
+            setOpenDeepDiveIndex(chunkIndex);
+            return;
+        }
+        if (!onUpdateDeepDives) return;
+        readAbortRef.current?.abort();
+        const controller = new AbortController();
+        readAbortRef.current = controller;
+        setReadingIndex(chunkIndex);
+        setDeepDiveError(null);
+        try {
+            const deepDive = await getProvider().readArticle(result, chunkIndex, { signal: controller.signal });
+            if (existing) deleteCachedAudio(existing.id);
+            onUpdateDeepDives(result.id, withDeepDive(result.deepDives, deepDive));
+            setOpenDeepDiveIndex(chunkIndex);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setDeepDiveError(describeError(err, t.result.deepDiveFailed, language));
+        } finally {
+            if (readAbortRef.current === controller) {
+                readAbortRef.current = null;
+                setReadingIndex(null);
+            }
+        }
+    };
+
+    const openItemPerspectives = (itemId: string) => {
+        setPerspectiveItemId(itemId);
+        setIsPerspectivesOpen(true);
+    };
+
+    // Synthesizing every part fills the audio cache, which is what playback
+    // reads from when there is no connection.
+    const handleSaveOffline = async () => {
+        if (newsItems.length === 0) return;
+        setIsSavingOffline(true);
+        setAudioError(null);
+        try {
+            await player.getFullPcm();
+            onAudioSaved?.(result.id);
+        } catch (error) {
+            console.error(error);
+            setAudioError(t.result.saveOfflineFailed);
+        } finally {
+            setIsSavingOffline(false);
+        }
+    };
+
+    const showLinkStatus = (status: 'linkCopied' | 'shareCopied' | 'failed') => {
+        setLinkStatus(status);
+        window.setTimeout(() => setLinkStatus(null), 3000);
+    };
+
+    // The permalink only opens on a device that has this briefing; the
+    // share link carries a copy of it.
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(routeUrl({ view: 'feed', resultId: result.id, favoriteId: null }, window.location.href));
+            showLinkStatus('linkCopied');
+        } catch (error) {
+            console.error(error);
+            showLinkStatus('failed');
+        }
+    };
+
+    const handleShare = async () => {
+        setIsSharing(true);
+        try {
+            const url = await createShareLink(result, window.location.href);
+            if (navigator.share) {
+                await navigator.share({ title: result.source, url });
+            } else {
+                await navigator.clipboard.writeText(url);
+                showLinkStatus('shareCopied');
+            }
+        } catch (error) {
+            // Closing the system share sheet is not a failure.
+            if (!(error instanceof DOMException && error.name === 'AbortError')) {
+                console.error(error);
+                showLinkStatus('failed');
+            }
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        player.seek((e.clientX - rect.left) / rect.width);
+    };
+
+    return (
+        <div
+            id={`result-${result.id}`}
+            onClick={() => { if (result.unread) onMarkRead(result.id); }}
+            className={`${styles.cardBg} rounded-xl shadow-lg p-5 backdrop-blur-sm border ${result.unread ? 'border-blue-500' : styles.cardBorder} transition-all`}
+        >
+            <div className="flex justify-between items-start mb-3">
+                <p className={`text-sm ${styles.subText}`}>
+                    {result.unread && <span className="mr-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-600 text-white">{t.result.unread}</span>}
+                    {t.result.source} <span className={`font-semibold ${styles.text}`}>{result.source}</span>
+                    {hasOfflineAudio && <span title={t.result.offlineAudioTitle} className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-teal-600/20 text-teal-700 dark:text-teal-300">{t.result.offlineAudio}</span>}
+                </p>
+                {isStreaming ? (
+                    <button onClick={onCancel} className={`flex items-center px-3 py-1 text-sm font-semibold rounded-lg ${styles.inputBg} ${styles.hoverBg} hover:text-red-500 transition-colors`}>
+                        <StopIcon className="w-4 h-4 mr-1" />
+                        {t.result.cancel}
+                    </button>
+                ) : (
+                    <button onClick={() => onDelete(result.id)} title={t.result.delete} className={`${styles.subText} hover:text-red-500 transition-colors`}>
+                        <TrashIcon className="w-6 h-6" />
+                    </button>
+                )}
+            </div>
+            
+            <div className={`space-y-3 prose ${styles.prose} max-w-none ${styles.text} whitespace-pre-wrap mb-4 ${fontSizeClassMap[fontSize]}`}>
+                {changeCounts && (
+                    <p className={`text-xs ${styles.subText}`}>
+                        {t.result.changeSummary(changeCounts.new, changeCounts.updated, changeCounts.covered)}
+                    </p>
+                )}
+                {newsItems.map((item, index) => !isHidden(item) && (
+                    <div
+                        key={item.id}
+                        onDoubleClick={() => { if (!isStreaming) player.playItem(index); }}
+                        title={t.result.playFromHere}
+                        className={`flex items-start gap-3 rounded-lg transition-colors ${player.currentIndex === index ? 'bg-teal-500/15 ring-1 ring-teal-500/50 -mx-2 px-2 py-1' : ''}`}
+                    >
+                        {!isStreaming && (
+                            <button onClick={() => onAddFavorite(result, item)} title={t.result.addFavorite} className={`${styles.subText} hover:text-yellow-400 transition-colors pt-1`}>
+                                <StarIcon filled={isFavorited(result.id, item)} className="w-5 h-5" />
+                            </button>
+                        )}
+                        <div className="flex-1">
+                            {item.headline && <p className="font-semibold">{item.headline}</p>}
+                            <p>{item.body}<ItemCitations item={item} language={language} /></p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {item.category && <span className={`text-xs ${styles.subText}`}>{item.category}</span>}
+                                {!isStreaming && onUpdatePerspectives && item.citations && item.citations.length > 0 && (
+                                    <button onClick={() => openItemPerspectives(item.id)} className={`text-xs ${styles.subText} hover:underline`}>
+                                        {t.result.itemPerspectives}
+                                    </button>
+                                )}
+                                {diff?.changes[item.id] && (
+                                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${changeBadges[diff.changes[item.id]].className}`}>
+                                        {changeBadges[diff.changes[item.id]].label(t)}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+                {isStreaming && (
+                    <p className={`flex items-center text-sm ${styles.subText}`}>
+                        <SpinnerIcon className="w-4 h-4 mr-2" />
+                        {newsItems.length === 0 ? t.result.searchingSources : t.result.writing}
+                    </p>
+                )}
+                {collapseRepeated && changeCounts && changeCounts.covered > 0 && (
+                    <button onClick={() => setShowRepeated(prev => !prev)} className={`text-sm ${styles.subText} hover:underline`}>
+                        {showRepeated ? t.result.hideRepeated : t.result.showRepeated(changeCounts.covered)}
+                    </button>
+                )}
+            </div>
+
+            {!isStreaming && (
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                     <button 
+                        onClick={player.toggle}
+                        className="flex items-center justify-center px-4 py-2 w-48 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-teal-500 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {player.status === 'loading' ? <SpinnerIcon className="w-4 h-4 mr-2" /> : (player.status === 'playing' ? <PauseIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />)}
+                        {player.status === 'loading' ? t.result.generating : (player.status === 'playing' ? t.result.pause : (player.status === 'paused' ? t.result.resume : t.result.listen))}
+                    </button>
+                    <button
+                        onClick={handleDownload}
+                        disabled={isDownloading}
+                        title={t.result.downloadTitle}
+                        className={`flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg ${styles.inputBg} ${styles.text} ${styles.hoverBg} disabled:opacity-50 disabled:cursor-not-allowed transition-colors`}
+                    >
+                        {isDownloading ? <SpinnerIcon className="w-4 h-4 mr-2" /> : <DownloadIcon className="w-5 h-5 mr-2" />}
+                        {t.result.download}
+                    </button>
+                    {onAudioSaved && (
+                        <button
+                            onClick={handleSaveOffline}
+                            disabled={isSavingOffline}
+                            title={t.result.saveOfflineTitle}
+                            className={`flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg ${styles.inputBg} ${styles.text} ${styles.hoverBg} disabled:opacity-50 disabled:cursor-not-allowed transition-colors`}
+                        >
+                            {isSavingOffline && <SpinnerIcon className="w-4 h-4 mr-2" />}
+                            {isSavingOffline ? t.result.savingOffline : t.result.saveOffline}
+                        </button>
+                    )}
+                    {onUpdateConversation && (
+                        <button
+                            onClick={() => setIsChatOpen(prev => !prev)}
+                            aria-expanded={isChatOpen}
+                            title={t.result.askTitle}
+                            className={`flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg ${isChatOpen ? 'bg-teal-600 text-white' : `${styles.inputBg} ${styles.text} ${styles.hoverBg}`} transition-colors`}
+                        >
+                            {t.result.ask}{result.conversation && result.conversation.length > 0 && ` (${result.conversation.length})`}
+                        </button>
+                    )}
+                    {onUpdatePerspectives && result.groundingChunks.length > 0 && (
+                        <button
+                            onClick={() => setIsPerspectivesOpen(prev => !prev)}
+                            aria-expanded={isPerspectivesOpen}
+                            title={t.result.perspectivesTitle}
+                            className={`flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg ${isPerspectivesOpen ? 'bg-teal-600 text-white' : `${styles.inputBg} ${styles.text} ${styles.hoverBg}`} transition-colors`}
+                        >
+                            {t.result.perspectives}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleCopyLink}
+                        title={t.result.copyLinkTitle}
+                        className={`flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg ${styles.inputBg} ${styles.text} ${styles.hoverBg} transition-colors`}
+                    >
+                        {t.result.copyLink}
+                    </button>
+                    <button
+                        onClick={handleShare}
+                        disabled={isSharing}
+                        title={t.result.shareTitle}
+                        className={`flex items-center justify-center px-4 py-2 text-sm font-medium rounded-lg ${styles.inputBg} ${styles.text} ${styles.hoverBg} disabled:opacity-50 disabled:cursor-not-allowed transition-colors`}
+                    >
+                        {isSharing && <SpinnerIcon className="w-4 h-4 mr-2" />}
+                        {t.result.share}
+                    </button>
+                </div>
+            )}
+            {linkStatus && (
+                <p role="status" className={`mt-2 text-sm ${linkStatus === 'failed' ? 'text-red-500 dark:text-red-400' : styles.subText}`}>
+                    {linkStatus === 'linkCopied' ? t.result.linkCopied : linkStatus === 'shareCopied' ? t.result.shareCopied : t.result.copyLinkFailed}
+                </p>
+            )}
+            
+            {isPlayerOpen && (
+                <div className={`mt-3 p-3 rounded-lg ${styles.inputBg} space-y-2`}>
+                    <div
+                        role="slider"
+                        aria-label={t.result.progress}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={Math.round(player.progress * 100)}
+                        tabIndex={0}
+                        onClick={handleSeek}
+                        onKeyDown={e => {
+                            if (e.key === 'ArrowRight') player.next();
+                            if (e.key === 'ArrowLeft') player.previous();
+                        }}
+                        className={`relative h-2 rounded-full cursor-pointer border ${styles.cardBorder} overflow-hidden`}
+                    >
+                        <div className="absolute inset-y-0 left-0 bg-teal-500" style={{ width: `${player.progress * 100}%` }} />
+                        {newsItems.slice(1).map((item, index) => (
+                            <div key={item.id} className={`absolute inset-y-0 w-px ${styles.bg}`} style={{ left: `${((index + 1) / newsItems.length) * 100}%` }} />
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div className="flex items-center gap-1">
+                            <button onClick={player.previous} title={t.result.previous} className={`p-1 rounded ${styles.hoverBg}`}>
+                                <BackwardIcon className="w-5 h-5" />
+                            </button>
+                            <button onClick={player.toggle} title={player.status === 'playing' ? t.result.pause : t.result.play} className={`p-1 rounded ${styles.hoverBg}`}>
+                                {player.status === 'playing' ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                            </button>
+                            <button onClick={player.next} title={t.result.next} className={`p-1 rounded ${styles.hoverBg}`}>
+                                <ForwardIcon className="w-5 h-5" />
+                            </button>
+                            <button onClick={player.stop} title={t.result.stop} className={`p-1 rounded ${styles.hoverBg}`}>
+                                <StopIcon className="w-5 h-5" />
+                            </button>
+                            <span className={`ml-2 ${styles.subText}`}>
+                                {t.result.itemPosition((player.currentIndex ?? 0) + 1, newsItems.length)} · {formatTime(player.position)}{player.duration > 0 && ` / ${formatTime(player.duration)}`}
+                            </span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            {PLAYBACK_SPEEDS.map(speed => (
+                                <button
+                                    key={speed}
+                                    onClick={() => player.setSpeed(speed)}
+                                    className={`px-2 py-0.5 rounded-full text-xs font-semibold ${player.speed === speed ? 'bg-teal-600 text-white' : `${styles.subText} ${styles.hoverBg}`}`}
+                                >
+                                    {speed}x
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {(audioError || player.error) && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{audioError || (player.error && describePlayerError(player.error, language))}</p>}
+
+            {isChatOpen && !isStreaming && onUpdateConversation && (
+                <FollowUpChat result={result} onChange={conversation => onUpdateConversation(result.id, conversation)} theme={theme} language={language} />
+            )}
+
+            {isPerspectivesOpen && !isStreaming && onUpdatePerspectives && (
+                <PerspectivesPanel
+                    result={result}
+                    itemId={perspectiveItemId}
+                    onItemChange={setPerspectiveItemId}
+                    onChange={perspectives => onUpdatePerspectives(result.id, perspectives)}
+                    theme={theme}
+                    language={language}
+                />
+            )}
+
+            {result.requestedSites && result.requestedSites.length > 0 && (
+                <div className={`mt-4 border-t ${styles.cardBorder} pt-3`}>
+                    <h4 className={`text-sm font-semibold mb-2 ${styles.subText}`}>{t.result.requestedSites}</h4>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                        {result.requestedSites.map(domain => {
+                            const found = result.matchedSites?.includes(domain);
+                            return (
+                                <span
+                                    key={domain}
+                                    title={found ? t.result.siteUsed : t.result.siteMissing}
+                                    className={`px-2 py-1 rounded-full font-semibold ${found ? 'bg-teal-600/20 text-teal-700 dark:text-teal-300' : 'bg-red-500/20 text-red-600 dark:text-red-400 line-through'}`}
+                                >
+                                    {domain}
+                                </span>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+            
+            {result.groundingChunks.length > 0 && (
+                <div className={`mt-4 border-t ${styles.cardBorder} pt-3`}>
+                    <h4 className={`text-sm font-semibold mb-2 ${styles.subText}`}>
+                        {t.result.relatedLinks}
+                        {result.deepDives && result.deepDives.length > 0 && <span className="ml-2 font-normal">· {t.result.deepDiveCount(result.deepDives.length)}</span>}
+                    </h4>
+                    <ul className="space-y-1 text-sm">
+                        {result.groundingChunks.map((chunk, index) => chunk.web && (
+                            <li key={index} className="flex flex-wrap items-baseline gap-x-2">
+                                <span className={styles.subText}>[{index + 1}]</span>
+                                <a href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:underline">
+                                    {chunk.web.title}
+                                </a>
+                                {!isStreaming && (findDeepDive(result, index) || onUpdateDeepDives) && (
+                                    <button
+                                        onClick={() => handleDeepDive(index)}
+                                        disabled={readingIndex !== null}
+                                        title={t.result.deepDiveTitle}
+                                        className={`flex items-center text-xs ${findDeepDive(result, index) ? 'text-teal-600 dark:text-teal-400 font-semibold' : styles.subText} hover:underline disabled:opacity-50`}
+                                    >
+                                        {readingIndex === index && <SpinnerIcon className="w-3 h-3 mr-1" />}
+                                        {readingIndex === index ? t.result.readingArticle : (findDeepDive(result, index) ? t.result.openDeepDive : t.result.deepDive)}
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    {deepDiveError && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{deepDiveError}</p>}
+                </div>
+            )}
+
+            {openDeepDive && (
+                <DeepDiveReader
+                    deepDive={openDeepDive}
+                    voice={voice}
+                    isRereading={readingIndex === openDeepDive.chunkIndex}
+                    onReread={() => handleDeepDive(openDeepDive.chunkIndex, true)}
+                    onClose={() => setOpenDeepDiveIndex(null)}
+                    fontSize={fontSize}
+                    theme={theme}
+                    language={language}
+                />
+            )}
+        </div>
+    );
+};
+
+
+export default ResultCard;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { EMPTY_FILTERS, hasActiveFilters } from '../utils/search';
+import type { SearchFilters as Filters } from '../utils/search';
+import type { Language } from '../types';
+import { MESSAGES, entryLabel } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+
+// Search box and facet selects shared by the feed and the favorites view.
+const SearchFilters: React.FC<{
+    filters: Filters;
+    onChange: (filters: Filters) => void;
+    countries: string[];
+    categories: string[];
+    discoverCategories: string[];
+    showAudioFilter: boolean;
+    matchCount: number;
+    totalCount: number;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ filters, onChange, countries, categories, discoverCategories, showAudioFilter, matchCount, totalCount, theme, language }) => {
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const selectClass = `px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text}`;
+    const update = (changes: Partial<Filters>) => onChange({ ...filters, ...changes });
+
+    return (
+        <div className={`${styles.cardBg} rounded-xl p-4 border ${styles.cardBorder} space-y-3`}>
+            <input
+                type="search"
+                value={filters.query}
+                onChange={e => update({ query: e.target.value })}
+                placeholder={t.search.placeholder}
+                className={`w-full px-3 py-2 text-sm rounded-lg ${styles.inputBg} ${styles.text} focus:outline-none focus:ring-2 focus:ring-blue-500`}
+            />
+            <div className={`flex flex-wrap items-center gap-2 text-sm ${styles.subText}`}>
+                <select value={filters.country ?? ''} onChange={e => update({ country: e.target.value || null })} className={selectClass}>
+                    <option value="">{t.search.allCountries}</option>
+                    {countries.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                </select>
+                <select value={filters.category ?? ''} onChange={e => update({ category: e.target.value || null })} className={selectClass}>
+                    <option value="">{t.search.allCategories}</option>
+                    {categories.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                </select>
+                <select value={filters.topic ?? ''} onChange={e => update({ topic: e.target.value || null })} className={selectClass}>
+                    <option value="">{t.search.allTopics}</option>
+                    {discoverCategories.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                </select>
+                <label className="flex items-center gap-1">
+                    <input type="date" value={filters.from ?? ''} max={filters.to ?? undefined} onChange={e => update({ from: e.target.value || null })} className={selectClass} />
+                    –
+                    <input type="date" value={filters.to ?? ''} min={filters.from ?? undefined} onChange={e => update({ to: e.target.value || null })} className={selectClass} />
+                </label>
+                {showAudioFilter && (
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={filters.hasAudio} onChange={e => update({ hasAudio: e.target.checked })} />
+                        {t.search.hasAudio}
+                    </label>
+                )}
+            </div>
+            {hasActiveFilters(filters) && (
+                <div className={`flex items-center justify-between text-xs ${styles.subText}`}>
+                    <span>{t.search.matchCount(matchCount, totalCount)}</span>
+                    <button onClick={() => onChange(EMPTY_FILTERS)} className="font-semibold hover:underline">{t.search.clear}</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchFilters;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { getResultItems } from '../utils/newsItems';
+import type { Language, Result } from '../types';
+import { MESSAGES, formatDate } from '../i18n';
+import { themeStyles, fontSizeClassMap } from '../theme';
+import type { BackgroundTheme, FontSize } from '../theme';
+import ItemCitations from './ItemCitations';
+
+// A briefing opened from someone else's share link. It is shown read-only
+// until the reader imports it into their own history.
+const SharedResultPreview: React.FC<{
+    result: Result;
+    isInHistory: boolean;
+    onImport: () => void;
+    onDismiss: () => void;
+    fontSize: FontSize;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ result, isInHistory, onImport, onDismiss, fontSize, theme, language }) => {
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    return (
+        <section className={`${styles.cardBg} rounded-xl shadow-lg p-5 mb-6 backdrop-blur-sm border-2 border-dashed border-blue-500 space-y-4`}>
+            <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-blue-600 dark:text-blue-400">{t.share.title}</p>
+                <p className={`text-sm ${styles.subText}`}>
+                    {t.result.source} <span className={`font-semibold ${styles.text}`}>{result.source}</span>
+                    {' · '}{formatDate(result.timestamp, language, { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+            </div>
+            <div className={`space-y-3 ${styles.text} ${fontSizeClassMap[fontSize]}`}>
+                {getResultItems(result).map(item => (
+                    <div key={item.id}>
+                        {item.headline && <p className="font-semibold">{item.headline}</p>}
+                        <p>{item.body}<ItemCitations item={item} language={language} /></p>
+                    </div>
+                ))}
+            </div>
+            {result.groundingChunks.some(chunk => chunk.web) && (
+                <ol className="space-y-1 text-sm">
+                    {result.groundingChunks.map((chunk, index) => chunk.web && (
+                        <li key={index}>
+                            <span className={`mr-2 ${styles.subText}`}>[{index + 1}]</span>
+                            <a href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{chunk.web.title}</a>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+                <button onClick={onImport} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors">
+                    {isInHistory ? t.share.openExisting : t.share.import}
+                </button>
+                <button onClick={onDismiss} className={`px-4 py-2 text-sm font-medium rounded-lg ${styles.inputBg} ${styles.text} ${styles.hoverBg} transition-colors`}>
+                    {t.share.dismiss}
+                </button>
+                <p className={`text-xs ${styles.subText}`}>{t.share.readOnly}</p>
+            </div>
+        </section>
+    );
+};
+
+export default SharedResultPreview;
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { Language, RetentionPolicy } from '../types';
+import { MESSAGES } from '../i18n';
+import type { QuotaStatus } from '../services/storage';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+
+const AGE_OPTIONS = [7, 30, 90, 365];
+const COUNT_OPTIONS = [25, 50, 100, 250];
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+const StorageSettings: React.FC<{
+    policy: RetentionPolicy;
+    onChange: (policy: RetentionPolicy) => void;
+    quota: QuotaStatus | null;
+    warning: string | null;
+    onDismissWarning: () => void;
+    theme: BackgroundTheme;
+    language: Language;
+    children?: React.ReactNode;
+}> = ({ policy, onChange, quota, warning, onDismissWarning, theme, language, children }) => {
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const selectClass = `px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text}`;
+
+    return (
+        <div className="mb-6">
+            {warning && (
+                <div className="flex items-start justify-between gap-3 mb-3 p-3 rounded-lg bg-amber-500/20 text-amber-800 dark:text-amber-200 text-sm">
+                    <p>{warning}</p>
+                    <button onClick={onDismissWarning} className="font-semibold hover:underline">{t.storage.dismiss}</button>
+                </div>
+            )}
+            <details className={`text-sm ${styles.subText}`}>
+                <summary className="cursor-pointer text-center">{t.storage.title}</summary>
+                <div className={`mt-3 p-4 rounded-xl border ${styles.cardBorder} ${styles.cardBg} flex flex-wrap items-center gap-4`}>
+                    <label className="flex items-center gap-2">
+                        {t.storage.ageBefore}
+                        <select
+                            value={policy.maxAgeDays ?? ''}
+                            onChange={e => onChange({ ...policy, maxAgeDays: e.target.value ? Number(e.target.value) : null })}
+                            className={selectClass}
+                        >
+                            <option value="">{t.storage.forever}</option>
+                            {AGE_OPTIONS.map(days => <option key={days} value={days}>{t.storage.days(days)}</option>)}
+                        </select>
+                        {t.storage.ageAfter}
+                    </label>
+                    <label className="flex items-center gap-2">
+                        {t.storage.countBefore}
+                        <select
+                            value={policy.maxCount ?? ''}
+                            onChange={e => onChange({ ...policy, maxCount: e.target.value ? Number(e.target.value) : null })}
+                            className={selectClass}
+                        >
+                            <option value="">{t.storage.unlimited}</option>
+                            {COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                        </select>
+                        {t.storage.countAfter}
+                    </label>
+                    <p className="w-full text-xs">
+                        {t.storage.favoritesKept}
+                        {quota && t.storage.usage(formatBytes(quota.usage), formatBytes(quota.quota))}
+                    </p>
+                </div>
+            </details>
+            {children}
+        </div>
+    );
+};
+
+export default StorageSettings;
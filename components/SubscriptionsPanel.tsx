@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { SUBSCRIPTION_INTERVALS, describeSubscription } from '../utils/subscriptions';
+import type { Language, NewsSite, Subscription, SubscriptionTarget } from '../types';
+import { MESSAGES, entryLabel, formatDate } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import SpinnerIcon from './icons/SpinnerIcon';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+
+type TargetKind = SubscriptionTarget['kind'];
+
+function formatDateTime(timestamp: number, language: Language): string {
+    return formatDate(timestamp, language, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+const StatusBadge: React.FC<{ subscription: Subscription; language: Language }> = ({ subscription, language }) => {
+    const t = MESSAGES[language];
+    const failedLast = subscription.lastErrorAt !== undefined && subscription.lastErrorAt >= (subscription.lastSuccessAt ?? 0);
+    if (failedLast) {
+        return (
+            <span title={subscription.lastError} className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-500/20 text-red-600 dark:text-red-400">
+                {t.subscriptions.failed} · {formatDateTime(subscription.lastErrorAt!, language)}
+            </span>
+        );
+    }
+    if (subscription.lastSuccessAt) {
+        return (
+            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-teal-600/20 text-teal-700 dark:text-teal-300">
+                {t.subscriptions.updated} · {formatDateTime(subscription.lastSuccessAt, language)}
+            </span>
+        );
+    }
+    return <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-500/20">{t.subscriptions.neverRun}</span>;
+};
+
+const SubscriptionsPanel: React.FC<{
+    subscriptions: Subscription[];
+    sites: NewsSite[];
+    countries: string[];
+    categories: string[];
+    discoverCategories: string[];
+    runningId: string | null;
+    onAdd: (target: SubscriptionTarget, intervalMinutes: number) => void;
+    onRemove: (id: string) => void;
+    onRunNow: (id: string) => void;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ subscriptions, sites, countries, categories, discoverCategories, runningId, onAdd, onRemove, onRunNow, theme, language }) => {
+    const [kind, setKind] = useState<TargetKind>('news');
+    const [country, setCountry] = useState(countries[0]);
+    const [category, setCategory] = useState(categories[0]);
+    const [topic, setTopic] = useState(discoverCategories[0]);
+    const [freeTopic, setFreeTopic] = useState('');
+    const [siteIds, setSiteIds] = useState<string[]>([]);
+    const [siteCategory, setSiteCategory] = useState('');
+    const [intervalMinutes, setIntervalMinutes] = useState(SUBSCRIPTION_INTERVALS[SUBSCRIPTION_INTERVALS.length - 1]);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+    const selectClass = `px-2 py-1 text-sm rounded-lg ${styles.inputBg} ${styles.text}`;
+
+    const handleAdd = () => {
+        if (kind === 'news') onAdd({ kind, country, category }, intervalMinutes);
+        else if (kind === 'discover') onAdd({ kind, topic }, intervalMinutes);
+        else if (kind === 'topic') {
+            if (freeTopic.trim()) onAdd({ kind, topic: freeTopic.trim() }, intervalMinutes);
+        }
+        else if (siteIds.length > 0) onAdd({ kind, siteIds, category: siteCategory || undefined }, intervalMinutes);
+    };
+
+    const toggleSite = (id: string) => {
+        setSiteIds(prev => prev.includes(id) ? prev.filter(siteId => siteId !== id) : [...prev, id]);
+    };
+
+    return (
+        <div className={`${styles.cardBg} rounded-2xl shadow-lg p-6 backdrop-blur-sm border ${styles.cardBorder} mt-8`}>
+            <h3 className={`text-lg font-medium ${styles.text} mb-1`}>{t.subscriptions.title}</h3>
+            <p className={`${styles.subText} mb-3 text-sm`}>{t.subscriptions.description}</p>
+
+            {subscriptions.length > 0 && (
+                <ul className="space-y-2 mb-4">
+                    {subscriptions.map(subscription => (
+                        <li key={subscription.id} className={`flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg ${styles.inputBg}`}>
+                            <div className="flex flex-col">
+                                <span className={`text-sm font-semibold ${styles.text}`}>{describeSubscription(subscription.target, sites, t.subscriptions.deletedSites)}</span>
+                                <span className={`text-xs ${styles.subText}`}>{t.subscriptions.interval(subscription.intervalMinutes)}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <StatusBadge subscription={subscription} language={language} />
+                                <button
+                                    onClick={() => onRunNow(subscription.id)}
+                                    disabled={runningId !== null}
+                                    className={`flex items-center px-2 py-1 text-xs font-semibold rounded-lg ${styles.hoverBg} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                >
+                                    {runningId === subscription.id && <SpinnerIcon className="w-3 h-3 mr-1" />}
+                                    {t.subscriptions.runNow}
+                                </button>
+                                <button onClick={() => onRemove(subscription.id)} title={t.subscriptions.remove} className={`${styles.subText} hover:text-red-500 transition-colors`}>
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select value={kind} onChange={e => setKind(e.target.value as TargetKind)} className={selectClass}>
+                    <option value="news">{t.subscriptions.kindNews}</option>
+                    <option value="discover">{t.subscriptions.kindDiscover}</option>
+                    <option value="topic">{t.subscriptions.kindTopic}</option>
+                    <option value="sites" disabled={sites.length === 0}>{t.subscriptions.kindSites}</option>
+                </select>
+                {kind === 'news' && (
+                    <>
+                        <select value={country} onChange={e => setCountry(e.target.value)} className={selectClass}>
+                            {countries.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                        </select>
+                        <select value={category} onChange={e => setCategory(e.target.value)} className={selectClass}>
+                            {categories.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                        </select>
+                    </>
+                )}
+                {kind === 'discover' && (
+                    <select value={topic} onChange={e => setTopic(e.target.value)} className={selectClass}>
+                        {discoverCategories.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                    </select>
+                )}
+                {kind === 'topic' && (
+                    <input
+                        value={freeTopic}
+                        onChange={e => setFreeTopic(e.target.value)}
+                        placeholder={t.subscriptions.topicPlaceholder}
+                        className={selectClass}
+                    />
+                )}
+                {kind === 'sites' && (
+                    <select value={siteCategory} onChange={e => setSiteCategory(e.target.value)} className={selectClass}>
+                        <option value="">{t.subscriptions.allCategories}</option>
+                        {categories.map(option => <option key={option} value={option}>{entryLabel(t, option)}</option>)}
+                    </select>
+                )}
+                <select value={intervalMinutes} onChange={e => setIntervalMinutes(Number(e.target.value))} className={selectClass}>
+                    {SUBSCRIPTION_INTERVALS.map(minutes => <option key={minutes} value={minutes}>{t.subscriptions.interval(minutes)}</option>)}
+                </select>
+                <button
+                    onClick={handleAdd}
+                    disabled={(kind === 'sites' && siteIds.length === 0) || (kind === 'topic' && !freeTopic.trim())}
+                    className="flex items-center px-3 py-1 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    <PlusIcon className="w-4 h-4 mr-1" />
+                    {t.subscriptions.subscribe}
+                </button>
+            </div>
+            {kind === 'sites' && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                    {sites.map(site => (
+                        <label key={site.id} className={`flex items-center gap-1 text-sm ${styles.text}`}>
+                            <input type="checkbox" checked={siteIds.includes(site.id)} onChange={() => toggleSite(site.id)} />
+                            {site.name}
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SubscriptionsPanel;
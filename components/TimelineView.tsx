@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { buildTimeline, countByCategory, dayKey, mentionCategory, recentDays, recurringTopics } from '../utils/timeline';
+import type { TimelineTopic } from '../utils/timeline';
+import { ENTITY_KINDS } from '../utils/deepDives';
+import type { EntityKind, Language, Result } from '../types';
+import { MESSAGES, entryLabel, formatDate } from '../i18n';
+import { themeStyles, fontSizeClassMap } from '../theme';
+import type { BackgroundTheme, FontSize } from '../theme';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+const RANGES = [7, 14, 30];
+const MAX_TOPICS = 30;
+// A name has to come up in at least this many items to count as recurring.
+const MIN_MENTIONS = 2;
+
+const dayTimestamp = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date).getTime();
+};
+
+// Mentions per day as a row of bars; clicking a bar selects its day.
+const DayBars: React.FC<{
+    topic: TimelineTopic;
+    days: string[];
+    selectedDay?: string | null;
+    onSelectDay?: (day: string) => void;
+    heightClass: string;
+    language: Language;
+}> = ({ topic, days, selectedDay, onSelectDay, heightClass, language }) => {
+    const t = MESSAGES[language];
+    const max = Math.max(1, ...days.map(day => topic.byDay[day] ?? 0));
+    return (
+        <div className={`flex items-end gap-px ${heightClass}`}>
+            {days.map(day => {
+                const count = topic.byDay[day] ?? 0;
+                const label = t.timeline.dayTitle(formatDate(dayTimestamp(day), language, { dateStyle: 'medium' }), count);
+                return (
+                    <button
+                        key={day}
+                        type="button"
+                        title={label}
+                        aria-label={label}
+                        disabled={!onSelectDay || count === 0}
+                        onClick={() => onSelectDay?.(day)}
+                        className="flex-1 h-full flex items-end disabled:cursor-default"
+                    >
+                        <span
+                            className={`block w-full rounded-t ${count === 0 ? 'bg-gray-400/20' : (selectedDay === day ? 'bg-orange-500' : 'bg-teal-500')}`}
+                            style={{ height: count === 0 ? '2px' : `${(count / max) * 100}%` }}
+                        />
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+// The "Zaman Çizelgesi" view: recurring people, organizations, places and
+// topics in the stored briefings, charted per day and per category, with
+// every item that mentioned the selected one.
+const TimelineView: React.FC<{
+    history: Result[];
+    pendingCount: number;
+    isExtracting: boolean;
+    extractionFailed: boolean;
+    onOpenResult: (id: string) => void;
+    fontSize: FontSize;
+    theme: BackgroundTheme;
+    language: Language;
+}> = ({ history, pendingCount, isExtracting, extractionFailed, onOpenResult, fontSize, theme, language }) => {
+    const [rangeDays, setRangeDays] = useState(RANGES[1]);
+    const [kind, setKind] = useState<EntityKind | null>(null);
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [dayFilter, setDayFilter] = useState<string | null>(null);
+    const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const topics = useMemo(() => buildTimeline(history), [history]);
+    const days = recentDays(Date.now(), rangeDays);
+    const visibleTopics = recurringTopics(topics, days, MIN_MENTIONS, kind).slice(0, MAX_TOPICS);
+    const selected = topics.find(topic => topic.key === selectedKey) ?? null;
+
+    const daySet = new Set(days);
+    const rangeMentions = selected ? selected.mentions.filter(mention => daySet.has(dayKey(mention.result.timestamp))) : [];
+    const categoryCounts = countByCategory(rangeMentions);
+    const maxCategoryCount = Math.max(1, ...categoryCounts.map(([, count]) => count));
+    const listedMentions = rangeMentions.filter(mention =>
+        (!dayFilter || dayKey(mention.result.timestamp) === dayFilter) &&
+        (categoryFilter === null || mentionCategory(mention) === categoryFilter));
+
+    const categoryLabel = (category: string) => category ? entryLabel(t, category) : t.timeline.uncategorized;
+
+    const selectTopic = (key: string | null) => {
+        setSelectedKey(key);
+        setDayFilter(null);
+        setCategoryFilter(null);
+    };
+
+    const changeRange = (range: number) => {
+        setRangeDays(range);
+        setDayFilter(null);
+        setCategoryFilter(null);
+    };
+
+    const filterButtonClass = (active: boolean) => `px-3 py-1 text-xs font-semibold rounded-full transition-colors ${active ? 'bg-teal-600 text-white' : `${styles.inputBg} ${styles.text} ${styles.hoverBg}`}`;
+
+    return (
+        <section className="space-y-4">
+            <div>
+                <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-teal-500 to-blue-500 dark:from-teal-400 dark:to-blue-400">{t.timeline.title}</h2>
+                <p className={`text-sm ${styles.subText}`}>{t.timeline.intro}</p>
+            </div>
+
+            {(isExtracting || pendingCount > 0 || extractionFailed) && (
+                <div className={`flex items-center gap-2 text-sm ${styles.subText}`}>
+                    {isExtracting && <SpinnerIcon className="w-4 h-4" />}
+                    {pendingCount > 0 && <span>{t.timeline.pending(pendingCount)}</span>}
+                    {extractionFailed && <span className="text-red-500 dark:text-red-400">{t.timeline.failed}</span>}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <span className={`text-sm ${styles.subText}`}>{t.timeline.range}</span>
+                {RANGES.map(range => (
+                    <button key={range} onClick={() => changeRange(range)} className={filterButtonClass(rangeDays === range)}>
+                        {t.timeline.lastDays(range)}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => setKind(null)} className={filterButtonClass(kind === null)}>{t.timeline.allKinds}</button>
+                {ENTITY_KINDS.map(entityKind => (
+                    <button key={entityKind} onClick={() => setKind(entityKind)} className={filterButtonClass(kind === entityKind)}>
+                        {t.timeline.kinds[entityKind]}
+                    </button>
+                ))}
+            </div>
+
+            {visibleTopics.length === 0 ? (
+                <p className={`${styles.subText} text-center py-8`}>{t.timeline.empty}</p>
+            ) : (
+                <ul className={`${styles.cardBg} rounded-2xl shadow-lg backdrop-blur-sm border ${styles.cardBorder} divide-y divide-gray-500/20`}>
+                    {visibleTopics.map(topic => {
+                        const count = days.reduce((sum, day) => sum + (topic.byDay[day] ?? 0), 0);
+                        return (
+                            <li key={topic.key}>
+                                <button
+                                    onClick={() => selectTopic(topic.key === selectedKey ? null : topic.key)}
+                                    aria-expanded={topic.key === selectedKey}
+                                    className={`w-full flex items-center gap-4 px-4 py-3 text-left ${styles.hoverBg} ${topic.key === selectedKey ? 'ring-2 ring-inset ring-teal-500 rounded-lg' : ''}`}
+                                >
+                                    <div className="w-48 shrink-0">
+                                        <p className={`font-semibold ${styles.text}`}>{topic.name}</p>
+                                        <p className={`text-xs ${styles.subText}`}>{t.reader.entityKinds[topic.kind]} · {t.timeline.mentionCount(count)}</p>
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <DayBars topic={topic} days={days} heightClass="h-8" language={language} />
+                                    </div>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {selected && (
+                <div className={`${styles.cardBg} rounded-2xl shadow-lg p-6 backdrop-blur-sm border ${styles.cardBorder} space-y-6`}>
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <h3 className={`text-xl font-semibold ${styles.text}`}>{selected.name}</h3>
+                            <p className={`text-sm ${styles.subText}`}>{t.reader.entityKinds[selected.kind]} · {t.timeline.mentionCount(rangeMentions.length)}</p>
+                        </div>
+                        <button onClick={() => selectTopic(null)} title={t.timeline.close} className={`px-2 text-2xl leading-none rounded ${styles.hoverBg}`}>×</button>
+                    </div>
+
+                    <div>
+                        <h4 className={`text-sm font-semibold mb-2 ${styles.subText}`}>{t.timeline.perDay}</h4>
+                        <DayBars
+                            topic={selected}
+                            days={days}
+                            selectedDay={dayFilter}
+                            onSelectDay={day => setDayFilter(day === dayFilter ? null : day)}
+                            heightClass="h-32"
+                            language={language}
+                        />
+                        <div className={`flex justify-between text-xs mt-1 ${styles.subText}`}>
+                            <span>{formatDate(dayTimestamp(days[0]), language, { day: 'numeric', month: 'short' })}</span>
+                            <span>{formatDate(dayTimestamp(days[days.length - 1]), language, { day: 'numeric', month: 'short' })}</span>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h4 className={`text-sm font-semibold mb-2 ${styles.subText}`}>{t.timeline.perCategory}</h4>
+                        <ul className="space-y-1 text-sm">
+                            {categoryCounts.map(([category, count]) => (
+                                <li key={category}>
+                                    <button
+                                        onClick={() => setCategoryFilter(category === categoryFilter ? null : category)}
+                                        aria-pressed={category === categoryFilter}
+                                        className={`w-full flex items-center gap-3 rounded ${styles.hoverBg}`}
+                                    >
+                                        <span className={`w-32 shrink-0 text-left truncate ${styles.text}`}>{categoryLabel(category)}</span>
+                                        <span className="flex-1">
+                                            <span
+                                                className={`block h-3 rounded ${category === categoryFilter ? 'bg-orange-500' : 'bg-blue-500'}`}
+                                                style={{ width: `${(count / maxCategoryCount) * 100}%` }}
+                                            />
+                                        </span>
+                                        <span className={`w-8 text-right ${styles.subText}`}>{count}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <div>
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                            <h4 className={`text-sm font-semibold ${styles.subText}`}>{t.timeline.mentions}</h4>
+                            {(dayFilter || categoryFilter !== null) && (
+                                <button
+                                    onClick={() => {
+                                        setDayFilter(null);
+                                        setCategoryFilter(null);
+                                    }}
+                                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                    {t.timeline.clearFilter}
+                                </button>
+                            )}
+                        </div>
+                        <ol className={`space-y-3 ${fontSizeClassMap[fontSize]}`}>
+                            {listedMentions.map(mention => (
+                                <li key={`${mention.result.id}-${mention.item.id}`} className="border-l-4 border-teal-500 pl-3">
+                                    <p className={`text-xs ${styles.subText}`}>
+                                        {formatDate(mention.result.timestamp, language, { dateStyle: 'medium', timeStyle: 'short' })}
+                                        {' · '}{mention.result.source}
+                                        {' · '}{categoryLabel(mentionCategory(mention))}
+                                    </p>
+                                    {mention.item.headline && <p className={`font-semibold ${styles.text}`}>{mention.item.headline}</p>}
+                                    <p className={styles.text}>{mention.item.body}</p>
+                                    <button onClick={() => onOpenResult(mention.result.id)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                                        {t.timeline.openResult}
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default TimelineView;
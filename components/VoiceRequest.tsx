@@ -0,0 +1,281 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { getProvider } from '../services/provider';
+import { describeError } from '../services/geminiClient';
+import { encode, decode, decodeAudioData, floatTo16BitPcm, pcmToWav, resample } from '../utils/audio';
+import type { Language, VoiceIntent } from '../types';
+import { MESSAGES, entryLabel } from '../i18n';
+import type { Messages } from '../i18n';
+import { themeStyles } from '../theme';
+import type { BackgroundTheme } from '../theme';
+import MicrophoneIcon from './icons/MicrophoneIcon';
+import SpinnerIcon from './icons/SpinnerIcon';
+import StopIcon from './icons/StopIcon';
+
+type VoiceState = 'idle' | 'recording' | 'processing' | 'preview' | 'running' | 'speaking';
+
+// Recordings are captured at the device rate (Firefox cannot connect a
+// microphone to a context running at any other rate) and resampled to this
+// before they are sent.
+const RECORDING_SAMPLE_RATE = 16000;
+
+function describeIntent(intent: VoiceIntent, t: Messages): string {
+    if (intent.kind === 'briefing' && intent.country && intent.category) {
+        return t.voice.intentBriefing(entryLabel(t, intent.country), entryLabel(t, intent.category));
+    }
+    return t.voice.intentQuestion(intent.question || intent.transcript);
+}
+
+function microphoneErrorMessage(error: unknown, t: Messages): string {
+    const name = error instanceof DOMException ? error.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+        return t.voice.microphoneDenied;
+    }
+    if (name === 'NotFoundError') {
+        return t.voice.microphoneMissing;
+    }
+    return t.voice.microphoneFailed;
+}
+
+// Push-to-talk panel: records while the button is held, then turns the
+// utterance into a briefing request the user can confirm or discard.
+const VoiceRequest: React.FC<{
+    countries: string[];
+    categories: string[];
+    disabled: boolean;
+    onSubmit: (intent: VoiceIntent) => Promise<string | null>;
+    voice: string;
+    theme: BackgroundTheme;
+    language: Language;
+    // The language briefings are written in, for reading the reply aloud.
+    outputLanguage: Language;
+}> = ({ countries, categories, disabled, onSubmit, voice, theme, language, outputLanguage }) => {
+    const [state, setState] = useState<VoiceState>('idle');
+    const [intent, setIntent] = useState<VoiceIntent | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [speakReply, setSpeakReply] = useState(true);
+    const streamRef = useRef<MediaStream | null>(null);
+    const recordContextRef = useRef<AudioContext | null>(null);
+    const processorRef = useRef<ScriptProcessorNode | null>(null);
+    const samplesRef = useRef<Float32Array[]>([]);
+    const pressedRef = useRef(false);
+    const playbackContextRef = useRef<AudioContext | null>(null);
+    const playbackSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    // Aborted by Stop while the reply is still being synthesized.
+    const speechAbortRef = useRef<AbortController | null>(null);
+    const styles = themeStyles[theme];
+    const t = MESSAGES[language];
+
+    const releaseMicrophone = () => {
+        processorRef.current?.disconnect();
+        processorRef.current = null;
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        recordContextRef.current?.close();
+        recordContextRef.current = null;
+    };
+
+    useEffect(() => () => {
+        releaseMicrophone();
+        speechAbortRef.current?.abort();
+        playbackSourceRef.current?.stop();
+    }, []);
+
+    const startRecording = async () => {
+        if (state !== 'idle' && state !== 'preview') return;
+        pressedRef.current = true;
+        setError(null);
+        setIntent(null);
+        samplesRef.current = [];
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+            const sourceNode = context.createMediaStreamSource(stream);
+            const processor = context.createScriptProcessor(4096, 1, 1);
+            processor.onaudioprocess = (event) => {
+                samplesRef.current.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+            };
+            sourceNode.connect(processor);
+            processor.connect(context.destination);
+            streamRef.current = stream;
+            recordContextRef.current = context;
+            processorRef.current = processor;
+            // The button may have been released while the permission prompt was open.
+            if (!pressedRef.current) {
+                releaseMicrophone();
+                return;
+            }
+            setState('recording');
+        } catch (err) {
+            console.error(err);
+            releaseMicrophone();
+            setError(microphoneErrorMessage(err, t));
+            setState('idle');
+        }
+    };
+
+    const cancelRecording = () => {
+        pressedRef.current = false;
+        releaseMicrophone();
+        samplesRef.current = [];
+        setState('idle');
+    };
+
+    useEffect(() => {
+        if (state !== 'recording') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') cancelRecording();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [state]);
+
+    const finishRecording = async () => {
+        pressedRef.current = false;
+        if (state !== 'recording') return;
+        const deviceSampleRate = recordContextRef.current?.sampleRate ?? RECORDING_SAMPLE_RATE;
+        releaseMicrophone();
+        const chunks = samplesRef.current;
+        samplesRef.current = [];
+        const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+        if (length < deviceSampleRate / 2) {
+            setError(t.voice.tooShort);
+            setState('idle');
+            return;
+        }
+        const samples = new Float32Array(length);
+        let offset = 0;
+        for (const chunk of chunks) {
+            samples.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        setState('processing');
+        try {
+            const pcm = floatTo16BitPcm(resample(samples, deviceSampleRate, RECORDING_SAMPLE_RATE));
+            const wav = pcmToWav(pcm, RECORDING_SAMPLE_RATE, 1);
+            const base64Audio = encode(new Uint8Array(await wav.arrayBuffer()));
+            const result = await getProvider().interpretVoiceRequest(base64Audio, 'audio/wav', countries, categories);
+            setIntent(result);
+            setState('preview');
+        } catch (err) {
+            console.error(err);
+            setError(describeError(err, t.voice.notUnderstood, language));
+            setState('idle');
+        }
+    };
+
+    const speak = async (text: string) => {
+        speechAbortRef.current?.abort();
+        const controller = new AbortController();
+        speechAbortRef.current = controller;
+        setState('speaking');
+        try {
+            const base64Audio = await getProvider().generateSpeech(text, voice, outputLanguage);
+            if (controller.signal.aborted) return;
+            if (!playbackContextRef.current) {
+                playbackContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+            }
+            const audioContext = playbackContextRef.current;
+            if (audioContext.state === 'suspended') {
+                await audioContext.resume();
+            }
+            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+            if (controller.signal.aborted) return;
+            const source = audioContext.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(audioContext.destination);
+            playbackSourceRef.current = source;
+            source.onended = () => {
+                playbackSourceRef.current = null;
+                setState('idle');
+            };
+            source.start();
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error(err);
+            setError(describeError(err, t.voice.replyFailed, language));
+            setState('idle');
+        } finally {
+            if (speechAbortRef.current === controller) speechAbortRef.current = null;
+        }
+    };
+
+    const confirmIntent = async () => {
+        if (!intent) return;
+        setState('running');
+        setError(null);
+        const summary = await onSubmit(intent);
+        setIntent(null);
+        if (summary && speakReply) {
+            await speak(summary);
+        } else {
+            setState('idle');
+        }
+    };
+
+    // Before playback has started there is no source to stop yet; aborting
+    // keeps the reply from playing once it has been synthesized.
+    const stopSpeaking = () => {
+        speechAbortRef.current?.abort();
+        speechAbortRef.current = null;
+        if (playbackSourceRef.current) {
+            playbackSourceRef.current.stop();
+        } else {
+            setState('idle');
+        }
+    };
+
+    return (
+        <div>
+            <h3 className={`text-lg font-medium ${styles.text} mb-1`}>{t.voice.title}</h3>
+            <p className={`${styles.subText} mb-3 text-sm`}>{t.voice.description}</p>
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onPointerDown={startRecording}
+                    onPointerUp={finishRecording}
+                    onPointerLeave={() => { if (state === 'recording') cancelRecording(); }}
+                    onKeyDown={e => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) startRecording(); }}
+                    onKeyUp={e => { if (e.key === ' ' || e.key === 'Enter') finishRecording(); }}
+                    disabled={disabled || state === 'processing' || state === 'running' || state === 'speaking'}
+                    className={`flex items-center justify-center px-4 py-2 text-sm font-semibold text-white rounded-full transition-colors select-none disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed ${state === 'recording' ? 'bg-red-600 ring-2 ring-red-400 animate-pulse' : 'bg-rose-600 hover:bg-rose-700'}`}
+                >
+                    {state === 'processing' ? <SpinnerIcon className="w-5 h-5 mr-2" /> : <MicrophoneIcon className="w-5 h-5 mr-2" />}
+                    {state === 'recording' ? t.voice.listening : (state === 'processing' ? t.voice.understanding : t.voice.holdToTalk)}
+                </button>
+                {state === 'recording' && (
+                    <span className={`text-xs ${styles.subText}`}>{t.voice.cancelHint}</span>
+                )}
+                {state === 'speaking' && (
+                    <button onClick={stopSpeaking} className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-teal-600 rounded-full hover:bg-teal-700">
+                        <StopIcon className="w-5 h-5 mr-2" />
+                        {t.voice.stopReading}
+                    </button>
+                )}
+                <label className={`flex items-center gap-2 text-sm ${styles.subText}`}>
+                    <input type="checkbox" checked={speakReply} onChange={e => setSpeakReply(e.target.checked)} />
+                    {t.voice.readReply}
+                </label>
+            </div>
+
+            {intent && (state === 'preview' || state === 'running') && (
+                <div className={`mt-3 p-3 rounded-lg border ${styles.cardBorder} ${styles.inputBg}`}>
+                    <p className={`text-sm italic ${styles.text}`}>“{intent.transcript}”</p>
+                    <p className={`text-xs mt-1 ${styles.subText}`}>{describeIntent(intent, t)}</p>
+                    <div className="flex gap-2 mt-3">
+                        <button onClick={confirmIntent} disabled={state === 'running'} className="flex items-center px-3 py-1 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
+                            {state === 'running' && <SpinnerIcon className="w-4 h-4 mr-2" />}
+                            {t.voice.confirm}
+                        </button>
+                        <button onClick={() => { setIntent(null); setState('idle'); }} disabled={state === 'running'} className={`px-3 py-1 text-sm font-semibold rounded-lg ${styles.text} ${styles.hoverBg}`}>
+                            {t.voice.discard}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{error}</p>}
+        </div>
+    );
+};
+
+export default VoiceRequest;
@@ -0,0 +1,267 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { getProvider } from '../services/provider';
+import { getCachedAudio, putCachedAudio } from '../services/audioCache';
+import { decode, pcmToWav } from '../utils/audio';
+import type { Language } from '../types';
+
+export type PlayerStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+// Kept as data rather than text so the card can word it in the interface
+// language.
+export type PlayerError = { kind: 'synthesis'; cause: unknown } | { kind: 'playback' };
+
+export const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+const TTS_SAMPLE_RATE = 24000;
+
+async function loadPartPcm(resultId: string, voice: string, language: Language, part: number, text: string): Promise<Uint8Array> {
+    const provider = getProvider();
+    // Audio from other providers is cached under its own key so mock tones
+    // never stand in for real speech. Gemini keeps the bare voice name that
+    // existing cache entries were written with.
+    const cacheVoice = provider.id === 'gemini' ? voice : `${provider.id}:${voice}`;
+    const cached = await getCachedAudio(resultId, cacheVoice, part);
+    if (cached) return cached;
+    const pcm = decode(await provider.generateSpeech(text, voice, language));
+    await putCachedAudio(resultId, cacheVoice, part, pcm);
+    return pcm;
+}
+
+// Plays a briefing one part (news item) at a time. Parts are synthesized in
+// order in the background, so playback starts as soon as the first one is
+// ready instead of waiting for the whole summary. `language` is the one the
+// briefing was written in, which can differ from the interface language.
+export function useBriefingPlayer(resultId: string, parts: string[], voice: string, language: Language) {
+    const [status, setStatus] = useState<PlayerStatus>('idle');
+    const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+    const [position, setPosition] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [speed, setSpeedState] = useState(1);
+    const [error, setError] = useState<PlayerError | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const urlsRef = useRef<Map<number, Promise<string>>>(new Map());
+    const partsRef = useRef(parts);
+    const indexRef = useRef<number | null>(null);
+    const speedRef = useRef(1);
+    // Bumped whenever playback jumps, so late-arriving audio for an
+    // abandoned part does not start playing.
+    const sessionRef = useRef(0);
+    partsRef.current = parts;
+
+    const revokeUrls = () => {
+        urlsRef.current.forEach(promise => promise.then(url => URL.revokeObjectURL(url), () => undefined));
+        urlsRef.current = new Map();
+    };
+
+    useEffect(() => () => {
+        sessionRef.current++;
+        audioRef.current?.pause();
+        revokeUrls();
+    }, []);
+
+    // A different voice means different audio; drop what was loaded.
+    useEffect(() => {
+        sessionRef.current++;
+        audioRef.current?.pause();
+        revokeUrls();
+        indexRef.current = null;
+        setCurrentIndex(null);
+        setStatus('idle');
+    }, [resultId, voice]);
+
+    const loadPart = useCallback((index: number): Promise<string> => {
+        let promise = urlsRef.current.get(index);
+        if (!promise) {
+            promise = loadPartPcm(resultId, voice, language, index, partsRef.current[index])
+                .then(pcm => URL.createObjectURL(pcmToWav(pcm, TTS_SAMPLE_RATE, 1)));
+            promise.catch(() => urlsRef.current.delete(index));
+            urlsRef.current.set(index, promise);
+        }
+        return promise;
+    }, [resultId, voice, language]);
+
+    const prefetchAfter = async (index: number, session: number) => {
+        for (let next = index + 1; next < partsRef.current.length; next++) {
+            if (session !== sessionRef.current) return;
+            try {
+                await loadPart(next);
+            } catch {
+                return;
+            }
+        }
+    };
+
+    const getAudio = () => {
+        if (!audioRef.current) {
+            const audio = new Audio();
+            audio.preservesPitch = true;
+            audio.ontimeupdate = () => {
+                setPosition(audio.currentTime);
+                if (Number.isFinite(audio.duration)) setDuration(audio.duration);
+            };
+            audioRef.current = audio;
+        }
+        return audioRef.current;
+    };
+
+    const stop = useCallback(() => {
+        sessionRef.current++;
+        audioRef.current?.pause();
+        indexRef.current = null;
+        setCurrentIndex(null);
+        setPosition(0);
+        setStatus('idle');
+    }, []);
+
+    const playPart = async (index: number, offsetFraction = 0) => {
+        const session = ++sessionRef.current;
+        const audio = getAudio();
+        audio.pause();
+        indexRef.current = index;
+        setCurrentIndex(index);
+        setPosition(0);
+        setDuration(0);
+        setStatus('loading');
+        setError(null);
+
+        let url: string;
+        try {
+            url = await loadPart(index);
+        } catch (err) {
+            console.error(err);
+            if (session === sessionRef.current) {
+                setError({ kind: 'synthesis', cause: err });
+                stop();
+            }
+            return;
+        }
+        if (session !== sessionRef.current) return;
+
+        audio.src = url;
+        audio.playbackRate = speedRef.current;
+        if (offsetFraction > 0) {
+            audio.addEventListener('loadedmetadata', () => {
+                audio.currentTime = offsetFraction * audio.duration;
+            }, { once: true });
+        }
+        audio.onended = () => {
+            if (session !== sessionRef.current) return;
+            const next = index + 1;
+            if (next < partsRef.current.length) {
+                playPart(next);
+            } else {
+                stop();
+            }
+        };
+        try {
+            await audio.play();
+            if (session === sessionRef.current) setStatus('playing');
+        } catch (err) {
+            console.error(err);
+            if (session === sessionRef.current) {
+                setError({ kind: 'playback' });
+                stop();
+            }
+            return;
+        }
+        prefetchAfter(index, session);
+    };
+
+    const pause = () => {
+        audioRef.current?.pause();
+        setStatus('paused');
+    };
+
+    const resume = async () => {
+        try {
+            await audioRef.current?.play();
+            setStatus('playing');
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const toggle = () => {
+        if (status === 'playing') pause();
+        else if (status === 'paused') resume();
+        else if (status === 'loading') stop();
+        else if (partsRef.current.length > 0) playPart(0);
+    };
+
+    const next = () => {
+        if (indexRef.current === null || indexRef.current >= partsRef.current.length - 1) return;
+        playPart(indexRef.current + 1);
+    };
+
+    const previous = () => {
+        if (indexRef.current === null) return;
+        // Like most players, "previous" first rewinds the current part.
+        if (audioRef.current && audioRef.current.currentTime > 3) {
+            audioRef.current.currentTime = 0;
+            return;
+        }
+        playPart(Math.max(0, indexRef.current - 1));
+    };
+
+    const playItem = (index: number) => {
+        if (index >= 0 && index < partsRef.current.length) playPart(index);
+    };
+
+    // Seeks within the whole briefing; each part is weighted equally because
+    // durations of parts that are not synthesized yet are unknown.
+    const seek = (fraction: number) => {
+        const count = partsRef.current.length;
+        if (count === 0) return;
+        const target = Math.min(Math.max(fraction, 0), 0.9999) * count;
+        const index = Math.floor(target);
+        const within = target - index;
+        const audio = audioRef.current;
+        if (index === indexRef.current && audio && Number.isFinite(audio.duration) && status !== 'loading') {
+            audio.currentTime = within * audio.duration;
+            setPosition(audio.currentTime);
+            return;
+        }
+        playPart(index, within);
+    };
+
+    const setSpeed = (value: number) => {
+        speedRef.current = value;
+        setSpeedState(value);
+        if (audioRef.current) audioRef.current.playbackRate = value;
+    };
+
+    const getFullPcm = async (): Promise<Uint8Array> => {
+        const pcms: Uint8Array[] = [];
+        for (let index = 0; index < partsRef.current.length; index++) {
+            pcms.push(await loadPartPcm(resultId, voice, language, index, partsRef.current[index]));
+        }
+        const full = new Uint8Array(pcms.reduce((total, pcm) => total + pcm.byteLength, 0));
+        let offset = 0;
+        for (const pcm of pcms) {
+            full.set(pcm, offset);
+            offset += pcm.byteLength;
+        }
+        return full;
+    };
+
+    const partProgress = duration > 0 ? Math.min(position / duration, 1) : 0;
+    const progress = currentIndex === null || parts.length === 0 ? 0 : (currentIndex + partProgress) / parts.length;
+
+    return {
+        status,
+        currentIndex,
+        position,
+        duration,
+        progress,
+        speed,
+        error,
+        toggle,
+        stop,
+        next,
+        previous,
+        playItem,
+        seek,
+        setSpeed,
+        getFullPcm,
+    };
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+
+// Whether the browser reports a network connection. New briefings cannot be
+// fetched without one; saved ones still work from local storage.
+export function useOnlineStatus(): boolean {
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return isOnline;
+}
@@ -0,0 +1,474 @@
+import type { Messages } from './tr';
+
+const backupRecords = { results: 'Briefing', favorites: 'Favoriten' };
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+export const de: Messages = {
+    app: {
+        title: "Nachrichten-Assistent",
+        tagline: "Aktuelle Nachrichtenüberblicke und horizonterweiternde Lektüre aus aller Welt.",
+        offline: "Sie sind offline: Neue Briefings können nicht abgerufen werden. Gespeicherte Briefings, Favoriten und offline gespeicherte Audios sind weiterhin verfügbar.",
+        showOfflineAudio: "Nur offline anhörbare Briefings zeigen",
+        offlineQueue: (count: number) => `Sie sind offline. ${plural(count, 'Anfrage wird', 'Anfragen werden')} gesendet, sobald die Verbindung zurück ist.`,
+    },
+    settings: {
+        themeLight: "Hell",
+        themeSepia: "Sepia",
+        themeDark: "Dunkel",
+        voice: "Stimme",
+        provider: "Dienst",
+        providerUnreachable: "Server nicht erreichbar",
+        uiLanguage: "Oberfläche",
+        outputLanguage: "Briefing-Sprache",
+    },
+    tabs: {
+        feed: "Nachrichten",
+        discover: "Entdecken",
+        favorites: "Favoriten",
+        timeline: "Zeitleiste",
+    },
+    feed: {
+        country: "Land",
+        category: "Kategorie",
+        topicTitle: "Freies Thema",
+        topicDescription: "Erhalten Sie eine Zusammenfassung der neuesten Entwicklungen zu einem beliebigen Thema – ganz ohne Land oder Kategorie.",
+        topicPlaceholder: "z. B. Zinsentscheid der Zentralbank",
+        getTopicSummary: "Thema zusammenfassen",
+        sitesTitle: "Nachrichtenseiten",
+        sitesDescription: "Fügen Sie Seiten hinzu, denen Sie vertrauen, und lassen Sie nur die ausgewählten zusammenfassen. Die Kategorie ist optional.",
+        removeSite: "Seite entfernen",
+        siteDomainPlaceholder: "Domain (z. B. bbc.com)",
+        siteNamePlaceholder: "Anzeigename",
+        siteLanguagePlaceholder: "Sprache",
+        defaultSiteLanguage: "Deutsch",
+        addSite: "Seite hinzufügen",
+        summarizing: "Wird zusammengefasst...",
+        getSummary: "Zusammenfassung abrufen",
+        getSiteSummary: "Ausgewählte Seiten zusammenfassen",
+        collapseRepeated: "Wiederholte Meldungen einklappen",
+        markAllRead: (count: number) => `Alle als gelesen markieren (${count})`,
+        noMatches: "Keine Briefings passen zu Ihrer Suche.",
+        selectCountryAndCategory: "Bitte wählen Sie ein Land und eine Kategorie.",
+        enterTopic: "Bitte geben Sie ein Thema ein.",
+        selectSite: "Bitte wählen Sie mindestens eine Nachrichtenseite.",
+        invalidDomain: "Bitte geben Sie eine gültige Domain ein (z. B. bbc.com).",
+        duplicateSite: "Diese Seite ist bereits in Ihrer Liste.",
+        summaryFailed: "Beim Abrufen der Zusammenfassung ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.",
+        invalidBriefingLink: "Land oder Kategorie im Link wurden nicht erkannt; es wurde kein Briefing gestartet.",
+        linkedResultMissing: "Das Briefing aus dem Link ist auf diesem Gerät nicht vorhanden; es wurde eventuell gelöscht oder auf einem anderen Gerät gespeichert.",
+        topicFailed: "Beim Zusammenfassen des Themas ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.",
+        questionFailed: "Beim Beantworten Ihrer Frage ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.",
+    },
+    discover: {
+        title: "Entdecken",
+        description: "Wählen Sie eines der Themen unten und entdecken Sie aktuelle Essays, Kunst und Kritik aus aller Welt.",
+        failed: "Beim Abrufen der Inhalte ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.",
+    },
+    favorites: {
+        title: "Lieblingsmeldungen",
+        noMatches: "Keine Favoriten passen zu Ihrer Suche.",
+        remove: "Aus Favoriten entfernen",
+        empty: "Sie haben noch keine Favoriten.",
+        collections: "Sammlungen",
+        allCollections: "Alle Favoriten",
+        newCollectionPlaceholder: "Neue Sammlung",
+        createCollection: "Sammlung anlegen",
+        renameCollection: "Sammlung umbenennen",
+        renamePrompt: "Neuer Name der Sammlung:",
+        deleteCollection: "Sammlung löschen",
+        confirmDeleteCollection: (name: string) => `Sammlung „${name}“ löschen? Die Favoriten darin bleiben erhalten.`,
+        collectionNameProblem: {
+            empty: "Bitte geben Sie einen Namen ein.",
+            duplicate: "Eine Sammlung mit diesem Namen gibt es bereits.",
+        },
+        noCollections: "Noch keine Sammlungen.",
+        emptyCollection: "Diese Sammlung enthält keine Favoriten.",
+        exportDossier: "Als Lesedossier herunterladen",
+        dossierFileName: "Lesedossier",
+        tags: "Schlagwörter",
+        allTags: "Alle Schlagwörter",
+        addTagPlaceholder: "Schlagwort hinzufügen",
+        removeTag: (tag: string) => `Schlagwort „${tag}“ entfernen`,
+        note: "Notiz",
+        notePlaceholder: "Ihre Notizen zu dieser Meldung…",
+        openResult: "Briefing öffnen",
+        copyLink: "Link kopieren",
+        copyLinkTitle: "Den Link zu diesem Favoriten kopieren",
+        linkCopied: "Kopiert",
+        copyLinkFailed: "Kopieren fehlgeschlagen",
+        resultDeleted: "Briefing gelöscht",
+    },
+    storage: {
+        loadFailed: "Der gespeicherte Verlauf konnte nicht geladen werden. Ihr Browser erlaubt für diese Seite möglicherweise keinen Speicher.",
+        nearLimit: "Der Browserspeicher ist fast voll. Verkürzen Sie die Aufbewahrungsdauer oder löschen Sie alte Briefings.",
+        quotaExceeded: "Speicher voll: Die letzten Änderungen konnten nicht gespeichert werden. Löschen Sie alte Briefings in den Aufbewahrungseinstellungen.",
+        saveFailed: "Änderungen konnten nicht gespeichert werden.",
+        dismiss: "Schließen",
+        title: "Speicher und Aufbewahrung",
+        ageBefore: "Briefings",
+        ageAfter: "aufbewahren",
+        forever: "unbegrenzt",
+        days: (days: number) => `höchstens ${plural(days, 'Tag', 'Tage')}`,
+        countBefore: "Höchstens",
+        countAfter: "Briefings behalten",
+        unlimited: "beliebig viele",
+        favoritesKept: "Briefings mit Favoriten werden nie gelöscht.",
+        usage: (usage: string, quota: string) => ` Belegter Speicher: ${usage} / ${quota}.`,
+    },
+    result: {
+        changeNew: "Neu",
+        changeUpdated: "Aktualisiert",
+        changeCovered: "Bereits gemeldet",
+        unread: "Ungelesen",
+        source: "Quelle:",
+        cancel: "Abbrechen",
+        delete: "Aus dem Verlauf löschen",
+        changeSummary: (added: number, updated: number, covered: number) => `Im Vergleich zum vorigen Briefing: ${added} neu, ${updated} aktualisiert, ${covered} wiederholt.`,
+        playFromHere: "Doppelklicken, um ab dieser Meldung zu hören",
+        addFavorite: "Zu Favoriten hinzufügen",
+        searchingSources: "Quellen werden durchsucht...",
+        writing: "Wird geschrieben...",
+        hideRepeated: "Wiederholte Meldungen ausblenden",
+        showRepeated: (count: number) => `${plural(count, 'wiederholte Meldung', 'wiederholte Meldungen')} anzeigen`,
+        generating: "Wird erzeugt...",
+        pause: "Pause",
+        resume: "Fortsetzen",
+        listen: "Briefing anhören",
+        downloadTitle: "Briefing als WAV herunterladen",
+        download: "Herunterladen",
+        downloadFailed: "Das Audio-Briefing konnte nicht heruntergeladen werden.",
+        offlineAudio: "Offline verfügbar",
+        offlineAudioTitle: "Das Audio dieses Briefings ist auf diesem Gerät gespeichert",
+        saveOffline: "Offline speichern",
+        saveOfflineTitle: "Audio jetzt erzeugen und auf diesem Gerät speichern, um es ohne Verbindung anzuhören",
+        savingOffline: "Wird gespeichert...",
+        saveOfflineFailed: "Das Audio konnte nicht für die Offline-Nutzung gespeichert werden.",
+        copyLink: "Link kopieren",
+        copyLinkTitle: "Den Link zu diesem Briefing auf diesem Gerät kopieren",
+        linkCopied: "Link in die Zwischenablage kopiert.",
+        share: "Teilen",
+        shareTitle: "Einen Link mit einer Kopie des Briefings erstellen, den andere öffnen und importieren können",
+        shareCopied: "Teilen-Link in die Zwischenablage kopiert.",
+        copyLinkFailed: "Der Link konnte nicht kopiert werden.",
+        askTitle: "Eine Frage zu diesem Briefing stellen",
+        ask: "Fragen",
+        perspectivesTitle: "Vergleichen, wie die Quellen berichtet haben",
+        perspectives: "Blickwinkel",
+        itemPerspectives: "Blickwinkel zu dieser Meldung",
+        progress: "Fortschritt des Briefings",
+        previous: "Vorherige Meldung",
+        play: "Abspielen",
+        next: "Nächste Meldung",
+        stop: "Stopp",
+        itemPosition: (index: number, count: number) => `Meldung ${index}/${count}`,
+        requestedSites: "Ausgewählte Seiten",
+        siteUsed: "Diese Seite wurde in der Zusammenfassung als Quelle verwendet",
+        siteMissing: "Diese Seite erscheint in der Zusammenfassung nicht als Quelle",
+        relatedLinks: "Verwandte Links",
+        deepDive: "Gründlich lesen",
+        deepDiveTitle: "Ausführliche Zusammenfassung, Zitate und Namen aus diesem Artikel gewinnen",
+        openDeepDive: "Lesenotiz öffnen",
+        readingArticle: "Artikel wird gelesen...",
+        deepDiveFailed: "Der Artikel konnte nicht gelesen werden. Bitte versuchen Sie es erneut.",
+        deepDiveCount: (count: number) => plural(count, 'Lesenotiz', 'Lesenotizen'),
+    },
+    citations: {
+        unverifiedTitle: "Für diese Meldung wurde keine stützende Quelle gefunden",
+        unverified: "Nicht belegt",
+    },
+    perspectives: {
+        title: "Blickwinkel",
+        scope: "Umfang",
+        wholeBriefing: "Ganzes Briefing",
+        analyze: "Quellen vergleichen",
+        reanalyze: "Erneut vergleichen",
+        analyzing: "Quellen werden verglichen...",
+        stop: "Stoppen",
+        failed: "Die Quellen konnten nicht verglichen werden. Bitte versuchen Sie es erneut.",
+        outletCount: (outlets: number, sources: number) => `${plural(outlets, 'Medium', 'Medien')}, ${plural(sources, 'Quelle', 'Quellen')}`,
+        noFraming: "Für dieses Medium war keine Einschätzung möglich.",
+        disagreements: "Wo die Quellen voneinander abweichen",
+        noDisagreements: "Zwischen den Quellen wurden keine klaren Widersprüche in den Fakten gefunden.",
+        analyzedAt: (date: string) => `Analysiert: ${date}`,
+        warnings: {
+            noSources: () => "Für diesen Umfang gibt es keine Quellen zum Vergleichen.",
+            singleOutlet: (outlet: string) => `Alle Quellen stammen von einem einzigen Medium (${outlet}); andere Blickwinkel fehlen.`,
+            singleCountry: (country: string) => `Alle Quellen stammen aus einem einzigen Land (${country}); internationale Blickwinkel fehlen.`,
+        },
+    },
+    chat: {
+        title: "Fragen zu diesem Briefing",
+        clear: "Unterhaltung löschen",
+        answering: "Antwort wird gesucht...",
+        stop: "Stopp",
+        placeholder: "z. B. Was ist der Hintergrund?",
+        inputLabel: "Nachfrage",
+        send: "Senden",
+        failed: "Die Frage konnte nicht beantwortet werden. Bitte versuchen Sie es erneut.",
+    },
+    reader: {
+        title: "Gründliche Lektüre",
+        close: "Schließen",
+        openOriginal: "Originalartikel öffnen",
+        readAt: (date: string) => `Gelesen: ${date}`,
+        listen: "Anhören",
+        pause: "Pause",
+        resume: "Fortsetzen",
+        stop: "Stoppen",
+        generating: "Wird erstellt...",
+        synthesisFailed: "Die Lesenotiz konnte nicht vorgelesen werden.",
+        reread: "Erneut lesen",
+        summary: "Zusammenfassung",
+        quotes: "Wichtige Zitate",
+        entities: "Genannte Namen",
+        entityKinds: {
+            person: "Person",
+            organization: "Organisation",
+            place: "Ort",
+            other: "Sonstiges",
+        },
+        sources: "Weitere Quellen",
+    },
+    timeline: {
+        title: "Zeitleiste",
+        intro: "Personen, Organisationen, Orte und Themen, die in Ihren Briefings immer wieder vorkommen. Klicken Sie auf einen Namen, um alle Meldungen dazu zu sehen.",
+        range: "Zeitraum",
+        lastDays: (days: number) => `Letzte ${days} Tage`,
+        allKinds: "Alle",
+        kinds: {
+            person: "Personen",
+            organization: "Organisationen",
+            place: "Länder und Orte",
+            other: "Themen",
+        },
+        pending: (count: number) => `${plural(count, 'Briefing wurde', 'Briefings wurden')} noch nicht verarbeitet.`,
+        failed: "Einige Briefings konnten nicht verarbeitet werden; es wird später erneut versucht.",
+        empty: "In diesem Zeitraum kommt kein Name in mehr als einer Meldung vor.",
+        mentionCount: (count: number) => plural(count, 'Meldung', 'Meldungen'),
+        dayTitle: (date: string, count: number) => `${date}: ${plural(count, 'Meldung', 'Meldungen')}`,
+        perDay: "Nach Tagen",
+        perCategory: "Nach Kategorien",
+        mentions: "Meldungen, in denen es vorkommt",
+        clearFilter: "Filter entfernen",
+        openResult: "Zum Briefing",
+        uncategorized: "Ohne Kategorie",
+        close: "Schließen",
+    },
+    share: {
+        title: "Geteiltes Briefing",
+        import: "Zu meinem Verlauf hinzufügen",
+        openExisting: "In meinem Verlauf öffnen",
+        dismiss: "Schließen",
+        readOnly: "Dies ist eine Kopie; gespeichert wird erst beim Importieren.",
+        problems: {
+            unreadable: "Der Teilen-Link konnte nicht gelesen werden; er wurde eventuell unvollständig kopiert.",
+            unsupportedVersion: "Dieser Teilen-Link hat ein nicht unterstütztes Format.",
+            newerSchemaVersion: "Dieser Teilen-Link wurde mit einer neueren Version der App erstellt.",
+            incomplete: "Das Briefing im Teilen-Link ist unvollständig.",
+        },
+    },
+    player: {
+        synthesisFailed: "Das Audio-Briefing konnte nicht erzeugt werden.",
+        playbackFailed: "Die Wiedergabe ist fehlgeschlagen.",
+    },
+    voice: {
+        title: "Sprachanfrage",
+        description: "Halten Sie die Taste gedrückt und sprechen Sie: „Fasse die Sportnachrichten aus der Türkei zusammen“ – oder stellen Sie eine beliebige Frage.",
+        intentBriefing: (country: string, category: string) => `Briefing: ${country} - ${category}`,
+        intentQuestion: (question: string) => `Frage: ${question}`,
+        microphoneDenied: "Der Mikrofonzugriff wurde verweigert. Erlauben Sie ihn in den Browsereinstellungen, um Sprachanfragen zu nutzen.",
+        microphoneMissing: "Es ist kein Mikrofon verfügbar.",
+        microphoneFailed: "Das Mikrofon konnte nicht gestartet werden.",
+        tooShort: "Die Aufnahme ist zu kurz. Halten Sie die Taste beim Sprechen gedrückt.",
+        notUnderstood: "Die Sprachanfrage wurde nicht verstanden. Bitte versuchen Sie es erneut.",
+        replyFailed: "Die Antwort konnte nicht vorgelesen werden.",
+        listening: "Hört zu...",
+        understanding: "Wird verstanden...",
+        holdToTalk: "Gedrückt halten und sprechen",
+        cancelHint: "Zum Abbrechen vom Knopf wegwischen oder Esc drücken.",
+        stopReading: "Vorlesen beenden",
+        readReply: "Antwort vorlesen",
+        confirm: "Briefing erstellen",
+        discard: "Verwerfen",
+    },
+    podcast: {
+        title: "Podcast-Modus",
+        description: (max: number) => `Wählen Sie bis zu ${max} Briefings; zwei Moderatoren präsentieren sie als kurze Morgensendung.`,
+        writing: "Skript wird geschrieben...",
+        recording: "Wird vertont...",
+        create: "Podcast erstellen",
+        download: "Podcast herunterladen",
+        fileName: "Nachrichten-Podcast",
+        showScript: "Skript anzeigen",
+        failed: "Der Podcast konnte nicht erstellt werden. Bitte versuchen Sie es erneut.",
+    },
+    subscriptions: {
+        title: "Abonnements",
+        description: "Solange die App geöffnet ist, werden Abonnements planmäßig aktualisiert; verpasste Läufe werden beim Start nachgeholt.",
+        failed: "Fehlgeschlagen",
+        updated: "Aktualisiert",
+        neverRun: "Noch nicht gelaufen",
+        runNow: "Jetzt aktualisieren",
+        remove: "Abonnement löschen",
+        kindNews: "Land und Kategorie",
+        kindDiscover: "Entdecken-Thema",
+        kindTopic: "Freies Thema",
+        kindSites: "Nachrichtenseiten",
+        topicPlaceholder: "z. B. Zinsentscheid der Zentralbank",
+        allCategories: "Alle Kategorien",
+        subscribe: "Abonnieren",
+        deletedSites: "gelöschte Seiten",
+        sitesMissing: "Die abonnierten Seiten gibt es nicht mehr.",
+        runFailed: "Das Abonnement konnte nicht aktualisiert werden.",
+        interval: (minutes: number) => ({
+            60: "Stündlich",
+            180: "Alle 3 Stunden",
+            360: "Alle 6 Stunden",
+            720: "Zweimal täglich",
+            1440: "Täglich",
+        } as Record<number, string>)[minutes] ?? `Alle ${minutes} Minuten`,
+    },
+    backup: {
+        title: "Sicherung und Export",
+        backup: "Sicherung",
+        download: "JSON-Sicherung herunterladen",
+        restoreFromFile: "Aus Sicherung wiederherstellen",
+        contents: (results: number, favorites: number) => `${plural(results, 'Briefing', 'Briefings')}, ${plural(favorites, 'Favorit', 'Favoriten')}`,
+        merge: "Mit vorhandenen zusammenführen",
+        replace: "Vorhandene ersetzen",
+        restore: "Wiederherstellen",
+        cancel: "Abbrechen",
+        confirmReplace: "Der aktuelle Verlauf und die Favoriten werden gelöscht und durch die Sicherung ersetzt. Fortfahren?",
+        merged: (results: number, favorites: number) => `${plural(results, 'Briefing', 'Briefings')} und ${plural(favorites, 'Favorit', 'Favoriten')} zusammengeführt.`,
+        restored: (results: number, favorites: number) => `${plural(results, 'Briefing', 'Briefings')} und ${plural(favorites, 'Favorit', 'Favoriten')} wiederhergestellt.`,
+        readFailed: "Die Sicherungsdatei konnte nicht gelesen werden.",
+        exportTitle: "Als Übersicht exportieren",
+        briefings: "Briefings",
+        favorites: "Favoriten",
+        selectAll: "Alle auswählen",
+        clearSelection: "Auswahl aufheben",
+        noHistory: "Der Verlauf ist leer.",
+        noFavorites: "Keine Favoriten.",
+        backupFileName: "Nachrichten-Sicherung",
+        digestFileName: "Nachrichtenübersicht",
+        problem: (problem) => {
+            switch (problem.kind) {
+                case 'invalidJson': return "Die Datei ist kein gültiges JSON.";
+                case 'notBackup': return "Die Datei ist keine Sicherung dieser App.";
+                case 'unsupportedVersion': return "Diese Version der Sicherungsdatei wird nicht unterstützt.";
+                case 'invalidSchemaVersion': return `Die ${backupRecords[problem.records]}-Version in der Sicherung ist ungültig.`;
+                case 'newerSchemaVersion': return `Die Sicherung stammt aus einer neueren App-Version (${backupRecords[problem.records]}-Version ${problem.version}).`;
+                case 'missingList': return `Die Sicherung enthält keine ${backupRecords[problem.records]}-Liste.`;
+                case 'unreadableRecord': return `${backupRecords[problem.records]}-Eintrag ${problem.index + 1} der Sicherung konnte nicht gelesen werden.`;
+                case 'incompleteRecord': return `Im ${backupRecords[problem.records]}-Eintrag ${problem.index + 1} der Sicherung fehlen Felder.`;
+            }
+        },
+    },
+    digest: {
+        title: "Nachrichtenübersicht",
+        created: (date: string) => `Erstellt am ${date}`,
+        relatedLinks: "Weiterführende Links",
+        favorites: "Favoriten",
+        dossier: "Lesedossier",
+        dossierSummary: (count: number, date: string) => `Lesedossier · ${plural(count, 'Meldung', 'Meldungen')} · Erstellt am ${date}`,
+        source: "Quelle",
+        tags: "Schlagwörter",
+        sources: "Quellen",
+    },
+    search: {
+        placeholder: "In Zusammenfassungen, Favoriten und Quellentiteln suchen",
+        allCountries: "Alle Länder",
+        allCategories: "Alle Kategorien",
+        allTopics: "Alle Entdecken-Themen",
+        hasAudio: "Audio bereit",
+        matchCount: (match: number, total: number) => `${match} von ${total} Einträgen`,
+        clear: "Filter zurücksetzen",
+    },
+    catalogs: {
+        title: "Listen und Prompt-Vorlagen",
+        labels: {
+            countries: "Länder",
+            categories: "Kategorien",
+            discoverCategories: "Entdecken-Themen",
+        },
+        hiddenTitle: "Ausgeblendet: erscheint in keiner Auswahl",
+        visibleTitle: "Erscheint in den Auswahllisten",
+        moveUp: "Nach oben",
+        moveDown: "Nach unten",
+        remove: "Entfernen",
+        addPlaceholder: "Neu hinzufügen",
+        addLabel: (catalog: string) => `Zu ${catalog} hinzufügen`,
+        add: "Hinzufügen",
+        reset: "Listen zurücksetzen",
+        confirmReset: "Listen auf die Standardwerte zurücksetzen? Von Ihnen hinzugefügte Einträge werden gelöscht.",
+        nameProblem: {
+            empty: "Bitte geben Sie einen Namen ein.",
+            separator: "Der Name darf \" - \" nicht enthalten.",
+            duplicate: "Dieser Name ist bereits in der Liste.",
+        },
+    },
+    prompts: {
+        title: "Prompt-Vorlagen",
+        kinds: {
+            news: "Land und Kategorie",
+            discover: "Entdecken",
+            topic: "Freies Thema",
+            sites: "Nachrichtenseiten",
+            question: "Sprachfrage",
+        },
+        templateLabel: (kind: string) => `Prompt-Vorlage „${kind}“`,
+        placeholders: {
+            dil: "Briefing-Sprache",
+            ülke: "Ausgewähltes Land",
+            bölge: "„dünyadaki“ oder „<Land> ülkesindeki“",
+            kategori: "Ausgewählte Kategorie",
+            konu: "Ausgewähltes oder eingegebenes Thema",
+            siteler: "Anweisung, die Suche auf die ausgewählten Seiten zu beschränken",
+            soru: "Die gestellte Frage",
+        },
+        resetTemplate: "Auf Standard zurücksetzen",
+        unknownPlaceholders: (names: string) => `Unbekannter Platzhalter: ${names}. Diese bleiben unverändert im Prompt.`,
+        emptyTemplate: "Solange die Vorlage leer ist, wird der Standardtext verwendet.",
+        preview: "Vorschau",
+        sampleTopic: "Zinsentscheid der Zentralbank",
+        sampleQuestion: "Wie stark ist der Mindestlohn gestiegen?",
+    },
+    errors: {
+        rateLimit: "Das Gemini-Nutzungslimit ist erreicht. Bitte warten Sie kurz und versuchen Sie es erneut.",
+        safety: "Die Anfrage wurde von Sicherheitsfiltern blockiert. Versuchen Sie ein anderes Thema oder eine andere Formulierung.",
+        empty: "Das Modell hat eine leere Antwort geliefert. Bitte versuchen Sie es erneut.",
+        offline: "Keine Internetverbindung. Versuchen Sie es erneut, sobald die Verbindung zurück ist.",
+        invalidKey: "Der API-Schlüssel ist ungültig oder für diesen Vorgang nicht berechtigt. Bitte prüfen Sie Ihren Schlüssel.",
+        unavailable: "Der Gemini-Dienst ist derzeit nicht erreichbar. Bitte versuchen Sie es in Kürze erneut.",
+    },
+    catalogNames: {
+        "Dünya": "Welt",
+        "Türkiye": "Türkei",
+        "ABD": "USA",
+        "Almanya": "Deutschland",
+        "İngiltere": "Großbritannien",
+        "Fransa": "Frankreich",
+        "Japonya": "Japan",
+        "Rusya": "Russland",
+        "Çin": "China",
+        "Gündem": "Schlagzeilen",
+        "Son Dakika": "Eilmeldungen",
+        "Spor": "Sport",
+        "Teknoloji": "Technik",
+        "Bilim": "Wissenschaft",
+        "Sanat": "Kunst",
+        "Sağlık": "Gesundheit",
+        "Eğlence": "Unterhaltung",
+        "Yorum & Analiz": "Meinung & Analyse",
+        "Edebiyat & Sanat": "Literatur & Kunst",
+        "Felsefe": "Philosophie",
+        "Popüler Bilim": "Populärwissenschaft",
+        "Siyaset": "Politik",
+        "Din": "Religion",
+        "Sinema": "Kino",
+        "Toplum": "Gesellschaft",
+        "Psikoloji": "Psychologie",
+        "Hukuk": "Recht",
+    },
+};
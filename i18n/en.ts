@@ -0,0 +1,474 @@
+import type { Messages } from './tr';
+
+const backupRecords = { results: 'briefing', favorites: 'favorite' };
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+export const en: Messages = {
+    app: {
+        title: "News Assistant",
+        tagline: "Instant news briefings and eye-opening reads from around the world.",
+        offline: "You are offline: new briefings cannot be fetched. Saved briefings, favorites and audio saved for offline use are still available.",
+        showOfflineAudio: "Show only briefings you can listen to offline",
+        offlineQueue: (count: number) => `You are offline. ${plural(count, 'request', 'requests')} will be sent when the connection is back.`,
+    },
+    settings: {
+        themeLight: "Light",
+        themeSepia: "Sepia",
+        themeDark: "Dark",
+        voice: "Voice",
+        provider: "Service",
+        providerUnreachable: "server unreachable",
+        uiLanguage: "Interface",
+        outputLanguage: "Briefing language",
+    },
+    tabs: {
+        feed: "News Feed",
+        discover: "Discover",
+        favorites: "Favorites",
+        timeline: "Timeline",
+    },
+    feed: {
+        country: "Country",
+        category: "Category",
+        topicTitle: "Free Topic",
+        topicDescription: "Get a summary of the latest developments on any topic you type, without picking a country or category.",
+        topicPlaceholder: "e.g. Central bank interest rate decision",
+        getTopicSummary: "Summarize Topic",
+        sitesTitle: "News Sites",
+        sitesDescription: "Add the sites you trust and get summaries from the selected sites only. Choosing a category is optional.",
+        removeSite: "Remove site",
+        siteDomainPlaceholder: "Domain (e.g. bbc.com)",
+        siteNamePlaceholder: "Display name",
+        siteLanguagePlaceholder: "Language",
+        defaultSiteLanguage: "English",
+        addSite: "Add site",
+        summarizing: "Summarizing...",
+        getSummary: "Get Summary",
+        getSiteSummary: "Summarize Selected Sites",
+        collapseRepeated: "Collapse repeated stories",
+        markAllRead: (count: number) => `Mark all as read (${count})`,
+        noMatches: "No briefings match your search.",
+        selectCountryAndCategory: "Please select a country and a category.",
+        enterTopic: "Please type a topic.",
+        selectSite: "Please select at least one news site.",
+        invalidDomain: "Please enter a valid domain (e.g. bbc.com).",
+        duplicateSite: "This site is already in your list.",
+        summaryFailed: "Something went wrong while fetching the summary. Please try again.",
+        invalidBriefingLink: "The country or category in the link was not recognized; no briefing was started.",
+        linkedResultMissing: "The briefing in the link is not on this device; it may have been deleted or saved on another device.",
+        topicFailed: "Something went wrong while summarizing the topic. Please try again.",
+        questionFailed: "Something went wrong while answering your question. Please try again.",
+    },
+    discover: {
+        title: "Discover",
+        description: "Pick one of the topics below to discover current essays, art and criticism from around the world.",
+        failed: "Something went wrong while fetching the content. Please try again.",
+    },
+    favorites: {
+        title: "Favorite Stories",
+        noMatches: "No favorites match your search.",
+        remove: "Remove from favorites",
+        empty: "You have no favorite stories yet.",
+        collections: "Collections",
+        allCollections: "All favorites",
+        newCollectionPlaceholder: "New collection",
+        createCollection: "Create collection",
+        renameCollection: "Rename collection",
+        renamePrompt: "New name for the collection:",
+        deleteCollection: "Delete collection",
+        confirmDeleteCollection: (name: string) => `Delete the collection "${name}"? The favorites in it are kept.`,
+        collectionNameProblem: {
+            empty: "Please enter a name.",
+            duplicate: "A collection with this name already exists.",
+        },
+        noCollections: "No collections yet.",
+        emptyCollection: "This collection has no favorites.",
+        exportDossier: "Download as reading dossier",
+        dossierFileName: "Reading dossier",
+        tags: "Tags",
+        allTags: "All tags",
+        addTagPlaceholder: "Add tag",
+        removeTag: (tag: string) => `Remove tag "${tag}"`,
+        note: "Note",
+        notePlaceholder: "Your notes on this story…",
+        openResult: "Open briefing",
+        copyLink: "Copy link",
+        copyLinkTitle: "Copy the link to this favorite",
+        linkCopied: "Copied",
+        copyLinkFailed: "Could not copy",
+        resultDeleted: "Briefing deleted",
+    },
+    storage: {
+        loadFailed: "Saved history could not be loaded. Your browser may not allow storage for this site.",
+        nearLimit: "Browser storage is almost full. Consider a shorter retention period or deleting old briefings.",
+        quotaExceeded: "Storage is full: recent changes could not be saved. Clear old briefings in the retention settings.",
+        saveFailed: "Changes could not be saved.",
+        dismiss: "Close",
+        title: "Storage and retention",
+        ageBefore: "Keep briefings",
+        ageAfter: "",
+        forever: "forever",
+        days: (days: number) => `for up to ${plural(days, 'day', 'days')}`,
+        countBefore: "Keep",
+        countAfter: "briefings",
+        unlimited: "all",
+        favoritesKept: "Briefings with favorite stories are never deleted.",
+        usage: (usage: string, quota: string) => ` Space used: ${usage} / ${quota}.`,
+    },
+    result: {
+        changeNew: "New",
+        changeUpdated: "Updated",
+        changeCovered: "Covered before",
+        unread: "Unread",
+        source: "Source:",
+        cancel: "Cancel",
+        delete: "Delete from history",
+        changeSummary: (added: number, updated: number, covered: number) => `Compared with the previous briefing: ${added} new, ${updated} updated, ${covered} repeated.`,
+        playFromHere: "Double-click to listen from this story on",
+        addFavorite: "Add to favorites",
+        searchingSources: "Searching sources...",
+        writing: "Writing...",
+        hideRepeated: "Hide repeated stories",
+        showRepeated: (count: number) => `Show ${plural(count, 'repeated story', 'repeated stories')}`,
+        generating: "Generating...",
+        pause: "Pause",
+        resume: "Resume",
+        listen: "Listen to Briefing",
+        downloadTitle: "Download the briefing as WAV",
+        download: "Download",
+        downloadFailed: "The audio briefing could not be downloaded.",
+        offlineAudio: "Available offline",
+        offlineAudioTitle: "This briefing's audio is stored on this device",
+        saveOffline: "Save offline",
+        saveOfflineTitle: "Generate the audio now and keep it on this device for listening without a connection",
+        savingOffline: "Saving...",
+        saveOfflineFailed: "The audio could not be saved for offline use.",
+        copyLink: "Copy link",
+        copyLinkTitle: "Copy the link to this briefing on this device",
+        linkCopied: "Link copied to the clipboard.",
+        share: "Share",
+        shareTitle: "Create a link with a copy of the briefing that others can open and import",
+        shareCopied: "Share link copied to the clipboard.",
+        copyLinkFailed: "The link could not be copied.",
+        askTitle: "Ask a question about this briefing",
+        ask: "Ask",
+        perspectivesTitle: "Compare how the sources covered the story",
+        perspectives: "Perspectives",
+        itemPerspectives: "Perspectives on this story",
+        progress: "Briefing progress",
+        previous: "Previous story",
+        play: "Play",
+        next: "Next story",
+        stop: "Stop",
+        itemPosition: (index: number, count: number) => `Story ${index}/${count}`,
+        requestedSites: "Selected Sites",
+        siteUsed: "This site was used as a source in the summary",
+        siteMissing: "This site does not appear as a source in the summary",
+        relatedLinks: "Related Links",
+        deepDive: "Read in depth",
+        deepDiveTitle: "Extract a detailed summary, quotes and names from this article",
+        openDeepDive: "Open reading notes",
+        readingArticle: "Reading the article...",
+        deepDiveFailed: "The article could not be read. Please try again.",
+        deepDiveCount: (count: number) => plural(count, 'reading note', 'reading notes'),
+    },
+    citations: {
+        unverifiedTitle: "No supporting source was found for this story",
+        unverified: "Unverified",
+    },
+    perspectives: {
+        title: "Perspectives",
+        scope: "Scope",
+        wholeBriefing: "Whole briefing",
+        analyze: "Compare sources",
+        reanalyze: "Compare again",
+        analyzing: "Comparing sources...",
+        stop: "Stop",
+        failed: "The sources could not be compared. Please try again.",
+        outletCount: (outlets: number, sources: number) => `${plural(outlets, 'outlet', 'outlets')}, ${plural(sources, 'source', 'sources')}`,
+        noFraming: "No assessment could be made for this outlet.",
+        disagreements: "Where the sources disagree",
+        noDisagreements: "No clear factual contradictions were found between the sources.",
+        analyzedAt: (date: string) => `Analyzed: ${date}`,
+        warnings: {
+            noSources: () => "There are no sources to compare for this scope.",
+            singleOutlet: (outlet: string) => `All sources come from a single outlet (${outlet}); other perspectives are not represented.`,
+            singleCountry: (country: string) => `All sources come from a single country (${country}); international perspectives are missing.`,
+        },
+    },
+    chat: {
+        title: "Ask about this briefing",
+        clear: "Clear conversation",
+        answering: "Looking for an answer...",
+        stop: "Stop",
+        placeholder: "e.g. What is the background of this?",
+        inputLabel: "Follow-up question",
+        send: "Send",
+        failed: "The question could not be answered. Please try again.",
+    },
+    reader: {
+        title: "In-Depth Reading",
+        close: "Close",
+        openOriginal: "Open the original article",
+        readAt: (date: string) => `Read: ${date}`,
+        listen: "Listen",
+        pause: "Pause",
+        resume: "Resume",
+        stop: "Stop",
+        generating: "Generating...",
+        synthesisFailed: "The reading notes could not be read aloud.",
+        reread: "Read again",
+        summary: "Summary",
+        quotes: "Key quotes",
+        entities: "Names mentioned",
+        entityKinds: {
+            person: "Person",
+            organization: "Organization",
+            place: "Place",
+            other: "Other",
+        },
+        sources: "Further sources",
+    },
+    timeline: {
+        title: "Timeline",
+        intro: "People, organizations, places and topics that keep coming up in your briefings. Click a name to see every story that mentioned it.",
+        range: "Period",
+        lastDays: (days: number) => `Last ${days} days`,
+        allKinds: "All",
+        kinds: {
+            person: "People",
+            organization: "Organizations",
+            place: "Countries and places",
+            other: "Topics",
+        },
+        pending: (count: number) => `${plural(count, 'briefing has', 'briefings have')} not been processed yet.`,
+        failed: "Some briefings could not be processed; they will be retried later.",
+        empty: "No name came up in more than one story in this period.",
+        mentionCount: (count: number) => plural(count, 'story', 'stories'),
+        dayTitle: (date: string, count: number) => `${date}: ${plural(count, 'story', 'stories')}`,
+        perDay: "By day",
+        perCategory: "By category",
+        mentions: "Stories that mention it",
+        clearFilter: "Clear filter",
+        openResult: "Go to briefing",
+        uncategorized: "Uncategorized",
+        close: "Close",
+    },
+    share: {
+        title: "Shared briefing",
+        import: "Add to my history",
+        openExisting: "Open in my history",
+        dismiss: "Close",
+        readOnly: "This is a copy; nothing is saved until you import it.",
+        problems: {
+            unreadable: "The share link could not be read; it may have been copied incompletely.",
+            unsupportedVersion: "This share link is in an unsupported format.",
+            newerSchemaVersion: "This share link was made by a newer version of the app.",
+            incomplete: "The briefing in the share link is incomplete.",
+        },
+    },
+    player: {
+        synthesisFailed: "The audio briefing could not be generated.",
+        playbackFailed: "The audio could not be played.",
+    },
+    voice: {
+        title: "Voice Request",
+        description: "Hold the button and speak: \"Summarize sports news from Türkiye\", or ask whatever is on your mind.",
+        intentBriefing: (country: string, category: string) => `Briefing: ${country} - ${category}`,
+        intentQuestion: (question: string) => `Question: ${question}`,
+        microphoneDenied: "Microphone access was denied. Allow microphone access in your browser settings to use voice requests.",
+        microphoneMissing: "No microphone is available.",
+        microphoneFailed: "The microphone could not be started.",
+        tooShort: "The recording is too short. Keep the button pressed while you speak.",
+        notUnderstood: "The voice request could not be understood. Please try again.",
+        replyFailed: "The answer could not be read aloud.",
+        listening: "Listening...",
+        understanding: "Understanding...",
+        holdToTalk: "Hold to Talk",
+        cancelHint: "Slide off the button or press Esc to cancel.",
+        stopReading: "Stop Reading",
+        readReply: "Read the answer aloud",
+        confirm: "Create Briefing",
+        discard: "Discard",
+    },
+    podcast: {
+        title: "Podcast Mode",
+        description: (max: number) => `Pick up to ${max} briefings and two hosts will present them as a short morning show.`,
+        writing: "Writing the script...",
+        recording: "Recording...",
+        create: "Create Podcast",
+        download: "Download the podcast",
+        fileName: "News Podcast",
+        showScript: "Show script",
+        failed: "The podcast could not be created. Please try again.",
+    },
+    subscriptions: {
+        title: "Subscriptions",
+        description: "While the app is open, subscriptions refresh on schedule; runs missed while it was closed are caught up on launch.",
+        failed: "Failed",
+        updated: "Updated",
+        neverRun: "Not run yet",
+        runNow: "Refresh now",
+        remove: "Delete subscription",
+        kindNews: "Country and category",
+        kindDiscover: "Discover topic",
+        kindTopic: "Free topic",
+        kindSites: "News sites",
+        topicPlaceholder: "e.g. Central bank interest rate decision",
+        allCategories: "All categories",
+        subscribe: "Subscribe",
+        deletedSites: "deleted sites",
+        sitesMissing: "The subscribed sites no longer exist.",
+        runFailed: "The subscription could not be refreshed.",
+        interval: (minutes: number) => ({
+            60: "Hourly",
+            180: "Every 3 hours",
+            360: "Every 6 hours",
+            720: "Twice a day",
+            1440: "Daily",
+        } as Record<number, string>)[minutes] ?? `Every ${minutes} minutes`,
+    },
+    backup: {
+        title: "Backup and export",
+        backup: "Backup",
+        download: "Download JSON backup",
+        restoreFromFile: "Restore from backup",
+        contents: (results: number, favorites: number) => `${plural(results, 'briefing', 'briefings')}, ${plural(favorites, 'favorite', 'favorites')}`,
+        merge: "Merge with existing",
+        replace: "Replace existing",
+        restore: "Restore",
+        cancel: "Cancel",
+        confirmReplace: "Your current history and favorites will be deleted and replaced with the backup. Continue?",
+        merged: (results: number, favorites: number) => `Merged ${plural(results, 'briefing', 'briefings')} and ${plural(favorites, 'favorite', 'favorites')}.`,
+        restored: (results: number, favorites: number) => `Restored ${plural(results, 'briefing', 'briefings')} and ${plural(favorites, 'favorite', 'favorites')}.`,
+        readFailed: "The backup file could not be read.",
+        exportTitle: "Export as a digest",
+        briefings: "Briefings",
+        favorites: "Favorites",
+        selectAll: "Select all",
+        clearSelection: "Clear selection",
+        noHistory: "History is empty.",
+        noFavorites: "No favorites.",
+        backupFileName: "News Backup",
+        digestFileName: "News Digest",
+        problem: (problem) => {
+            switch (problem.kind) {
+                case 'invalidJson': return "The file is not valid JSON.";
+                case 'notBackup': return "The file is not a backup made by this app.";
+                case 'unsupportedVersion': return "This backup file version is not supported.";
+                case 'invalidSchemaVersion': return `The ${backupRecords[problem.records]} version in the backup is invalid.`;
+                case 'newerSchemaVersion': return `The backup was made by a newer version of the app (${backupRecords[problem.records]} version ${problem.version}).`;
+                case 'missingList': return `The backup has no ${backupRecords[problem.records]} list.`;
+                case 'unreadableRecord': return `${backupRecords[problem.records]} record ${problem.index + 1} in the backup could not be read.`;
+                case 'incompleteRecord': return `${backupRecords[problem.records]} record ${problem.index + 1} in the backup is missing fields.`;
+            }
+        },
+    },
+    digest: {
+        title: "News Digest",
+        created: (date: string) => `Created ${date}`,
+        relatedLinks: "Related links",
+        favorites: "Favorites",
+        dossier: "Reading dossier",
+        dossierSummary: (count: number, date: string) => `Reading dossier · ${plural(count, 'story', 'stories')} · Created ${date}`,
+        source: "Source",
+        tags: "Tags",
+        sources: "Sources",
+    },
+    search: {
+        placeholder: "Search summaries, favorites and source titles",
+        allCountries: "All countries",
+        allCategories: "All categories",
+        allTopics: "All Discover topics",
+        hasAudio: "Audio ready",
+        matchCount: (match: number, total: number) => `Showing ${match} of ${total}`,
+        clear: "Clear filters",
+    },
+    catalogs: {
+        title: "Lists and prompt templates",
+        labels: {
+            countries: "Countries",
+            categories: "Categories",
+            discoverCategories: "Discover topics",
+        },
+        hiddenTitle: "Hidden: not shown in pickers",
+        visibleTitle: "Shown in pickers",
+        moveUp: "Move up",
+        moveDown: "Move down",
+        remove: "Remove",
+        addPlaceholder: "Add new",
+        addLabel: (catalog: string) => `Add to ${catalog}`,
+        add: "Add",
+        reset: "Reset lists to defaults",
+        confirmReset: "Reset the lists to their defaults? Entries you added will be deleted.",
+        nameProblem: {
+            empty: "Please enter a name.",
+            separator: "The name cannot contain \" - \".",
+            duplicate: "This name is already in the list.",
+        },
+    },
+    prompts: {
+        title: "Prompt templates",
+        kinds: {
+            news: "Country and category",
+            discover: "Discover",
+            topic: "Free topic",
+            sites: "News sites",
+            question: "Voice question",
+        },
+        templateLabel: (kind: string) => `${kind} prompt template`,
+        placeholders: {
+            dil: "Briefing language",
+            ülke: "Selected country",
+            bölge: "\"dünyadaki\" or \"<country> ülkesindeki\"",
+            kategori: "Selected category",
+            konu: "Selected or typed topic",
+            siteler: "Instruction restricting the search to the selected sites",
+            soru: "The question asked",
+        },
+        resetTemplate: "Reset to default",
+        unknownPlaceholders: (names: string) => `Unknown placeholder: ${names}. These are left in the prompt as written.`,
+        emptyTemplate: "The default wording is used while the template is empty.",
+        preview: "Preview",
+        sampleTopic: "Central bank interest rate decision",
+        sampleQuestion: "How much did the minimum wage rise?",
+    },
+    errors: {
+        rateLimit: "The Gemini usage limit was reached. Please wait a moment and try again.",
+        safety: "The request was blocked by safety filters. Try a different topic or wording.",
+        empty: "The model returned an empty response. Please try again.",
+        offline: "No internet connection. Try again when the connection is back.",
+        invalidKey: "The API key is invalid or not authorized for this operation. Please check your key.",
+        unavailable: "The Gemini service cannot be reached right now. Please try again shortly.",
+    },
+    catalogNames: {
+        "Dünya": "World",
+        "Türkiye": "Türkiye",
+        "ABD": "USA",
+        "Almanya": "Germany",
+        "İngiltere": "United Kingdom",
+        "Fransa": "France",
+        "Japonya": "Japan",
+        "Rusya": "Russia",
+        "Çin": "China",
+        "Gündem": "Top Stories",
+        "Son Dakika": "Breaking News",
+        "Spor": "Sports",
+        "Teknoloji": "Technology",
+        "Bilim": "Science",
+        "Sanat": "Arts",
+        "Sağlık": "Health",
+        "Eğlence": "Entertainment",
+        "Yorum & Analiz": "Opinion & Analysis",
+        "Edebiyat & Sanat": "Literature & Arts",
+        "Felsefe": "Philosophy",
+        "Popüler Bilim": "Popular Science",
+        "Siyaset": "Politics",
+        "Din": "Religion",
+        "Sinema": "Cinema",
+        "Toplum": "Society",
+        "Psikoloji": "Psychology",
+        "Hukuk": "Law",
+    },
+};
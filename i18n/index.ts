@@ -0,0 +1,44 @@
+import type { Language } from '../types';
+import { tr } from './tr';
+import type { Messages } from './tr';
+import { en } from './en';
+import { de } from './de';
+
+export type { Messages };
+
+export const LANGUAGES: Language[] = ['tr', 'en', 'de'];
+
+export const MESSAGES: Record<Language, Messages> = { tr, en, de };
+
+export const LOCALES: Record<Language, string> = {
+    tr: 'tr-TR',
+    en: 'en-US',
+    de: 'de-DE',
+};
+
+// Each language is listed under its own name so it can be found from any
+// interface language.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    tr: 'Türkçe',
+    en: 'English',
+    de: 'Deutsch',
+};
+
+export function isLanguage(value: unknown): value is Language {
+    return typeof value === 'string' && (LANGUAGES as string[]).includes(value);
+}
+
+export function detectLanguage(): Language {
+    const preferred = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2).toLowerCase();
+    return isLanguage(preferred) ? preferred : 'tr';
+}
+
+export function formatDate(timestamp: number, language: Language, options?: Intl.DateTimeFormatOptions): string {
+    return new Date(timestamp).toLocaleString(LOCALES[language], options);
+}
+
+// Built-in catalog entries are stored under their Turkish names; custom
+// entries are shown as the user typed them.
+export function entryLabel(t: Messages, name: string): string {
+    return t.catalogNames[name] ?? name;
+}
@@ -0,0 +1,457 @@
+import type { CatalogId, EntityKind } from '../types';
+import type { GeminiErrorKind } from '../services/geminiClient';
+import type { BackupProblem } from '../services/backup';
+import type { EntryNameProblem } from '../utils/catalogs';
+import type { CollectionNameProblem } from '../utils/favorites';
+import type { PromptKind } from '../utils/prompts';
+import type { ShareProblem } from '../services/shareLinks';
+
+// The Turkish catalog is the reference: the other languages are type-checked
+// against its shape. Messages that need values are functions.
+
+const backupRecords = { results: 'brifing', favorites: 'favori' };
+
+export const tr = {
+    app: {
+        title: "Gündem Asistanı",
+        tagline: "Anlık haber özetleri ve ufuk açan içerikleri keşfedin.",
+        offline: "Çevrimdışısınız: yeni brifingler alınamıyor. Kayıtlı brifingler, favoriler ve çevrimdışı kaydedilen sesler kullanılabilir.",
+        showOfflineAudio: "Yalnızca çevrimdışı dinlenebilenleri göster",
+        offlineQueue: (count: number) => `Çevrimdışısınız. ${count} istek bağlantı geri geldiğinde gönderilecek.`,
+    },
+    settings: {
+        themeLight: "Açık",
+        themeSepia: "Sepya",
+        themeDark: "Siyah",
+        voice: "Ses",
+        provider: "Servis",
+        providerUnreachable: "sunucuya ulaşılamıyor",
+        uiLanguage: "Arayüz",
+        outputLanguage: "Brifing dili",
+    },
+    tabs: {
+        feed: "Haber Akışı",
+        discover: "Keşfet",
+        favorites: "Favoriler",
+        timeline: "Zaman Çizelgesi",
+    },
+    feed: {
+        country: "Ülke",
+        category: "Kategori",
+        topicTitle: "Serbest Konu",
+        topicDescription: "Ülke ve kategoriye bağlı kalmadan, yazdığınız konudaki son gelişmelerin özetini alın.",
+        topicPlaceholder: "Örn. Merkez Bankası faiz kararı",
+        getTopicSummary: "Konu Özeti Getir",
+        sitesTitle: "Haber Siteleri",
+        sitesDescription: "Güvendiğiniz siteleri ekleyin ve yalnızca seçtiğiniz sitelerden özet alın. Kategori seçimi isteğe bağlıdır.",
+        removeSite: "Siteyi kaldır",
+        siteDomainPlaceholder: "Alan adı (ör. bbc.com)",
+        siteNamePlaceholder: "Görünen ad",
+        siteLanguagePlaceholder: "Dil",
+        defaultSiteLanguage: "Türkçe",
+        addSite: "Site ekle",
+        summarizing: "Özetleniyor...",
+        getSummary: "Özet Getir",
+        getSiteSummary: "Seçili Sitelerden Özet Getir",
+        collapseRepeated: "Tekrar eden haberleri daralt",
+        markAllRead: (count: number) => `Tümünü okundu işaretle (${count})`,
+        noMatches: "Aramanızla eşleşen brifing bulunamadı.",
+        selectCountryAndCategory: "Lütfen bir ülke ve kategori seçin.",
+        enterTopic: "Lütfen bir konu yazın.",
+        selectSite: "Lütfen en az bir haber sitesi seçin.",
+        invalidDomain: "Lütfen geçerli bir alan adı girin (ör. bbc.com).",
+        duplicateSite: "Bu site zaten listenizde.",
+        summaryFailed: "Haber özeti alınırken bir hata oluştu. Lütfen tekrar deneyin.",
+        invalidBriefingLink: "Bağlantıdaki ülke ya da kategori tanınmadı; brifing başlatılmadı.",
+        linkedResultMissing: "Bağlantıdaki brifing bu cihazda bulunamadı; silinmiş ya da başka bir cihazda kaydedilmiş olabilir.",
+        topicFailed: "Konu özeti alınırken bir hata oluştu. Lütfen tekrar deneyin.",
+        questionFailed: "Sorunuz yanıtlanırken bir hata oluştu. Lütfen tekrar deneyin.",
+    },
+    discover: {
+        title: "Keşfet",
+        description: "Aşağıdaki konulardan birini seçerek dünya çapındaki güncel düşünce, sanat ve eleştiri yazılarını keşfedin.",
+        failed: "İçerik getirilirken bir hata oluştu. Lütfen tekrar deneyin.",
+    },
+    favorites: {
+        title: "Favori Haberler",
+        noMatches: "Aramanızla eşleşen favori bulunamadı.",
+        remove: "Favorilerden kaldır",
+        empty: "Henüz favori haberiniz bulunmuyor.",
+        collections: "Koleksiyonlar",
+        allCollections: "Tüm favoriler",
+        newCollectionPlaceholder: "Yeni koleksiyon",
+        createCollection: "Koleksiyon oluştur",
+        renameCollection: "Koleksiyonu yeniden adlandır",
+        renamePrompt: "Koleksiyonun yeni adı:",
+        deleteCollection: "Koleksiyonu sil",
+        confirmDeleteCollection: (name: string) => `"${name}" koleksiyonu silinsin mi? İçindeki favoriler silinmez.`,
+        collectionNameProblem: {
+            empty: "Lütfen bir ad girin.",
+            duplicate: "Bu adda bir koleksiyon zaten var.",
+        } as Record<CollectionNameProblem, string>,
+        noCollections: "Henüz koleksiyon yok.",
+        emptyCollection: "Bu koleksiyonda favori yok.",
+        exportDossier: "Okuma dosyası olarak indir",
+        dossierFileName: "Okuma dosyası",
+        tags: "Etiketler",
+        allTags: "Tüm etiketler",
+        addTagPlaceholder: "Etiket ekle",
+        removeTag: (tag: string) => `"${tag}" etiketini kaldır`,
+        note: "Not",
+        notePlaceholder: "Bu haberle ilgili notlarınız…",
+        openResult: "Brifingi aç",
+        copyLink: "Bağlantıyı kopyala",
+        copyLinkTitle: "Bu favorinin bağlantısını kopyala",
+        linkCopied: "Kopyalandı",
+        copyLinkFailed: "Kopyalanamadı",
+        resultDeleted: "Brifing silinmiş",
+    },
+    storage: {
+        loadFailed: "Kayıtlı geçmiş yüklenemedi. Tarayıcınız bu sitede depolamaya izin vermiyor olabilir.",
+        nearLimit: "Tarayıcı depolama alanı dolmak üzere. Saklama süresini kısaltmayı ya da eski brifingleri silmeyi düşünün.",
+        quotaExceeded: "Depolama alanı dolu: son değişiklikler kaydedilemedi. Saklama ayarlarından eski brifingleri temizleyin.",
+        saveFailed: "Değişiklikler kaydedilemedi.",
+        dismiss: "Kapat",
+        title: "Depolama ve saklama",
+        ageBefore: "En fazla",
+        ageAfter: "sakla",
+        forever: "süresiz",
+        days: (days: number) => `${days} gün`,
+        countBefore: "En fazla",
+        countAfter: "brifing tut",
+        unlimited: "sınırsız",
+        favoritesKept: "Favori haber içeren brifingler hiçbir zaman silinmez.",
+        usage: (usage: string, quota: string) => ` Kullanılan alan: ${usage} / ${quota}.`,
+    },
+    result: {
+        changeNew: "Yeni",
+        changeUpdated: "Güncellendi",
+        changeCovered: "Daha önce verildi",
+        unread: "Okunmadı",
+        source: "Kaynak:",
+        cancel: "İptal",
+        delete: "Geçmişten sil",
+        changeSummary: (added: number, updated: number, covered: number) => `Önceki brifinge göre: ${added} yeni, ${updated} güncellenmiş, ${covered} tekrar eden haber.`,
+        playFromHere: "Bu maddeden itibaren dinlemek için çift tıklayın",
+        addFavorite: "Favorilere ekle",
+        searchingSources: "Kaynaklar taranıyor...",
+        writing: "Yazılıyor...",
+        hideRepeated: "Tekrar eden haberleri gizle",
+        showRepeated: (count: number) => `${count} tekrar eden haberi göster`,
+        generating: "Oluşturuluyor...",
+        pause: "Duraklat",
+        resume: "Devam Et",
+        listen: "Sesli Brifing Dinle",
+        downloadTitle: "Brifingi WAV olarak indir",
+        download: "İndir",
+        downloadFailed: "Sesli brifing indirilemedi.",
+        offlineAudio: "Çevrimdışı dinlenebilir",
+        offlineAudioTitle: "Bu brifingin sesi cihazda kayıtlı",
+        saveOffline: "Çevrimdışı kaydet",
+        saveOfflineTitle: "Bağlantı yokken dinleyebilmek için sesi şimdi oluşturup cihazda sakla",
+        savingOffline: "Kaydediliyor...",
+        saveOfflineFailed: "Ses çevrimdışı kullanım için kaydedilemedi.",
+        copyLink: "Bağlantıyı kopyala",
+        copyLinkTitle: "Bu brifingin bu cihazdaki bağlantısını kopyala",
+        linkCopied: "Bağlantı panoya kopyalandı.",
+        share: "Paylaş",
+        shareTitle: "Brifingin bir kopyasını içeren, başkalarının açıp içe aktarabileceği bir bağlantı oluştur",
+        shareCopied: "Paylaşım bağlantısı panoya kopyalandı.",
+        copyLinkFailed: "Bağlantı kopyalanamadı.",
+        askTitle: "Bu brifing hakkında soru sor",
+        ask: "Sor",
+        perspectivesTitle: "Kaynakların haberi nasıl ele aldığını karşılaştır",
+        perspectives: "Bakış Açıları",
+        itemPerspectives: "Bu haberin bakış açıları",
+        progress: "Brifing ilerlemesi",
+        previous: "Önceki madde",
+        play: "Oynat",
+        next: "Sonraki madde",
+        stop: "Durdur",
+        itemPosition: (index: number, count: number) => `Madde ${index}/${count}`,
+        requestedSites: "Seçilen Siteler",
+        siteUsed: "Bu site özette kaynak olarak kullanıldı",
+        siteMissing: "Bu site özette kaynak olarak görünmüyor",
+        relatedLinks: "İlgili Bağlantılar",
+        deepDive: "Derinlemesine oku",
+        deepDiveTitle: "Bu makalenin ayrıntılı özetini, alıntılarını ve geçen adları çıkar",
+        openDeepDive: "Okuma notunu aç",
+        readingArticle: "Makale okunuyor...",
+        deepDiveFailed: "Makale okunamadı. Lütfen tekrar deneyin.",
+        deepDiveCount: (count: number) => `${count} okuma notu`,
+    },
+    citations: {
+        unverifiedTitle: "Bu madde için destekleyici bir kaynak bulunamadı",
+        unverified: "Doğrulanmadı",
+    },
+    perspectives: {
+        title: "Bakış Açıları",
+        scope: "Kapsam",
+        wholeBriefing: "Tüm brifing",
+        analyze: "Kaynakları karşılaştır",
+        reanalyze: "Yeniden karşılaştır",
+        analyzing: "Kaynaklar karşılaştırılıyor...",
+        stop: "Durdur",
+        failed: "Kaynaklar karşılaştırılamadı. Lütfen tekrar deneyin.",
+        outletCount: (outlets: number, sources: number) => `${outlets} yayın kuruluşu, ${sources} kaynak`,
+        noFraming: "Bu kuruluş için bir değerlendirme yapılamadı.",
+        disagreements: "Kaynakların ayrıştığı noktalar",
+        noDisagreements: "Kaynaklar arasında belirgin bir olgu çelişkisi bulunmadı.",
+        analyzedAt: (date: string) => `Analiz: ${date}`,
+        warnings: {
+            noSources: () => "Bu kapsam için karşılaştırılacak kaynak yok.",
+            singleOutlet: (outlet: string) => `Tüm kaynaklar tek bir yayın kuruluşundan geliyor (${outlet}); farklı bakış açıları temsil edilmiyor.`,
+            singleCountry: (country: string) => `Tüm kaynaklar tek bir ülkeden geliyor (${country}); uluslararası bakış açıları eksik.`,
+        },
+    },
+    chat: {
+        title: "Bu brifing hakkında sor",
+        clear: "Sohbeti temizle",
+        answering: "Yanıt aranıyor...",
+        stop: "Durdur",
+        placeholder: "Örn. Bu gelişmenin arka planı ne?",
+        inputLabel: "Takip sorusu",
+        send: "Gönder",
+        failed: "Soru yanıtlanamadı. Lütfen tekrar deneyin.",
+    },
+    reader: {
+        title: "Derinlemesine Okuma",
+        close: "Kapat",
+        openOriginal: "Orijinal makaleyi aç",
+        readAt: (date: string) => `Okundu: ${date}`,
+        listen: "Sesli dinle",
+        pause: "Duraklat",
+        resume: "Devam Et",
+        stop: "Durdur",
+        generating: "Oluşturuluyor...",
+        synthesisFailed: "Okuma notu seslendirilemedi.",
+        reread: "Yeniden oku",
+        summary: "Özet",
+        quotes: "Öne çıkan alıntılar",
+        entities: "Geçen adlar",
+        entityKinds: {
+            person: "Kişi",
+            organization: "Kurum",
+            place: "Yer",
+            other: "Diğer",
+        } as Record<EntityKind, string>,
+        sources: "Ek kaynaklar",
+    },
+    timeline: {
+        title: "Zaman Çizelgesi",
+        intro: "Brifinglerde tekrar tekrar geçen kişiler, kurumlar, yerler ve konular. Bir ada tıklayarak geçtiği tüm haberleri görün.",
+        range: "Dönem",
+        lastDays: (days: number) => `Son ${days} gün`,
+        allKinds: "Tümü",
+        kinds: {
+            person: "Kişiler",
+            organization: "Kurumlar",
+            place: "Ülke ve yerler",
+            other: "Konular",
+        } as Record<EntityKind, string>,
+        pending: (count: number) => `${count} brifing henüz işlenmedi.`,
+        failed: "Bazı brifingler işlenemedi; daha sonra tekrar denenecek.",
+        empty: "Bu dönemde birden fazla haberde geçen bir ad yok.",
+        mentionCount: (count: number) => `${count} haber`,
+        dayTitle: (date: string, count: number) => `${date}: ${count} haber`,
+        perDay: "Günlere göre",
+        perCategory: "Kategorilere göre",
+        mentions: "Geçtiği haberler",
+        clearFilter: "Filtreyi kaldır",
+        openResult: "Brifinge git",
+        uncategorized: "Kategorisiz",
+        close: "Kapat",
+    },
+    share: {
+        title: "Paylaşılan brifing",
+        import: "Geçmişime ekle",
+        openExisting: "Geçmişimde aç",
+        dismiss: "Kapat",
+        readOnly: "Bu bir kopyadır; içe aktarana kadar hiçbir şey kaydedilmez.",
+        problems: {
+            unreadable: "Paylaşım bağlantısı okunamadı; eksik kopyalanmış olabilir.",
+            unsupportedVersion: "Bu paylaşım bağlantısı desteklenmeyen bir biçimde.",
+            newerSchemaVersion: "Bu paylaşım bağlantısı uygulamanın daha yeni bir sürümüyle oluşturulmuş.",
+            incomplete: "Paylaşım bağlantısındaki brifing eksik.",
+        } as Record<ShareProblem, string>,
+    },
+    player: {
+        synthesisFailed: "Sesli brifing oluşturulamadı.",
+        playbackFailed: "Ses çalınamadı.",
+    },
+    voice: {
+        title: "Sesli İstek",
+        description: "Düğmeyi basılı tutup konuşun: \"Türkiye spor haberlerini özetle\" ya da aklınızdaki soruyu sorun.",
+        intentBriefing: (country: string, category: string) => `Brifing: ${country} - ${category}`,
+        intentQuestion: (question: string) => `Soru: ${question}`,
+        microphoneDenied: "Mikrofon izni reddedildi. Sesli istek için tarayıcı ayarlarından mikrofon erişimine izin verin.",
+        microphoneMissing: "Kullanılabilir bir mikrofon bulunamadı.",
+        microphoneFailed: "Mikrofon başlatılamadı.",
+        tooShort: "Kayıt çok kısa. Konuşurken düğmeyi basılı tutun.",
+        notUnderstood: "Sesli istek anlaşılamadı. Lütfen tekrar deneyin.",
+        replyFailed: "Yanıt sesli okunamadı.",
+        listening: "Dinleniyor...",
+        understanding: "Anlaşılıyor...",
+        holdToTalk: "Basılı Tut ve Konuş",
+        cancelHint: "İptal etmek için parmağınızı düğmeden kaydırın ya da Esc tuşuna basın.",
+        stopReading: "Okumayı Durdur",
+        readReply: "Yanıtı sesli oku",
+        confirm: "Brifingi Oluştur",
+        discard: "Vazgeç",
+    },
+    podcast: {
+        title: "Podcast Modu",
+        description: (max: number) => `En fazla ${max} brifing seçin; iki sunucu bunları kısa bir sabah programı olarak anlatsın.`,
+        writing: "Senaryo yazılıyor...",
+        recording: "Seslendiriliyor...",
+        create: "Podcast Oluştur",
+        download: "Podcast'i indir",
+        fileName: "Gündem Podcast",
+        showScript: "Senaryoyu göster",
+        failed: "Podcast oluşturulamadı. Lütfen tekrar deneyin.",
+    },
+    subscriptions: {
+        title: "Abonelikler",
+        description: "Uygulama açıkken abonelikler zamanı geldiğinde kendiliğinden yenilenir; kapalıyken kaçırılanlar açılışta tamamlanır.",
+        failed: "Başarısız",
+        updated: "Güncellendi",
+        neverRun: "Henüz çalışmadı",
+        runNow: "Şimdi yenile",
+        remove: "Aboneliği sil",
+        kindNews: "Ülke ve kategori",
+        kindDiscover: "Keşfet konusu",
+        kindTopic: "Serbest konu",
+        kindSites: "Haber siteleri",
+        topicPlaceholder: "Örn. Merkez Bankası faiz kararı",
+        allCategories: "Tüm kategoriler",
+        subscribe: "Abone Ol",
+        deletedSites: "silinmiş siteler",
+        sitesMissing: "Abone olunan siteler artık yok.",
+        runFailed: "Abonelik yenilenemedi.",
+        interval: (minutes: number) => ({
+            60: "Saatte bir",
+            180: "3 saatte bir",
+            360: "6 saatte bir",
+            720: "Günde iki kez",
+            1440: "Günde bir",
+        } as Record<number, string>)[minutes] ?? `${minutes} dakikada bir`,
+    },
+    backup: {
+        title: "Yedekleme ve dışa aktarma",
+        backup: "Yedek",
+        download: "JSON yedeği indir",
+        restoreFromFile: "Yedekten geri yükle",
+        contents: (results: number, favorites: number) => `${results} brifing, ${favorites} favori`,
+        merge: "Mevcutlarla birleştir",
+        replace: "Mevcutların yerine koy",
+        restore: "Geri Yükle",
+        cancel: "Vazgeç",
+        confirmReplace: "Mevcut geçmiş ve favoriler silinip yedektekilerle değiştirilecek. Devam edilsin mi?",
+        merged: (results: number, favorites: number) => `${results} brifing ve ${favorites} favori birleştirildi.`,
+        restored: (results: number, favorites: number) => `${results} brifing ve ${favorites} favori geri yüklendi.`,
+        readFailed: "Yedek dosyası okunamadı.",
+        exportTitle: "Özet olarak dışa aktar",
+        briefings: "Brifingler",
+        favorites: "Favoriler",
+        selectAll: "Tümünü seç",
+        clearSelection: "Seçimi kaldır",
+        noHistory: "Geçmiş boş.",
+        noFavorites: "Favori yok.",
+        backupFileName: "Gündem Yedek",
+        digestFileName: "Gündem Özeti",
+        problem: (problem: BackupProblem): string => {
+            switch (problem.kind) {
+                case 'invalidJson': return "Dosya geçerli bir JSON dosyası değil.";
+                case 'notBackup': return "Dosya bu uygulamaya ait bir yedek değil.";
+                case 'unsupportedVersion': return "Yedek dosyasının sürümü desteklenmiyor.";
+                case 'invalidSchemaVersion': return `Yedekteki ${backupRecords[problem.records]} sürümü geçersiz.`;
+                case 'newerSchemaVersion': return `Yedek, uygulamanın daha yeni bir sürümüyle oluşturulmuş (${backupRecords[problem.records]} sürümü ${problem.version}).`;
+                case 'missingList': return `Yedekte ${backupRecords[problem.records]} listesi bulunamadı.`;
+                case 'unreadableRecord': return `Yedekteki ${problem.index + 1}. ${backupRecords[problem.records]} kaydı okunamadı.`;
+                case 'incompleteRecord': return `Yedekteki ${problem.index + 1}. ${backupRecords[problem.records]} kaydında eksik alanlar var.`;
+            }
+        },
+    },
+    digest: {
+        title: "Gündem Özeti",
+        created: (date: string) => `Oluşturulma: ${date}`,
+        relatedLinks: "İlgili Bağlantılar",
+        favorites: "Favoriler",
+        dossier: "Okuma dosyası",
+        dossierSummary: (count: number, date: string) => `Okuma dosyası · ${count} haber · Oluşturulma: ${date}`,
+        source: "Kaynak",
+        tags: "Etiketler",
+        sources: "Kaynaklar",
+    },
+    search: {
+        placeholder: "Özetlerde, favorilerde ve kaynak başlıklarında ara",
+        allCountries: "Tüm ülkeler",
+        allCategories: "Tüm kategoriler",
+        allTopics: "Tüm Keşfet konuları",
+        hasAudio: "Sesi hazır olanlar",
+        matchCount: (match: number, total: number) => `${total} kayıttan ${match} tanesi gösteriliyor`,
+        clear: "Filtreleri temizle",
+    },
+    catalogs: {
+        title: "Listeler ve istem şablonları",
+        labels: {
+            countries: "Ülkeler",
+            categories: "Kategoriler",
+            discoverCategories: "Keşfet konuları",
+        } as Record<CatalogId, string>,
+        hiddenTitle: "Gizli: seçim listelerinde görünmez",
+        visibleTitle: "Seçim listelerinde görünür",
+        moveUp: "Yukarı taşı",
+        moveDown: "Aşağı taşı",
+        remove: "Kaldır",
+        addPlaceholder: "Yeni ekle",
+        addLabel: (catalog: string) => `${catalog} listesine ekle`,
+        add: "Ekle",
+        reset: "Listeleri varsayılana döndür",
+        confirmReset: "Listeler varsayılan haline dönsün mü? Eklediğiniz girişler silinir.",
+        nameProblem: {
+            empty: "Lütfen bir ad girin.",
+            separator: "Ad \" - \" içeremez.",
+            duplicate: "Bu ad listede zaten var.",
+        } as Record<EntryNameProblem, string>,
+    },
+    prompts: {
+        title: "İstem şablonları",
+        kinds: {
+            news: "Ülke ve kategori",
+            discover: "Keşfet",
+            topic: "Serbest konu",
+            sites: "Haber siteleri",
+            question: "Sesli soru",
+        } as Record<PromptKind, string>,
+        templateLabel: (kind: string) => `${kind} istem şablonu`,
+        placeholders: {
+            dil: "Brifing dili",
+            ülke: "Seçilen ülke",
+            bölge: "\"dünyadaki\" ya da \"<ülke> ülkesindeki\"",
+            kategori: "Seçilen kategori",
+            konu: "Seçilen ya da yazılan konu",
+            siteler: "Aramayı seçilen sitelerle sınırlayan talimat",
+            soru: "Sorulan soru",
+        } as Record<string, string>,
+        resetTemplate: "Varsayılana dön",
+        unknownPlaceholders: (names: string) => `Bilinmeyen yer tutucu: ${names}. Bunlar istemde olduğu gibi kalır.`,
+        emptyTemplate: "Şablon boşken varsayılan metin kullanılır.",
+        preview: "Önizleme",
+        sampleTopic: "Merkez Bankası faiz kararı",
+        sampleQuestion: "Asgari ücret ne kadar arttı?",
+    },
+    errors: {
+        rateLimit: "Gemini kullanım sınırına ulaşıldı. Lütfen biraz bekleyip tekrar deneyin.",
+        safety: "İstek güvenlik filtrelerine takıldığı için yanıtlanmadı. Farklı bir konu ya da ifade deneyin.",
+        empty: "Model boş bir yanıt döndürdü. Lütfen tekrar deneyin.",
+        offline: "İnternet bağlantısı yok. Bağlantı geri geldiğinde tekrar deneyin.",
+        invalidKey: "API anahtarı geçersiz ya da bu işlem için yetkisiz. Lütfen anahtarınızı kontrol edin.",
+        unavailable: "Gemini hizmetine şu anda ulaşılamıyor. Lütfen birazdan tekrar deneyin.",
+    } as Record<Exclude<GeminiErrorKind, 'unknown'>, string>,
+    // Display names for the built-in catalog entries. The stored names are
+    // Turkish, so this catalog needs none.
+    catalogNames: {} as Record<string, string>,
+};
+
+export type Messages = typeof tr;
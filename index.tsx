@@ -1,3 +1,4 @@
+/// <reference types="vite/client" />
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
@@ -13,3 +14,11 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// The service worker keeps the app shell available offline; see sw.js. Only
+// a build has one: under the dev server it would cache modules mid-edit.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error("Service worker registration failed", error));
+  });
+}
@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { request } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createProxyServer } from './app.js';
+import type { ProxyOptions } from './app.js';
+import { createStubUpstream } from './upstream.js';
+import type { HealthResponseBody, ProxyErrorBody, ProxyResponse } from './protocol.js';
+
+// Runs the proxy against the stub upstream, as `npm run server:stub` does,
+// and calls every endpoint over HTTP.
+
+interface RunningProxy {
+    url: string;
+    close: () => Promise<void>;
+}
+
+function startProxy(overrides: Partial<ProxyOptions> = {}): Promise<RunningProxy> {
+    const server: Server = createProxyServer({
+        upstream: createStubUpstream(),
+        rateLimitPerMinute: 100,
+        summaryCacheTtlMs: 60_000,
+        trustProxy: false,
+        ...overrides,
+    });
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                close: () => new Promise(done => {
+                    server.closeAllConnections();
+                    server.close(() => done());
+                }),
+            });
+        });
+    });
+}
+
+const post = (url: string, body: unknown) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+});
+
+const responseText = (response: ProxyResponse) => response.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+
+describe('proxy server with the stub upstream', () => {
+    let proxy: RunningProxy;
+
+    beforeAll(async () => {
+        proxy = await startProxy();
+    });
+
+    afterAll(() => proxy.close());
+
+    it('reports the stub upstream on /api/health', async () => {
+        const response = await fetch(`${proxy.url}/api/health`);
+        expect(response.status).toBe(200);
+        expect(await response.json() as HealthResponseBody).toEqual({ gemini: true, upstream: 'stub' });
+    });
+
+    it('streams a summary and answers the same prompt from the cache', async () => {
+        const first = await post(`${proxy.url}/api/summarize`, { prompt: "Gündem özeti" });
+        expect(first.status).toBe(200);
+        expect(first.headers.get('x-cache')).toBe('MISS');
+        const lines = (await first.text()).trim().split('\n').map(line => JSON.parse(line) as ProxyResponse);
+        const text = lines.map(line => line.text ?? '').join('');
+        expect(text).toContain("### Stub: Örnek gündem başlığı");
+        expect(lines[lines.length - 1].candidates?.[0]?.groundingMetadata?.groundingChunks).toHaveLength(1);
+
+        const second = await post(`${proxy.url}/api/summarize`, { prompt: "Gündem özeti" });
+        expect(second.headers.get('x-cache')).toBe('HIT');
+        const [cached] = (await second.text()).trim().split('\n').map(line => JSON.parse(line) as ProxyResponse);
+        expect(cached.text).toBe(text);
+    });
+
+    it('returns audio from /api/speech', async () => {
+        const response = await post(`${proxy.url}/api/speech`, { text: "Merhaba", voiceName: 'Kore', languageCode: 'tr-TR' });
+        expect(response.status).toBe(200);
+        const body = await response.json() as ProxyResponse;
+        const inlineData = body.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+        expect(inlineData?.mimeType).toMatch(/^audio\/L16/);
+        expect(inlineData?.data?.length).toBeGreaterThan(0);
+    });
+
+    it('returns JSON from /api/structured', async () => {
+        const response = await post(`${proxy.url}/api/structured`, { contents: "Sesli istek", responseSchema: { type: 'OBJECT' } });
+        expect(response.status).toBe(200);
+        expect(JSON.parse(responseText(await response.json() as ProxyResponse))).toMatchObject({ kind: 'briefing' });
+    });
+
+    it('answers a grounded question on /api/chat', async () => {
+        const response = await post(`${proxy.url}/api/chat`, { context: "Brifing", messages: [{ role: 'user', text: "Neden?" }] });
+        expect(response.status).toBe(200);
+        const body = await response.json() as ProxyResponse;
+        expect(responseText(body)).toContain("Stub");
+        expect(body.candidates?.[0]?.groundingMetadata?.groundingChunks).toHaveLength(1);
+    });
+
+    it('reads a page on /api/article', async () => {
+        const response = await post(`${proxy.url}/api/article`, { uri: 'https://example.com/news', prompt: "Özetle" });
+        expect(response.status).toBe(200);
+        expect(responseText(await response.json() as ProxyResponse)).toContain("Stub");
+    });
+
+    it('rejects unknown paths, other methods and invalid bodies', async () => {
+        expect((await fetch(`${proxy.url}/api/unknown`)).status).toBe(404);
+        expect((await fetch(`${proxy.url}/api/chat`)).status).toBe(405);
+        const invalid = await post(`${proxy.url}/api/article`, { uri: 'file:///etc/passwd', prompt: "Özetle" });
+        expect(invalid.status).toBe(400);
+        expect((await invalid.json() as ProxyErrorBody).error.message).toContain('http(s)');
+    });
+
+    it('passes upstream errors through with their status', async () => {
+        const response = await post(`${proxy.url}/api/structured`, { contents: "[stub:503]", responseSchema: { type: 'OBJECT' } });
+        expect(response.status).toBe(503);
+        expect((await response.json() as ProxyErrorBody).error.status).toBe(503);
+    });
+
+    it('answers an oversized body with 413', async () => {
+        // Declares a body over the limit without sending it.
+        const { url } = proxy;
+        const status = await new Promise<number | undefined>((resolve, reject) => {
+            const req = request(`${url}/api/summarize`, { method: 'POST', headers: { 'Content-Length': String(16 * 1024 * 1024) } }, res => {
+                res.resume();
+                resolve(res.statusCode);
+            });
+            req.on('error', reject);
+            req.write('{');
+        });
+        expect(status).toBe(413);
+    });
+});
+
+describe('proxy rate limit', () => {
+    it('answers requests past the limit with 429 and Retry-After', async () => {
+        const proxy = await startProxy({ rateLimitPerMinute: 1 });
+        try {
+            expect((await post(`${proxy.url}/api/structured`, { contents: "Bir", responseSchema: { type: 'OBJECT' } })).status).toBe(200);
+            const limited = await post(`${proxy.url}/api/structured`, { contents: "İki", responseSchema: { type: 'OBJECT' } });
+            expect(limited.status).toBe(429);
+            expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+        } finally {
+            await proxy.close();
+        }
+    });
+});
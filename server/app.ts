@@ -0,0 +1,319 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { ApiError, Modality } from '@google/genai';
+import type { GenerateContentParameters, GroundingMetadata } from '@google/genai';
+import { ClientRateLimiter } from './rateLimiter.js';
+import { ResponseCache } from './responseCache.js';
+import type { Upstream } from './upstream.js';
+import type { ArticleRequestBody, ChatRequestBody, HealthResponseBody, ProxyErrorBody, ProxyResponse, SpeechRequestBody, StructuredRequestBody, SummarizeRequestBody } from './protocol.js';
+
+// The API the browser talks to. It holds the Gemini key and builds the model
+// configuration itself: clients send prompts, but cannot pick the model,
+// tools or generation settings. Anyone who can reach the proxy can still
+// spend the key on prompts of their own, within the size limits and each
+// client's request rate, so it should only be reachable by the app's users.
+// Completed summaries are cached.
+
+export interface ProxyOptions {
+    upstream: Upstream;
+    rateLimitPerMinute: number;
+    summaryCacheTtlMs: number;
+    // Identify clients by X-Forwarded-For; only safe behind a trusted proxy.
+    trustProxy: boolean;
+}
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const MAX_BODY_BYTES = 15 * 1024 * 1024;
+const MAX_PROMPT_LENGTH = 20_000;
+const MAX_CHAT_MESSAGES = 40;
+const MAX_URI_LENGTH = 2048;
+const SUMMARY_CACHE_ENTRIES = 200;
+
+class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+// An oversized body is left unread: the request is paused so the 413 can
+// still be sent, and the connection is closed after it (see below).
+function readJson(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const rejectTooLarge = () => {
+            req.removeAllListeners('data');
+            req.pause();
+            reject(new HttpError(413, "Request body too large."));
+        };
+        if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+            rejectTooLarge();
+            return;
+        }
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                rejectTooLarge();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch {
+                reject(new HttpError(400, "Request body is not valid JSON."));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function errorBody(error: unknown): ProxyErrorBody {
+    if (error instanceof HttpError || error instanceof ApiError) {
+        return { error: { status: error.status, message: error.message } };
+    }
+    console.error("Proxy request failed:", error);
+    return { error: { status: 502, message: "Upstream request failed." } };
+}
+
+function sendError(res: ServerResponse, error: unknown): void {
+    const body = errorBody(error);
+    sendJson(res, body.error.status, body);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function requireString(value: unknown, field: string, maxLength = MAX_PROMPT_LENGTH): string {
+    if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" must be a non-empty string.`);
+    if (value.length > maxLength) throw new HttpError(400, `"${field}" is too long.`);
+    return value;
+}
+
+function parseSummarize(body: unknown): SummarizeRequestBody {
+    if (!isRecord(body)) throw new HttpError(400, "Expected a JSON object.");
+    return { prompt: requireString(body.prompt, 'prompt') };
+}
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+function parseSpeech(body: unknown): SpeechRequestBody {
+    if (!isRecord(body)) throw new HttpError(400, "Expected a JSON object.");
+    const text = requireString(body.text, 'text');
+    const languageCode = body.languageCode as string | undefined;
+    if (languageCode !== undefined && (typeof languageCode !== 'string' || !LANGUAGE_CODE.test(languageCode))) {
+        throw new HttpError(400, '"languageCode" must be a language tag such as "tr-TR".');
+    }
+    if (body.speakers !== undefined) {
+        const speakers = body.speakers;
+        if (!Array.isArray(speakers) || speakers.length !== 2
+            || !speakers.every(entry => isRecord(entry) && typeof entry.speaker === 'string' && typeof entry.voiceName === 'string')) {
+            throw new HttpError(400, '"speakers" must list exactly two { speaker, voiceName } entries.');
+        }
+        return { text, speakers: speakers as SpeechRequestBody['speakers'], languageCode };
+    }
+    return { text, voiceName: requireString(body.voiceName, 'voiceName', 64), languageCode };
+}
+
+function parseStructured(body: unknown): StructuredRequestBody {
+    if (!isRecord(body)) throw new HttpError(400, "Expected a JSON object.");
+    const { contents, responseSchema } = body;
+    const validParts = Array.isArray(contents) && contents.length > 0 && contents.every(part => isRecord(part)
+        && (typeof part.text === 'string' || (isRecord(part.inlineData) && typeof part.inlineData.mimeType === 'string' && typeof part.inlineData.data === 'string')));
+    if (typeof contents !== 'string' && !validParts) throw new HttpError(400, '"contents" must be a prompt or a list of parts.');
+    if (!isRecord(responseSchema)) throw new HttpError(400, '"responseSchema" must be an object.');
+    return { contents: contents as StructuredRequestBody['contents'], responseSchema };
+}
+
+function parseChat(body: unknown): ChatRequestBody {
+    if (!isRecord(body)) throw new HttpError(400, "Expected a JSON object.");
+    const { messages } = body;
+    if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_CHAT_MESSAGES
+        || !messages.every(message => isRecord(message) && (message.role === 'user' || message.role === 'model') && typeof message.text === 'string')) {
+        throw new HttpError(400, `"messages" must hold 1 to ${MAX_CHAT_MESSAGES} { role, text } entries.`);
+    }
+    if (messages[messages.length - 1].role !== 'user') throw new HttpError(400, "The last message must be from the user.");
+    return { context: requireString(body.context, 'context'), messages: messages as ChatRequestBody['messages'] };
+}
+
+function parseArticle(body: unknown): ArticleRequestBody {
+    if (!isRecord(body)) throw new HttpError(400, "Expected a JSON object.");
+    const uri = requireString(body.uri, 'uri', MAX_URI_LENGTH);
+    let protocol: string;
+    try {
+        protocol = new URL(uri).protocol;
+    } catch {
+        throw new HttpError(400, '"uri" must be a URL.');
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') throw new HttpError(400, '"uri" must be an http(s) URL.');
+    return { uri, prompt: requireString(body.prompt, 'prompt') };
+}
+
+function clientId(req: IncomingMessage, trustProxy: boolean): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded) return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+interface CachedSummary {
+    text: string;
+    groundingMetadata?: GroundingMetadata;
+}
+
+export function createProxyServer(options: ProxyOptions): Server {
+    const { upstream } = options;
+    const limiter = new ClientRateLimiter(options.rateLimitPerMinute, 60_000);
+    const summaryCache = new ResponseCache<CachedSummary>(options.summaryCacheTtlMs, SUMMARY_CACHE_ENTRIES);
+    setInterval(() => limiter.prune(), 60_000).unref();
+
+    async function handleSummarize(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+        const { prompt } = parseSummarize(await readJson(req));
+        const writeLine = (line: ProxyResponse | ProxyErrorBody) => res.write(`${JSON.stringify(line)}\n`);
+        const startStream = (cache: 'HIT' | 'MISS') => res.writeHead(200, {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-store',
+            'X-Cache': cache,
+        });
+
+        const cached = summaryCache.get(prompt);
+        if (cached) {
+            startStream('HIT');
+            writeLine({ text: cached.text, candidates: [{ content: { parts: [{ text: cached.text }] }, groundingMetadata: cached.groundingMetadata }] });
+            res.end();
+            return;
+        }
+
+        const stream = await upstream.generateContentStream({
+            model: TEXT_MODEL,
+            contents: prompt,
+            config: { tools: [{ googleSearch: {} }], abortSignal: signal },
+        });
+        startStream('MISS');
+        let text = '';
+        let groundingMetadata: GroundingMetadata | undefined;
+        let blocked = false;
+        try {
+            for await (const chunk of stream) {
+                text += chunk.text ?? '';
+                groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+                blocked = blocked || Boolean(chunk.promptFeedback?.blockReason) || chunk.candidates?.[0]?.finishReason === 'SAFETY';
+                writeLine(chunk);
+            }
+        } catch (error) {
+            if (!signal.aborted) writeLine(errorBody(error));
+            res.end();
+            return;
+        }
+        if (text.trim() && !blocked) summaryCache.set(prompt, { text, groundingMetadata });
+        res.end();
+    }
+
+    async function handleSpeech(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+        const body = parseSpeech(await readJson(req));
+        const speechConfig = body.speakers
+            ? { multiSpeakerVoiceConfig: { speakerVoiceConfigs: body.speakers.map(({ speaker, voiceName }) => ({ speaker, voiceConfig: { prebuiltVoiceConfig: { voiceName } } })) }, languageCode: body.languageCode }
+            : { voiceConfig: { prebuiltVoiceConfig: { voiceName: body.voiceName } }, languageCode: body.languageCode };
+        const response = await upstream.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text: body.text }] }],
+            config: { responseModalities: [Modality.AUDIO], speechConfig, abortSignal: signal },
+        });
+        sendJson(res, 200, response);
+    }
+
+    async function handleStructured(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+        const body = parseStructured(await readJson(req));
+        const params: GenerateContentParameters = {
+            model: TEXT_MODEL,
+            contents: typeof body.contents === 'string' ? body.contents : [{ parts: body.contents }],
+            config: { responseMimeType: 'application/json', responseSchema: body.responseSchema, abortSignal: signal },
+        };
+        sendJson(res, 200, await upstream.generateContent(params));
+    }
+
+    async function handleChat(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+        const body = parseChat(await readJson(req));
+        const response = await upstream.generateContent({
+            model: TEXT_MODEL,
+            contents: body.messages.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+            config: { tools: [{ googleSearch: {} }], systemInstruction: body.context, abortSignal: signal },
+        });
+        sendJson(res, 200, response);
+    }
+
+    // URL context reads the page itself; search covers pages it cannot
+    // fetch, such as grounding redirect links that have expired.
+    async function handleArticle(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+        const body = parseArticle(await readJson(req));
+        const response = await upstream.generateContent({
+            model: TEXT_MODEL,
+            contents: `${body.prompt}\n\n${body.uri}`,
+            config: { tools: [{ urlContext: {} }, { googleSearch: {} }], abortSignal: signal },
+        });
+        sendJson(res, 200, response);
+    }
+
+    const routes: Record<string, (req: IncomingMessage, res: ServerResponse, signal: AbortSignal) => Promise<void>> = {
+        '/api/summarize': handleSummarize,
+        '/api/speech': handleSpeech,
+        '/api/structured': handleStructured,
+        '/api/chat': handleChat,
+        '/api/article': handleArticle,
+    };
+
+    return createServer(async (req, res) => {
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        if (req.method === 'GET' && path === '/api/health') {
+            const body: HealthResponseBody = { gemini: true, upstream: upstream.kind };
+            sendJson(res, 200, body);
+            return;
+        }
+        const handler = routes[path];
+        if (!handler) {
+            sendError(res, new HttpError(404, "Not found."));
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendError(res, new HttpError(405, "Method not allowed."));
+            return;
+        }
+
+        const waitMs = limiter.take(clientId(req, options.trustProxy));
+        if (waitMs > 0) {
+            const seconds = Math.ceil(waitMs / 1000);
+            sendJson(res, 429, errorBody(new HttpError(429, `Too many requests from this client, retry in ${seconds}s.`)), { 'Retry-After': String(seconds) });
+            return;
+        }
+
+        // Stop the upstream call when the browser goes away (e.g. the user
+        // cancelled a streaming summary).
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+        try {
+            await handler(req, res, controller.signal);
+        } catch (error) {
+            if (controller.signal.aborted) {
+                res.destroy();
+            } else if (res.headersSent) {
+                res.end();
+            } else {
+                // The rest of an oversized body was never read, so the
+                // connection cannot carry another request.
+                if (error instanceof HttpError && error.status === 413) res.setHeader('Connection', 'close');
+                sendError(res, error);
+            }
+        }
+    });
+}
@@ -0,0 +1,38 @@
+import { createProxyServer } from './app.js';
+import { createGeminiUpstream, createStubUpstream } from './upstream.js';
+
+// Starts the proxy. Configuration comes from the environment, with
+// .env.local (shared with the Vite dev server) loaded when present:
+//   GEMINI_API_KEY            key for the real upstream
+//   PROXY_PORT                port to listen on (3001)
+//   PROXY_RATE_LIMIT          requests per client per minute (30)
+//   PROXY_SUMMARY_CACHE_TTL   seconds to reuse an identical summary (300)
+//   PROXY_TRUST_FORWARDED     "1" to rate-limit by X-Forwarded-For
+// Pass --stub to answer from the built-in stub instead of Gemini.
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // The file is optional; the environment may already be set.
+}
+
+const useStub = process.argv.includes('--stub');
+const apiKey = process.env.GEMINI_API_KEY;
+if (!useStub && !apiKey) {
+    console.error("GEMINI_API_KEY is not set. Add it to .env.local, or start the proxy with --stub.");
+    process.exit(1);
+}
+
+const upstream = useStub ? createStubUpstream() : createGeminiUpstream(apiKey!);
+const port = Number(process.env.PROXY_PORT ?? 3001);
+
+const server = createProxyServer({
+    upstream,
+    rateLimitPerMinute: Number(process.env.PROXY_RATE_LIMIT ?? 30),
+    summaryCacheTtlMs: Number(process.env.PROXY_SUMMARY_CACHE_TTL ?? 300) * 1000,
+    trustProxy: process.env.PROXY_TRUST_FORWARDED === '1',
+});
+
+server.listen(port, () => {
+    console.log(`Proxy listening on http://localhost:${port} (${upstream.kind} upstream)`);
+});
@@ -0,0 +1,54 @@
+import type { GenerateContentResponse, Schema } from '@google/genai';
+
+// Request and response bodies of the proxy API, shared by the server and
+// services/geminiService.ts.
+
+// The parts of a Gemini response the client reads. `text` is the SDK's
+// convenience getter, which does not survive JSON serialisation by itself.
+export type ProxyResponse = Pick<GenerateContentResponse, 'candidates' | 'promptFeedback'> & { text?: string };
+
+export interface ProxyErrorBody {
+    error: { status: number; message: string };
+}
+
+// POST /api/summarize — answered with newline-delimited ProxyResponse
+// chunks; a line holding a ProxyErrorBody ends a failed stream.
+export interface SummarizeRequestBody {
+    prompt: string;
+}
+
+// POST /api/speech — one voice, or exactly two named speakers.
+// `languageCode` is a BCP-47 tag such as "tr-TR".
+export interface SpeechRequestBody {
+    text: string;
+    voiceName?: string;
+    speakers?: { speaker: string; voiceName: string }[];
+    languageCode?: string;
+}
+
+// POST /api/structured — JSON-mode generation. `contents` is either a
+// prompt or a list of parts (text and inline audio).
+export interface StructuredRequestBody {
+    contents: string | { text?: string; inlineData?: { mimeType: string; data: string } }[];
+    responseSchema: Schema;
+}
+
+// POST /api/chat — a search-grounded follow-up conversation. `context` is
+// the briefing the conversation is about; `messages` ends with the question.
+export interface ChatRequestBody {
+    context: string;
+    messages: { role: 'user' | 'model'; text: string }[];
+}
+
+// POST /api/article — reads one web page (falling back to search) and
+// answers `prompt` about it. `uri` must be an http(s) URL.
+export interface ArticleRequestBody {
+    uri: string;
+    prompt: string;
+}
+
+// GET /api/health
+export interface HealthResponseBody {
+    gemini: boolean;
+    upstream: 'gemini' | 'stub';
+}
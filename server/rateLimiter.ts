@@ -0,0 +1,32 @@
+// Per-client sliding-window limiter. Each client gets `limit` requests per
+// window; past that, requests are refused with the time until a slot frees.
+
+export class ClientRateLimiter {
+    private readonly limit: number;
+    private readonly windowMs: number;
+    private readonly requests = new Map<string, number[]>();
+
+    constructor(limit: number, windowMs: number) {
+        this.limit = limit;
+        this.windowMs = windowMs;
+    }
+
+    // Returns 0 if the request may proceed, otherwise milliseconds to wait.
+    take(clientId: string, now = Date.now()): number {
+        const recent = (this.requests.get(clientId) ?? []).filter(time => now - time < this.windowMs);
+        if (recent.length >= this.limit) {
+            this.requests.set(clientId, recent);
+            return recent[0] + this.windowMs - now;
+        }
+        recent.push(now);
+        this.requests.set(clientId, recent);
+        return 0;
+    }
+
+    // Drops clients with no requests in the current window.
+    prune(now = Date.now()): void {
+        this.requests.forEach((times, clientId) => {
+            if (times.every(time => now - time >= this.windowMs)) this.requests.delete(clientId);
+        });
+    }
+}
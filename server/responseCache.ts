@@ -0,0 +1,34 @@
+// A small TTL cache for completed summaries, so identical briefing prompts
+// within a few minutes (several tabs, a subscription and a manual refresh)
+// cost one upstream call. Oldest entries are dropped past `maxEntries`.
+
+export class ResponseCache<T> {
+    private readonly ttlMs: number;
+    private readonly maxEntries: number;
+    private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+
+    constructor(ttlMs: number, maxEntries: number) {
+        this.ttlMs = ttlMs;
+        this.maxEntries = maxEntries;
+    }
+
+    get(key: string, now = Date.now()): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= now) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: T, now = Date.now()): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
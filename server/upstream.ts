@@ -0,0 +1,129 @@
+import { ApiError, GoogleGenAI, Type } from '@google/genai';
+import type { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import type { ProxyResponse } from './protocol.js';
+
+// Where the proxy sends requests. The real upstream is the Gemini API; the
+// stub answers deterministically without a key or network access, so the
+// whole client/server path can be exercised locally.
+
+export interface Upstream {
+    kind: 'gemini' | 'stub';
+    generateContent(params: GenerateContentParameters): Promise<ProxyResponse>;
+    generateContentStream(params: GenerateContentParameters): Promise<AsyncIterable<ProxyResponse>>;
+}
+
+function responseText(response: GenerateContentResponse): string | undefined {
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    const text = parts.filter(part => typeof part.text === 'string' && !part.thought).map(part => part.text).join('');
+    return text || undefined;
+}
+
+function toProxyResponse(response: GenerateContentResponse): ProxyResponse {
+    return { text: responseText(response), candidates: response.candidates, promptFeedback: response.promptFeedback };
+}
+
+export function createGeminiUpstream(apiKey: string): Upstream {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        kind: 'gemini',
+        async generateContent(params) {
+            return toProxyResponse(await ai.models.generateContent(params));
+        },
+        async generateContentStream(params) {
+            const stream = await ai.models.generateContentStream(params);
+            return (async function* () {
+                for await (const chunk of stream) yield toProxyResponse(chunk);
+            })();
+        },
+    };
+}
+
+const STUB_SAMPLE_RATE = 24000;
+
+// A prompt containing e.g. "[stub:429]" makes the stub fail with that status,
+// to exercise retries and error messages.
+const STUB_ERROR_PATTERN = /\[stub:(\d{3})\]/;
+
+const STUB_SUMMARY = [
+    "### Stub: Örnek gündem başlığı | Gündem",
+    "Bu metin sahte upstream tarafından üretildi ve her istekte aynıdır.",
+    "",
+    "### Stub: İkinci örnek başlık | Gündem",
+    "Proxy, önbellek ve hız sınırı gerçek API anahtarı olmadan denenebilir.",
+].join('\n');
+
+function promptOf(params: GenerateContentParameters): string {
+    return JSON.stringify(params.contents);
+}
+
+function failIfRequested(params: GenerateContentParameters): void {
+    const match = promptOf(params).match(STUB_ERROR_PATTERN);
+    if (match) {
+        throw new ApiError({ status: Number(match[1]), message: `Stub upstream error ${match[1]}, retry in 1s.` });
+    }
+}
+
+function stubTone(seconds: number): string {
+    const length = Math.round(seconds * STUB_SAMPLE_RATE);
+    const pcm = Buffer.alloc(length * 2);
+    for (let i = 0; i < length; i++) {
+        pcm.writeInt16LE(Math.round(0.2 * 32767 * Math.sin((2 * Math.PI * 440 * i) / STUB_SAMPLE_RATE)), i * 2);
+    }
+    return pcm.toString('base64');
+}
+
+function stubStructured(params: GenerateContentParameters): string {
+    if (params.config?.responseSchema && (params.config.responseSchema as { type?: Type }).type === Type.ARRAY) {
+        return JSON.stringify([
+            { speaker: 'Deniz', text: "Günaydın, bu bir stub podcast." },
+            { speaker: 'Selin', text: "Tüm satırlar her seferinde aynı." },
+        ]);
+    }
+    return JSON.stringify({ transcript: "Dünya gündem haberlerini özetle", kind: 'briefing', country: 'Dünya', category: 'Gündem' });
+}
+
+export function createStubUpstream(): Upstream {
+    return {
+        kind: 'stub',
+        async generateContent(params) {
+            failIfRequested(params);
+            if (params.config?.responseModalities?.length) {
+                return { candidates: [{ content: { parts: [{ inlineData: { mimeType: `audio/L16;rate=${STUB_SAMPLE_RATE}`, data: stubTone(1) } }] } }] };
+            }
+            if (params.config?.tools?.length) {
+                const text = "Stub yanıtı: bu soru sahte upstream tarafından yanıtlandı.";
+                return {
+                    text,
+                    candidates: [{
+                        content: { parts: [{ text }] },
+                        groundingMetadata: {
+                            groundingChunks: [{ web: { uri: 'https://example.com/stub', title: 'Stub kaynak' } }],
+                            groundingSupports: [{ segment: { startIndex: 0, endIndex: Buffer.byteLength(text) }, groundingChunkIndices: [0] }],
+                        },
+                    }],
+                };
+            }
+            const text = stubStructured(params);
+            return { text, candidates: [{ content: { parts: [{ text }] } }] };
+        },
+        async generateContentStream(params) {
+            failIfRequested(params);
+            const lines = STUB_SUMMARY.split('\n');
+            return (async function* () {
+                for (let i = 0; i < lines.length; i++) {
+                    const text = `${lines[i]}\n`;
+                    const last = i === lines.length - 1;
+                    yield {
+                        text,
+                        candidates: [{
+                            content: { parts: [{ text }] },
+                            groundingMetadata: last
+                                ? { groundingChunks: [{ web: { uri: 'https://example.com/stub', title: 'Stub kaynak' } }] }
+                                : undefined,
+                        }],
+                    };
+                }
+            })();
+        },
+    };
+}
@@ -0,0 +1,155 @@
+// Generated briefing audio is kept in IndexedDB so replaying or downloading a
+// briefing does not cost another TTS call. Entries are raw 24 kHz mono PCM,
+// one per synthesized part of a result and voice, and are evicted
+// least-recently-used past the cap. Sizes and access times live in a store
+// of their own, so eviction and reads never load audio they do not need.
+
+const DB_NAME = 'newsBriefingAudio';
+const STORE_NAME = 'audio';
+const USAGE_STORE_NAME = 'usage';
+const DB_VERSION = 2;
+
+export const AUDIO_CACHE_LIMIT_BYTES = 50 * 1024 * 1024;
+
+interface AudioCacheEntry {
+    key: string;
+    resultId: string;
+    voice: string;
+    part: number;
+    pcm: ArrayBuffer;
+}
+
+interface AudioCacheUsage {
+    key: string;
+    size: number;
+    lastAccessed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                    store.createIndex('resultId', 'resultId');
+                }
+                if (event.oldVersion < 2) {
+                    const usage = db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'key' });
+                    // Version 1 kept the size and access time on the audio
+                    // entry itself.
+                    const cursorRequest = request.transaction!.objectStore(STORE_NAME).openCursor();
+                    cursorRequest.onsuccess = () => {
+                        const cursor = cursorRequest.result;
+                        if (!cursor) return;
+                        const { key, size, lastAccessed } = cursor.value;
+                        usage.put({ key, size, lastAccessed });
+                        cursor.continue();
+                    };
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function cacheKey(resultId: string, voice: string, part: number): string {
+    return `${resultId}:${voice}:${part}`;
+}
+
+export async function getCachedAudio(resultId: string, voice: string, part: number): Promise<Uint8Array | null> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+        const entry = await promisify<AudioCacheEntry | undefined>(tx.objectStore(STORE_NAME).get(cacheKey(resultId, voice, part)));
+        if (!entry) return null;
+        const usage: AudioCacheUsage = { key: entry.key, size: entry.pcm.byteLength, lastAccessed: Date.now() };
+        tx.objectStore(USAGE_STORE_NAME).put(usage);
+        return new Uint8Array(entry.pcm);
+    } catch (e) {
+        console.error("Failed to read cached audio", e);
+        return null;
+    }
+}
+
+export async function listCachedResultIds(): Promise<Set<string>> {
+    const ids = new Set<string>();
+    try {
+        const db = await openDatabase();
+        const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('resultId');
+        await new Promise<void>((resolve, reject) => {
+            const request = index.openKeyCursor(null, 'nextunique');
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return resolve();
+                ids.add(String(cursor.key));
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to read cached audio", e);
+    }
+    return ids;
+}
+
+async function evictToFit(db: IDBDatabase, incomingSize: number): Promise<void> {
+    const tx = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+    const usages = await promisify<AudioCacheUsage[]>(tx.objectStore(USAGE_STORE_NAME).getAll());
+    let total = usages.reduce((sum, usage) => sum + usage.size, 0) + incomingSize;
+    for (const usage of usages.sort((a, b) => a.lastAccessed - b.lastAccessed)) {
+        if (total <= AUDIO_CACHE_LIMIT_BYTES) break;
+        tx.objectStore(STORE_NAME).delete(usage.key);
+        tx.objectStore(USAGE_STORE_NAME).delete(usage.key);
+        total -= usage.size;
+    }
+}
+
+export async function putCachedAudio(resultId: string, voice: string, part: number, pcm: Uint8Array): Promise<void> {
+    if (pcm.byteLength > AUDIO_CACHE_LIMIT_BYTES) return;
+    try {
+        const db = await openDatabase();
+        await evictToFit(db, pcm.byteLength);
+        const key = cacheKey(resultId, voice, part);
+        const entry: AudioCacheEntry = { key, resultId, voice, part, pcm: pcm.slice().buffer };
+        const usage: AudioCacheUsage = { key, size: pcm.byteLength, lastAccessed: Date.now() };
+        const tx = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+        tx.objectStore(STORE_NAME).put(entry);
+        tx.objectStore(USAGE_STORE_NAME).put(usage);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to cache audio", e);
+    }
+}
+
+export async function deleteCachedAudio(resultId: string): Promise<void> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+        const keys = await promisify(tx.objectStore(STORE_NAME).index('resultId').getAllKeys(resultId));
+        keys.forEach(key => {
+            tx.objectStore(STORE_NAME).delete(key);
+            tx.objectStore(USAGE_STORE_NAME).delete(key);
+        });
+    } catch (e) {
+        console.error("Failed to delete cached audio", e);
+    }
+}
@@ -0,0 +1,154 @@
+import { migrateResultRecord, migrateFavoriteRecord, RESULT_SCHEMA_VERSION, FAVORITE_SCHEMA_VERSION } from './storage';
+import type { StoredRecord } from './storage';
+import { isObject, isValidCollection } from './records';
+import { linkFavoritesToResults } from '../utils/favorites';
+import type { FavoriteCollection, FavoriteItem, Result } from '../types';
+
+// A backup is a single JSON file holding the whole history, the favorites
+// list and the collections the favorites are filed into.
+// It records the schema versions its records were written with, so a file
+// made by an older version of the app goes through the same migrations as
+// the IndexedDB records do.
+
+const BACKUP_FORMAT = 'gundem-brifing-yedek';
+const BACKUP_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    backupVersion: number;
+    resultSchemaVersion: number;
+    favoriteSchemaVersion: number;
+    exportedAt: number;
+    history: Result[];
+    favorites: FavoriteItem[];
+    // Missing from backups made before favorites could be collected.
+    collections?: FavoriteCollection[];
+}
+
+export interface BackupContents {
+    history: Result[];
+    favorites: FavoriteItem[];
+    collections: FavoriteCollection[];
+    exportedAt: number;
+}
+
+export interface BackupData {
+    history: Result[];
+    favorites: FavoriteItem[];
+    collections: FavoriteCollection[];
+}
+
+type BackupRecords = 'results' | 'favorites';
+
+// What was wrong with a file that could not be restored; the panel turns it
+// into a message in the interface language.
+export type BackupProblem =
+    | { kind: 'invalidJson' }
+    | { kind: 'notBackup' }
+    | { kind: 'unsupportedVersion' }
+    | { kind: 'invalidSchemaVersion'; records: BackupRecords }
+    | { kind: 'newerSchemaVersion'; records: BackupRecords; version: number }
+    | { kind: 'missingList'; records: BackupRecords }
+    | { kind: 'unreadableRecord'; records: BackupRecords; index: number }
+    | { kind: 'incompleteRecord'; records: BackupRecords; index: number };
+
+export class BackupError extends Error {
+    readonly problem: BackupProblem;
+
+    constructor(problem: BackupProblem) {
+        super(`Invalid backup: ${problem.kind}`);
+        this.name = 'BackupError';
+        this.problem = problem;
+    }
+}
+
+export function createBackup({ history, favorites, collections }: BackupData): Blob {
+    const backup: BackupFile = {
+        format: BACKUP_FORMAT,
+        backupVersion: BACKUP_VERSION,
+        resultSchemaVersion: RESULT_SCHEMA_VERSION,
+        favoriteSchemaVersion: FAVORITE_SCHEMA_VERSION,
+        exportedAt: Date.now(),
+        history,
+        favorites,
+        collections,
+    };
+    return new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+}
+
+function readSchemaVersion(value: unknown, current: number, records: BackupRecords): number {
+    if (value === undefined) return 1;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        throw new BackupError({ kind: 'invalidSchemaVersion', records });
+    }
+    if (value > current) {
+        throw new BackupError({ kind: 'newerSchemaVersion', records, version: value });
+    }
+    return value;
+}
+
+function readRecords<T>(
+    value: unknown,
+    schemaVersion: number,
+    migrateRecord: (record: StoredRecord) => T | null,
+    records: BackupRecords,
+): T[] {
+    if (!Array.isArray(value)) throw new BackupError({ kind: 'missingList', records });
+    return value.map((record: unknown, index) => {
+        if (!isObject(record)) throw new BackupError({ kind: 'unreadableRecord', records, index });
+        const migrated = migrateRecord({ ...record, schemaVersion });
+        if (!migrated) throw new BackupError({ kind: 'incompleteRecord', records, index });
+        return migrated;
+    });
+}
+
+export function parseBackup(json: string): BackupContents {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new BackupError({ kind: 'invalidJson' });
+    }
+    if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+        throw new BackupError({ kind: 'notBackup' });
+    }
+    if (typeof data.backupVersion !== 'number' || data.backupVersion > BACKUP_VERSION) {
+        throw new BackupError({ kind: 'unsupportedVersion' });
+    }
+    const resultVersion = readSchemaVersion(data.resultSchemaVersion, RESULT_SCHEMA_VERSION, 'results');
+    const favoriteVersion = readSchemaVersion(data.favoriteSchemaVersion, FAVORITE_SCHEMA_VERSION, 'favorites');
+    const history = readRecords(data.history, resultVersion, migrateResultRecord, 'results');
+    const favorites = readRecords(data.favorites, favoriteVersion, migrateFavoriteRecord, 'favorites');
+    // Favorites are filed by collection id, so a collection that cannot be
+    // read is dropped rather than failing the whole restore.
+    const collections = Array.isArray(data.collections) ? data.collections.filter(isValidCollection) : [];
+    return {
+        history,
+        favorites: linkFavoritesToResults(favorites, history),
+        collections,
+        exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    };
+}
+
+// Merging keeps the local copy of any record that exists on both sides, so
+// read state and later edits are not overwritten by an older backup.
+function mergeById<T extends { id: string }>(current: T[], imported: T[], order: (a: T, b: T) => number): T[] {
+    const ids = new Set(current.map(record => record.id));
+    const added = imported.filter(record => !ids.has(record.id));
+    return [...current, ...added].sort(order);
+}
+
+const newestFirst = (a: { timestamp: number }, b: { timestamp: number }) => b.timestamp - a.timestamp;
+
+export function applyBackup(current: BackupData, backup: BackupContents, mode: ImportMode): BackupData {
+    if (mode === 'replace') {
+        return { history: backup.history, favorites: backup.favorites, collections: backup.collections };
+    }
+    return {
+        history: mergeById<Result>(current.history, backup.history, newestFirst),
+        favorites: mergeById<FavoriteItem>(current.favorites, backup.favorites, newestFirst),
+        collections: mergeById(current.collections, backup.collections, (a, b) => a.createdAt - b.createdAt),
+    };
+}
@@ -0,0 +1,80 @@
+import { getProvider } from './provider';
+import { parseNewsItems, itemsToSummary } from '../utils/newsItems';
+import { findMatchedSites, normalizeDomain } from '../utils/sites';
+import { buildPrompt } from '../utils/prompts';
+import type { BriefingRequest, Language, NewsItem, PromptTemplates, Result } from '../types';
+
+export function describeBriefing(request: BriefingRequest): string {
+    switch (request.kind) {
+        case 'news':
+            return `${request.country} - ${request.category}`;
+        case 'discover':
+            return `Keşfet - ${request.topic}`;
+        case 'sites':
+            return `Siteler - ${request.sites.map(site => site.name).join(', ')}${request.category ? ` - ${request.category}` : ''}`;
+        case 'question':
+            return `Sesli Soru - ${request.question}`;
+        case 'topic':
+            return `Konu - ${request.topic}`;
+    }
+}
+
+function fallbackCategory(request: BriefingRequest): string {
+    switch (request.kind) {
+        case 'news':
+            return request.category;
+        case 'discover':
+            return request.topic;
+        case 'sites':
+            return request.category ?? '';
+        case 'question':
+        case 'topic':
+            return '';
+    }
+}
+
+export interface BriefingOptions {
+    signal?: AbortSignal;
+    // The user's prompt templates; the built-in wording when omitted.
+    templates?: PromptTemplates;
+    // Language the briefing is written in; Turkish when omitted.
+    language?: Language;
+    // Receives a provisional result while the summary streams in. Its items
+    // are parsed from the partial text and carry no citations yet.
+    onPartial?: (result: Result) => void;
+}
+
+export async function fetchBriefing(request: BriefingRequest, options: BriefingOptions = {}): Promise<Result> {
+    const source = describeBriefing(request);
+    const category = fallbackCategory(request);
+    const startedAt = Date.now();
+    const { onPartial, language = 'tr' } = options;
+    const partial = (items: NewsItem[] = []): Result => ({
+        id: `pending-${startedAt}`,
+        source,
+        summary: itemsToSummary(items),
+        items,
+        groundingChunks: [],
+        timestamp: startedAt,
+        language,
+    });
+    onPartial?.(partial());
+    const { summary, items, groundingChunks } = await getProvider().summarize(buildPrompt(request, options.templates, language), category, {
+        signal: options.signal,
+        onText: onPartial && (text => onPartial(partial(parseNewsItems(text, category)))),
+    });
+    const result: Result = {
+        id: new Date().toISOString(),
+        source,
+        summary,
+        items,
+        groundingChunks,
+        timestamp: Date.now(),
+        language,
+    };
+    if (request.kind === 'sites') {
+        result.requestedSites = request.sites.map(site => normalizeDomain(site.domain));
+        result.matchedSites = findMatchedSites(groundingChunks, request.sites);
+    }
+    return result;
+}
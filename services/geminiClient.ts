@@ -0,0 +1,207 @@
+import { ApiError, BlockedReason, FinishReason } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import { MESSAGES } from "../i18n";
+import type { Language } from "../types";
+
+// Every Gemini call goes through callGemini, which waits while the browser
+// is offline, keeps requests under a client-side rate limit, retries
+// transient failures with exponential backoff and turns whatever went wrong
+// into a GeminiError with a category the UI can explain.
+
+export type GeminiErrorKind = 'rateLimit' | 'safety' | 'empty' | 'offline' | 'invalidKey' | 'unavailable' | 'unknown';
+
+export class GeminiError extends Error {
+    readonly kind: GeminiErrorKind;
+    // Delay the server asked for before retrying, if it named one.
+    readonly retryAfterMs?: number;
+
+    constructor(kind: GeminiErrorKind, message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = 'GeminiError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// User-facing message for an error in the interface language, falling back
+// to the caller's generic message for anything that was not categorised.
+export function describeError(error: unknown, fallback: string, language: Language): string {
+    return error instanceof GeminiError && error.kind !== 'unknown' ? MESSAGES[language].errors[error.kind] : fallback;
+}
+
+const RETRYABLE_KINDS = new Set<GeminiErrorKind>(['rateLimit', 'unavailable', 'empty', 'offline']);
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+function parseRetryDelay(message: string): number | undefined {
+    const match = message.match(/retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+export function toGeminiError(error: unknown): GeminiError {
+    if (error instanceof GeminiError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    if (!navigator.onLine || (error instanceof TypeError && /fetch|network/i.test(message))) {
+        return new GeminiError('offline', "Network is offline.");
+    }
+    if (error instanceof ApiError) {
+        if (error.status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+            return new GeminiError('rateLimit', "Gemini rate limit or quota exceeded.", parseRetryDelay(message));
+        }
+        if (error.status === 401 || error.status === 403 || /API_KEY_INVALID|API key not valid/i.test(message)) {
+            return new GeminiError('invalidKey', "Gemini API key is invalid or not permitted.");
+        }
+        if (error.status >= 500) {
+            return new GeminiError('unavailable', `Gemini service unavailable (${error.status}).`);
+        }
+    }
+    return new GeminiError('unknown', message);
+}
+
+const BLOCKING_FINISH_REASONS = new Set<string>([
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+]);
+
+// Blocked prompts and responses come back as a successful call without
+// content, so they have to be detected from the response itself.
+export function assertNotBlocked(response: Pick<GenerateContentResponse, 'promptFeedback' | 'candidates'>): void {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason && blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) {
+        throw new GeminiError('safety', `Prompt blocked: ${blockReason}.`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+        throw new GeminiError('safety', `Response blocked: ${finishReason}.`);
+    }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Sliding-window limiter; callers are served strictly in arrival order so a
+// burst of subscription refreshes cannot starve a request the user made.
+class RateLimiter {
+    private readonly limit: number;
+    private readonly windowMs: number;
+    private startedAt: number[] = [];
+    private tail: Promise<void> = Promise.resolve();
+
+    constructor(limit: number, windowMs: number) {
+        this.limit = limit;
+        this.windowMs = windowMs;
+    }
+
+    acquire(signal?: AbortSignal): Promise<void> {
+        const turn = this.tail.then(() => this.waitForSlot(signal));
+        this.tail = turn.catch(() => undefined);
+        return turn;
+    }
+
+    private async waitForSlot(signal?: AbortSignal): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            this.startedAt = this.startedAt.filter(time => now - time < this.windowMs);
+            if (this.startedAt.length < this.limit) {
+                this.startedAt.push(now);
+                return;
+            }
+            await delay(this.startedAt[0] + this.windowMs - now, signal);
+        }
+    }
+}
+
+// 'background' is text generation nobody is waiting for, such as entity
+// extraction for the timeline.
+export type GeminiModelKind = 'text' | 'speech' | 'background';
+
+// Conservative per-minute budgets. They only smooth out bursts; a 429 from
+// the server is still retried after the delay it asks for. Background work
+// gets a small budget of its own so it never holds up a request the user
+// made.
+const limiters: Record<GeminiModelKind, RateLimiter> = {
+    text: new RateLimiter(10, 60_000),
+    speech: new RateLimiter(10, 60_000),
+    background: new RateLimiter(2, 60_000),
+};
+
+// Requests made while offline wait here until the connection returns.
+let queuedCount = 0;
+const queueListeners = new Set<(count: number) => void>();
+
+function setQueuedCount(count: number): void {
+    queuedCount = count;
+    queueListeners.forEach(listener => listener(count));
+}
+
+export function subscribeToOfflineQueue(listener: (count: number) => void): () => void {
+    queueListeners.add(listener);
+    listener(queuedCount);
+    return () => {
+        queueListeners.delete(listener);
+    };
+}
+
+async function waitForOnline(signal?: AbortSignal): Promise<void> {
+    if (navigator.onLine) return;
+    setQueuedCount(queuedCount + 1);
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const cleanup = () => {
+                window.removeEventListener('online', onOnline);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const onOnline = () => {
+                cleanup();
+                resolve();
+            };
+            const onAbort = () => {
+                cleanup();
+                reject(signal!.reason);
+            };
+            window.addEventListener('online', onOnline);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    } finally {
+        setQueuedCount(queuedCount - 1);
+    }
+}
+
+function backoff(attempt: number): number {
+    return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) + Math.random() * 250;
+}
+
+export async function callGemini<T>(model: GeminiModelKind, run: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    let retries = 0;
+    for (;;) {
+        await waitForOnline(signal);
+        await limiters[model].acquire(signal);
+        try {
+            return await run();
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            const geminiError = toGeminiError(error);
+            // Losing the connection mid-request puts the call back in the
+            // offline queue without using up a retry.
+            if (geminiError.kind === 'offline' && !navigator.onLine) continue;
+            if (!RETRYABLE_KINDS.has(geminiError.kind) || retries >= MAX_RETRIES) throw geminiError;
+            await delay(geminiError.retryAfterMs ?? backoff(retries), signal);
+            retries++;
+        }
+    }
+}
@@ -1,54 +1,467 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { ApiError, Type } from "@google/genai";
+import type { GroundingMetadata } from "@google/genai";
+import type { ArticleRequestBody, ChatRequestBody, HealthResponseBody, ProxyErrorBody, ProxyResponse, SpeechRequestBody, StructuredRequestBody, SummarizeRequestBody } from "../server/protocol";
+import type { ChatMessage, DeepDive, GroundingChunk, ItemEntities, Language, NamedEntity, NewsItem, PerspectiveAnalysis, PodcastLine, Result, SourceDisagreement, VoiceIntent } from "../types";
+import { ITEM_FORMAT_INSTRUCTIONS, parseNewsItemSpans, itemsToSummary, getResultItems, itemText } from "../utils/newsItems";
+import { attachCitations, citationsForText } from "../utils/citations";
+import { buildPerspectiveAnalysis, groupSourcesByOutlet, perspectiveSourceIndices } from "../utils/perspectives";
+import { DEEP_DIVE_FORMAT_INSTRUCTIONS, ENTITY_KINDS, parseDeepDiveText } from "../utils/deepDives";
+import { callGemini, assertNotBlocked, GeminiError } from "./geminiClient";
+import { LOCALES } from "../i18n";
+import { OUTPUT_LANGUAGE_NAMES } from "../utils/prompts";
+import { DEFAULT_VOICE, PODCAST_HOSTS } from "./voices";
+import type { BriefingProvider, SummarizeOptions, SummaryResponse } from "./provider";
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+// The Gemini key lives on the proxy in server/; the browser only talks to
+// its endpoints, which build the model configuration themselves.
+
+async function toApiError(response: Response): Promise<ApiError> {
+    let message = response.statusText;
+    try {
+        const body = await response.json() as ProxyErrorBody;
+        message = body.error?.message ?? message;
+    } catch {
+        // Not a JSON error body; keep the status text.
+    }
+    return new ApiError({ status: response.status, message });
+}
+
+async function postJson<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) throw await toApiError(response);
+    return response.json() as Promise<T>;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Reads a newline-delimited JSON response as it arrives.
+async function* postStream(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<ProxyResponse> {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok || !response.body) throw await toApiError(response);
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (!line) continue;
+            const chunk = JSON.parse(line) as ProxyResponse | ProxyErrorBody;
+            if ('error' in chunk) throw new ApiError({ status: chunk.error.status, message: chunk.error.message });
+            yield chunk;
+        }
+    }
+}
 
-export async function summarizeNewsWithGoogleSearch(prompt: string) {
+export async function isProxyAvailable(): Promise<boolean> {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
-        });
-        
-        const summary = response.text;
-        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+        const response = await fetch('/api/health');
+        return response.ok && (await response.json() as HealthResponseBody).gemini;
+    } catch {
+        return false;
+    }
+}
+
+export async function summarizeNewsWithGoogleSearch(prompt: string, fallbackCategory = '', options: SummarizeOptions = {}): Promise<SummaryResponse> {
+    try {
+        return await callGemini('text', async () => {
+            const body: SummarizeRequestBody = { prompt: `${prompt}\n\n${ITEM_FORMAT_INSTRUCTIONS}` };
+            const stream = postStream('/api/summarize', body, options.signal);
+
+            // Grounding metadata arrives with the final chunks and covers the
+            // whole response, so the last one seen is kept.
+            let text = '';
+            let groundingMetadata: GroundingMetadata | undefined;
+            for await (const chunk of stream) {
+                assertNotBlocked(chunk);
+                text += chunk.text ?? '';
+                groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+                options.onText?.(text);
+            }
+            if (!text.trim()) {
+                throw new GeminiError('empty', "No summary received from API.");
+            }
+
+            const groundingChunks: GroundingChunk[] = (groundingMetadata?.groundingChunks || [])
+                .map(chunk => chunk.web?.uri ? { web: { uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri } } : {});
+            const spans = attachCitations(text, parseNewsItemSpans(text, fallbackCategory), groundingMetadata?.groundingSupports || [], groundingChunks);
+            const items = spans.map(span => span.item);
+            const summary = itemsToSummary(items);
 
-        return { summary, groundingChunks };
+            return { summary, items, groundingChunks };
+        }, options.signal);
     } catch (error) {
+        // A cancelled request is not a failure; callers check their signal.
+        if (options.signal?.aborted) throw error;
         console.error("Error summarizing news:", error);
-        throw new Error("Failed to summarize news.");
+        throw error;
+    }
+}
+
+export async function generateSpeech(text: string, voiceName: string = DEFAULT_VOICE, language: Language = 'tr') {
+    try {
+        return await callGemini('speech', async () => {
+            const body: SpeechRequestBody = { text, voiceName, languageCode: LOCALES[language] };
+            const response = await postJson<ProxyResponse>('/api/speech', body);
+            assertNotBlocked(response);
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new GeminiError('empty', "No audio data received from API.");
+            }
+            return base64Audio;
+        });
+    } catch (error) {
+        console.error("Error generating speech:", error);
+        throw error;
     }
 }
 
-export async function generateSpeech(text: string) {
+export async function interpretVoiceRequest(base64Audio: string, mimeType: string, countries: string[], categories: string[]): Promise<VoiceIntent> {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+        return await callGemini('text', async () => {
+            const body: StructuredRequestBody = {
+                contents: [
+                    { inlineData: { mimeType, data: base64Audio } },
+                    { text: `Bu ses kaydı bir haber asistanına verilmiş sözlü bir istektir. Kaydı olduğu gibi yazıya dök. Kullanıcı belirli bir ülke ve kategori için haber özeti istiyorsa kind alanını "briefing" yap ve ülkeyi şu listeden seç: ${countries.join(', ')}; kategoriyi şu listeden seç: ${categories.join(', ')}. Ülke belirtilmemişse "Dünya" kullan. İstek bu listelere uymuyorsa ya da serbest bir soruysa kind alanını "question" yap ve soruyu question alanına yaz.` },
+                ],
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        transcript: { type: Type.STRING },
+                        kind: { type: Type.STRING, enum: ['briefing', 'question'] },
+                        country: { type: Type.STRING },
+                        category: { type: Type.STRING },
+                        question: { type: Type.STRING },
                     },
+                    required: ['transcript', 'kind'],
                 },
-            },
+            };
+            const response = await postJson<ProxyResponse>('/api/structured', body);
+            assertNotBlocked(response);
+            if (!response.text) {
+                throw new GeminiError('empty', "No transcript received from API.");
+            }
+
+            const intent = JSON.parse(response.text) as VoiceIntent;
+            if (!intent.transcript) {
+                throw new GeminiError('empty', "No transcript received from API.");
+            }
+            return intent;
         });
+    } catch (error) {
+        console.error("Error interpreting voice request:", error);
+        throw error;
+    }
+}
 
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("No audio data received from API.");
-        }
-        return base64Audio;
+export async function generatePodcastScript(results: Result[], language: Language = 'tr'): Promise<PodcastLine[]> {
+    const material = results
+        .map(result => `Kaynak: ${result.source}\n${result.summary}`)
+        .join('\n\n');
+    try {
+        return await callGemini('text', async () => {
+            const body: StructuredRequestBody = {
+                contents: `Aşağıdaki haber özetlerinden, ${PODCAST_HOSTS[0]} ve ${PODCAST_HOSTS[1]} adlı iki sunucunun konuştuğu kısa bir sabah haber podcast'i için ${OUTPUT_LANGUAGE_NAMES[language]} bir diyalog yaz. Sunucular haberleri sırayla, doğal bir sohbet içinde aktarsın, birbirlerine kısa sorular sorsun ve özetlerde olmayan bilgi eklemesin. Diyalog yaklaşık 3 dakikalık olsun; bir karşılama ile başlayıp kısa bir kapanışla bitsin.\n\n${material}`,
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            speaker: { type: Type.STRING, enum: [...PODCAST_HOSTS] },
+                            text: { type: Type.STRING },
+                        },
+                        required: ['speaker', 'text'],
+                    },
+                },
+            };
+            const response = await postJson<ProxyResponse>('/api/structured', body);
+            assertNotBlocked(response);
+            if (!response.text) {
+                throw new GeminiError('empty', "No podcast script received from API.");
+            }
 
+            const lines = JSON.parse(response.text) as PodcastLine[];
+            if (!Array.isArray(lines) || lines.length === 0) {
+                throw new GeminiError('empty', "No podcast script received from API.");
+            }
+            return lines;
+        });
     } catch (error) {
-        console.error("Error generating speech:", error);
-        throw new Error("Failed to generate speech.");
+        console.error("Error generating podcast script:", error);
+        throw error;
+    }
+}
+
+export async function generateDialogueSpeech(lines: PodcastLine[], voices: [string, string], language: Language = 'tr') {
+    const script = lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+    try {
+        return await callGemini('speech', async () => {
+            const body: SpeechRequestBody = {
+                text: `${PODCAST_HOSTS[0]} ve ${PODCAST_HOSTS[1]} arasındaki bu sohbeti seslendir:\n${script}`,
+                speakers: PODCAST_HOSTS.map((speaker, index) => ({ speaker, voiceName: voices[index] })),
+                languageCode: LOCALES[language],
+            };
+            const response = await postJson<ProxyResponse>('/api/speech', body);
+            assertNotBlocked(response);
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new GeminiError('empty', "No audio data received from API.");
+            }
+            return base64Audio;
+        });
+    } catch (error) {
+        console.error("Error generating dialogue speech:", error);
+        throw error;
+    }
+}
+
+// The proxy accepts at most 40 messages; an odd window over alternating
+// turns starts with a question.
+const FOLLOW_UP_HISTORY_LIMIT = 39;
+
+function buildFollowUpContext(result: Result): string {
+    const items = getResultItems(result).map(item => `- ${itemText(item)}`).join('\n');
+    const sources = result.groundingChunks
+        .map((chunk, index) => chunk.web ? `[${index + 1}] ${chunk.web.title} - ${chunk.web.uri}` : '')
+        .filter(Boolean)
+        .join('\n');
+    const date = new Date(result.timestamp).toLocaleString(LOCALES[result.language], { dateStyle: 'long', timeStyle: 'short' });
+    return `Sen bir haber asistanısın. Kullanıcı aşağıdaki haber brifingi hakkında takip soruları soruyor. Yanıtlarını ${OUTPUT_LANGUAGE_NAMES[result.language]}, kısa ve açık ver. Brifingdeki bilgilerle yetinme; arka plan ve güncel gelişmeler için Google Arama'yı kullan ve emin olmadığın noktaları belirt.\n\nBrifing (${result.source}, ${date}):\n${items}${sources ? `\n\nBrifingin kaynakları:\n${sources}` : ''}`;
+}
+
+export async function answerFollowUp(result: Result, conversation: ChatMessage[], options: { signal?: AbortSignal } = {}): Promise<ChatMessage> {
+    try {
+        return await callGemini('text', async () => {
+            const body: ChatRequestBody = {
+                context: buildFollowUpContext(result),
+                messages: conversation.slice(-FOLLOW_UP_HISTORY_LIMIT).map(message => ({ role: message.role, text: message.text })),
+            };
+            const response = await postJson<ProxyResponse>('/api/chat', body, options.signal);
+            assertNotBlocked(response);
+            const text = response.text?.trim();
+            if (!text) {
+                throw new GeminiError('empty', "No answer received from API.");
+            }
+
+            const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+            const groundingChunks: GroundingChunk[] = (groundingMetadata?.groundingChunks || [])
+                .map(chunk => chunk.web?.uri ? { web: { uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri } } : {});
+            return {
+                id: `${Date.now()}-model`,
+                role: 'model',
+                text,
+                citations: citationsForText(response.text ?? '', groundingMetadata?.groundingSupports || [], groundingChunks),
+                timestamp: Date.now(),
+            };
+        }, options.signal);
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error("Error answering follow-up question:", error);
+        throw error;
+    }
+}
+
+// The model sees which briefing sentences each outlet's sources support,
+// along with the source titles, and compares the outlets from those.
+function buildPerspectivePrompt(result: Result, item: NewsItem | undefined, outlets: { outlet: string; sourceIndices: number[] }[]): string {
+    const items = item ? [item] : getResultItems(result);
+    const material = items
+        .map(entry => `- ${itemText(entry)}${entry.citations?.length ? ` [${entry.citations.map(citation => citation.index + 1).join(', ')}]` : ''}`)
+        .join('\n');
+    const sources = outlets
+        .map(({ outlet, sourceIndices }) => `${outlet}:\n${sourceIndices.map(index => `  [${index + 1}] ${result.groundingChunks[index].web?.title ?? ''}`).join('\n')}`)
+        .join('\n');
+    return `Aşağıdaki haber ${item ? 'maddesinin' : 'brifinginin'} kaynaklarını yayın kuruluşlarına göre grupladım. Her kuruluş için, kaynak başlıklarına ve o kaynaklara dayanan cümlelere bakarak haberi nasıl çerçevelediğini (vurguladığı noktalar, kullandığı dil, öne çıkardığı aktörler) bir iki cümleyle ${OUTPUT_LANGUAGE_NAMES[result.language]} özetle. Ardından kuruluşların olgular konusunda birbirinden ayrıldığı iddiaları listele: her iddia için hangi kuruluşun ne söylediğini yaz. Yalnızca gerçek çelişkileri yaz; yoksa listeyi boş bırak. Kuruluş adlarını aşağıda yazdığım gibi kullan.\n\nHaber:\n${material}\n\nKaynaklar:\n${sources}`;
+}
+
+export async function analyzePerspectives(result: Result, item?: NewsItem, options: { signal?: AbortSignal } = {}): Promise<PerspectiveAnalysis> {
+    const groups = groupSourcesByOutlet(result.groundingChunks, perspectiveSourceIndices(result, item));
+    if (groups.length === 0) {
+        return buildPerspectiveAnalysis(groups, [], [], result.language, item?.id, Date.now());
+    }
+    try {
+        return await callGemini('text', async () => {
+            const body: StructuredRequestBody = {
+                contents: buildPerspectivePrompt(result, item, groups),
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        outlets: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: { outlet: { type: Type.STRING }, framing: { type: Type.STRING } },
+                                required: ['outlet', 'framing'],
+                            },
+                        },
+                        disagreements: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    claim: { type: Type.STRING },
+                                    positions: {
+                                        type: Type.ARRAY,
+                                        items: {
+                                            type: Type.OBJECT,
+                                            properties: { outlet: { type: Type.STRING }, position: { type: Type.STRING } },
+                                            required: ['outlet', 'position'],
+                                        },
+                                    },
+                                },
+                                required: ['claim', 'positions'],
+                            },
+                        },
+                    },
+                    required: ['outlets', 'disagreements'],
+                },
+            };
+            const response = await postJson<ProxyResponse>('/api/structured', body, options.signal);
+            assertNotBlocked(response);
+            if (!response.text) {
+                throw new GeminiError('empty', "No perspective analysis received from API.");
+            }
+
+            const parsed = JSON.parse(response.text) as { outlets?: { outlet: string; framing: string }[]; disagreements?: SourceDisagreement[] };
+            return buildPerspectiveAnalysis(groups, parsed.outlets ?? [], parsed.disagreements ?? [], result.language, item?.id, Date.now());
+        }, options.signal);
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error("Error analyzing perspectives:", error);
+        throw error;
+    }
+}
+
+export async function readArticle(result: Result, chunkIndex: number, options: { signal?: AbortSignal } = {}): Promise<DeepDive> {
+    const web = result.groundingChunks[chunkIndex]?.web;
+    if (!web) throw new Error(`Result ${result.id} has no link at index ${chunkIndex}.`);
+    try {
+        return await callGemini('text', async () => {
+            const body: ArticleRequestBody = {
+                uri: web.uri,
+                prompt: `Aşağıdaki bağlantıdaki haber makalesini ("${web.title}") baştan sona oku ve ${OUTPUT_LANGUAGE_NAMES[result.language]} derinlemesine bir okuma notu hazırla. Yalnızca bu makalede yazanlara dayan. Sayfaya erişemezsen aynı haberi Google Arama ile bul ve bunu özetin başında belirt.\n\n${DEEP_DIVE_FORMAT_INSTRUCTIONS}`,
+            };
+            const response = await postJson<ProxyResponse>('/api/article', body, options.signal);
+            assertNotBlocked(response);
+            const text = response.text?.trim();
+            if (!text) {
+                throw new GeminiError('empty', "No article reading received from API.");
+            }
+
+            const parsed = parseDeepDiveText(text);
+            if (!parsed.summary) {
+                throw new GeminiError('empty', "No article reading received from API.");
+            }
+            const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+            const groundingChunks: GroundingChunk[] = (groundingMetadata?.groundingChunks || [])
+                .map(chunk => chunk.web?.uri ? { web: { uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri } } : {});
+            return {
+                id: `${result.id}-deep-${chunkIndex}-${Date.now()}`,
+                chunkIndex,
+                uri: web.uri,
+                title: web.title,
+                ...parsed,
+                citations: citationsForText(response.text ?? '', groundingMetadata?.groundingSupports || [], groundingChunks),
+                language: result.language,
+                timestamp: Date.now(),
+            };
+        }, options.signal);
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error("Error reading article:", error);
+        throw error;
     }
-}
\ No newline at end of file
+}
+
+// Items are referred to as "<result>.<item>" indices rather than by their
+// ids, which are long and easy for the model to garble.
+export async function extractEntities(results: Result[], options: { signal?: AbortSignal } = {}): Promise<Record<string, ItemEntities>> {
+    const itemsByResult = results.map(getResultItems);
+    const material = itemsByResult
+        .flatMap((items, resultIndex) => items.map((item, itemIndex) => `[${resultIndex}.${itemIndex}] ${itemText(item)}`))
+        .join('\n');
+    try {
+        return await callGemini('background', async () => {
+            const body: StructuredRequestBody = {
+                contents: `Aşağıdaki her haber maddesinde adı geçen kişileri (person), kurum ve kuruluşları (organization), ülke ve yerleri (place) ve haberin ana konularını (other; örneğin "enflasyon", "seçim") çıkar. Adları eksiz, yalın hâliyle yaz ("İstanbul'da" değil "İstanbul") ve aynı varlık için her maddede aynı adı kullan. Her madde için en fazla 8 ad ver; maddede geçmeyen bir şey ekleme. Her maddeyi köşeli parantez içindeki numarasıyla döndür.\n\n${material}`,
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            ref: { type: Type.STRING },
+                            entities: {
+                                type: Type.ARRAY,
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        name: { type: Type.STRING },
+                                        kind: { type: Type.STRING, enum: [...ENTITY_KINDS] },
+                                    },
+                                    required: ['name', 'kind'],
+                                },
+                            },
+                        },
+                        required: ['ref', 'entities'],
+                    },
+                },
+            };
+            const response = await postJson<ProxyResponse>('/api/structured', body, options.signal);
+            assertNotBlocked(response);
+            if (!response.text) {
+                throw new GeminiError('empty', "No entities received from API.");
+            }
+
+            const parsed = JSON.parse(response.text) as { ref: string; entities: NamedEntity[] }[];
+            if (!Array.isArray(parsed)) {
+                throw new GeminiError('empty', "No entities received from API.");
+            }
+            // Items the model skipped are stored as naming nothing, so the
+            // result is not sent again.
+            const extracted: Record<string, ItemEntities> = {};
+            results.forEach((result, resultIndex) => {
+                extracted[result.id] = Object.fromEntries(itemsByResult[resultIndex].map(item => [item.id, []]));
+            });
+            parsed.forEach(({ ref, entities }) => {
+                const [resultIndex, itemIndex] = ref.replace(/[[\]]/g, '').split('.').map(Number);
+                const item = itemsByResult[resultIndex]?.[itemIndex];
+                if (!item || !Array.isArray(entities)) return;
+                extracted[results[resultIndex].id][item.id] = entities
+                    .filter(entity => entity.name?.trim())
+                    .map(entity => ({ name: entity.name.trim(), kind: ENTITY_KINDS.includes(entity.kind) ? entity.kind : 'other' }));
+            });
+            return extracted;
+        }, options.signal);
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error("Error extracting entities:", error);
+        throw error;
+    }
+}
+
+export const geminiProvider: BriefingProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    summarize: summarizeNewsWithGoogleSearch,
+    generateSpeech,
+    interpretVoiceRequest,
+    generatePodcastScript,
+    generateDialogueSpeech,
+    answerFollowUp,
+    analyzePerspectives,
+    readArticle,
+    extractEntities,
+};
@@ -0,0 +1,72 @@
+// Canned stories for the local mock provider. They are written in the same
+// register as real briefings so layouts, search and diffing behave alike.
+// Several stories share entities so the timeline has something to chart.
+
+import type { NamedEntity } from '../types';
+
+export interface MockStory {
+    headline: string;
+    body: string;
+    uri: string;
+    title: string;
+    entities: NamedEntity[];
+}
+
+export const MOCK_STORIES: MockStory[] = [
+    {
+        headline: "Merkez Bankası faiz kararını açıkladı",
+        body: "Para Politikası Kurulu politika faizini sabit tuttu ve enflasyon görünümünde belirgin bir iyileşme olana kadar sıkı duruşun korunacağını bildirdi.",
+        uri: 'https://example.com/ekonomi/faiz-karari',
+        title: "Örnek Haber · Faiz kararı açıklandı",
+        entities: [{ name: "Merkez Bankası", kind: 'organization' }, { name: "Para Politikası Kurulu", kind: 'organization' }, { name: "Türkiye", kind: 'place' }, { name: "enflasyon", kind: 'other' }],
+    },
+    {
+        headline: "İstanbul'da yeni metro hattı hizmete girdi",
+        body: "Şehrin iki yakasını birbirine bağlayan hattın günde yüz binlerce yolcu taşıması ve trafik yoğunluğunu azaltması bekleniyor.",
+        uri: 'https://example.com/sehir/metro-hatti',
+        title: "Örnek Haber · Yeni metro hattı açıldı",
+        entities: [{ name: "İstanbul", kind: 'place' }, { name: "Türkiye", kind: 'place' }, { name: "ulaşım", kind: 'other' }],
+    },
+    {
+        headline: "Milli takım hazırlık maçında galip geldi",
+        body: "Teknik direktör, genç oyunculara şans verdiği karşılaşmanın ardından takımın oyun disiplininden memnun olduğunu söyledi.",
+        uri: 'https://example.com/spor/hazirlik-maci',
+        title: "Örnek Haber · Hazırlık maçı sonucu",
+        entities: [{ name: "Milli takım", kind: 'organization' }, { name: "Türkiye", kind: 'place' }],
+    },
+    {
+        headline: "Yerli uydu başarıyla yörüngeye yerleştirildi",
+        body: "Haberleşme ve gözlem amaçlı uydunun ilk sinyalleri yer istasyonuna ulaştı; testlerin birkaç hafta sürmesi planlanıyor.",
+        uri: 'https://example.com/bilim/uydu',
+        title: "Örnek Haber · Uydu yörüngede",
+        entities: [{ name: "Türkiye", kind: 'place' }, { name: "uzay", kind: 'other' }],
+    },
+    {
+        headline: "Avrupa'da iklim zirvesi sona erdi",
+        body: "Katılımcı ülkeler emisyon hedeflerini güncelleme konusunda uzlaştı, ancak finansman başlığında ortak bir metin çıkmadı.",
+        uri: 'https://example.com/dunya/iklim-zirvesi',
+        title: "Örnek Haber · İklim zirvesi sonuçlandı",
+        entities: [{ name: "Avrupa", kind: 'place' }, { name: "iklim değişikliği", kind: 'other' }],
+    },
+    {
+        headline: "Uluslararası film festivalinde ödüller sahiplerini buldu",
+        body: "Büyük ödülü göç temalı bir ilk film kazanırken jüri, oyuncu kadrosunun doğal performansını özellikle övdü.",
+        uri: 'https://example.com/kultur/film-festivali',
+        title: "Örnek Haber · Festival ödülleri",
+        entities: [{ name: "göç", kind: 'other' }],
+    },
+    {
+        headline: "Grip vakalarında mevsimsel artış",
+        body: "Uzmanlar risk grubundaki kişilere aşı yaptırmalarını ve belirtiler görüldüğünde kalabalık ortamlardan uzak durmalarını önerdi.",
+        uri: 'https://example.com/saglik/grip',
+        title: "Örnek Haber · Grip uyarısı",
+        entities: [{ name: "grip", kind: 'other' }, { name: "Sağlık Bakanlığı", kind: 'organization' }],
+    },
+    {
+        headline: "Yapay zekâ düzenlemesi için taslak yayımlandı",
+        body: "Taslak, yüksek riskli uygulamalar için şeffaflık ve insan denetimi şartı getiriyor; görüşler ay sonuna kadar toplanacak.",
+        uri: 'https://example.com/teknoloji/yapay-zeka-duzenlemesi',
+        title: "Örnek Haber · Yapay zekâ taslağı",
+        entities: [{ name: "yapay zekâ", kind: 'other' }, { name: "Avrupa", kind: 'place' }],
+    },
+];
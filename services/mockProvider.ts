@@ -0,0 +1,198 @@
+import { getResultItems, hashText, itemsToSummary, parseNewsItemSpans } from '../utils/newsItems';
+import { attachCitations, citationsForText } from '../utils/citations';
+import { buildPerspectiveAnalysis, groupSourcesByOutlet, perspectiveSourceIndices } from '../utils/perspectives';
+import { encode, generateTone } from '../utils/audio';
+import { MOCK_STORIES } from './mockFixtures';
+import { PODCAST_HOSTS, TTS_VOICES } from './voices';
+import type { BriefingProvider, SummarizeOptions, SummaryResponse } from './provider';
+import type { ChatMessage, DeepDive, GroundingChunk, ItemEntities, NewsItem, PerspectiveAnalysis, PodcastLine, Result, VoiceIntent } from '../types';
+import type { GroundingSupportLike } from '../utils/citations';
+
+// A local provider for development and end-to-end tests. It never touches
+// the network and is deterministic: the same prompt always yields the same
+// stories, and speech is a sine tone whose pitch depends on the voice.
+
+const SAMPLE_RATE = 24000;
+const STORIES_PER_SUMMARY = 4;
+const STREAM_CHUNK_LENGTH = 48;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+function seed(text: string): number {
+    return parseInt(hashText(text), 36);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+async function summarize(prompt: string, fallbackCategory = '', options: SummarizeOptions = {}): Promise<SummaryResponse> {
+    const start = seed(prompt) % MOCK_STORIES.length;
+    const stories = Array.from({ length: STORIES_PER_SUMMARY }, (_, index) => MOCK_STORIES[(start + index) % MOCK_STORIES.length]);
+    const category = fallbackCategory || 'Gündem';
+    const text = stories.map(story => `### ${story.headline} | ${category}\n${story.body}`).join('\n\n');
+
+    for (let end = STREAM_CHUNK_LENGTH; end < text.length + STREAM_CHUNK_LENGTH; end += STREAM_CHUNK_LENGTH) {
+        await wait(STREAM_CHUNK_DELAY_MS, options.signal);
+        options.onText?.(text.slice(0, end));
+    }
+
+    // Each story is supported by its own fixture source, expressed the way
+    // Gemini reports it: UTF-8 byte offsets into the response.
+    const groundingChunks: GroundingChunk[] = stories.map(story => ({ web: { uri: story.uri, title: story.title } }));
+    const encoder = new TextEncoder();
+    const spans = parseNewsItemSpans(text, category);
+    const supports: GroundingSupportLike[] = spans.map((span, index) => ({
+        segment: {
+            startIndex: encoder.encode(text.slice(0, span.start)).length,
+            endIndex: encoder.encode(text.slice(0, span.end)).length,
+        },
+        groundingChunkIndices: [index],
+    }));
+    const items = attachCitations(text, spans, supports, groundingChunks).map(span => span.item);
+    return { summary: itemsToSummary(items), items, groundingChunks };
+}
+
+function voiceFrequency(voiceName: string): number {
+    const index = TTS_VOICES.findIndex(voice => voice.name === voiceName);
+    return 220 + (index >= 0 ? index : seed(voiceName) % TTS_VOICES.length) * 30;
+}
+
+// Roughly the length real speech of the text would have.
+function toneSeconds(text: string): number {
+    return Math.min(8, Math.max(0.5, text.length * 0.03));
+}
+
+async function generateSpeech(text: string, voiceName = TTS_VOICES[0].name): Promise<string> {
+    return encode(generateTone(voiceFrequency(voiceName), toneSeconds(text), SAMPLE_RATE));
+}
+
+async function interpretVoiceRequest(base64Audio: string, mimeType: string, countries: string[], categories: string[]): Promise<VoiceIntent> {
+    const country = countries[seed(base64Audio) % countries.length];
+    const category = categories[0];
+    return { transcript: `${country} ${category} haberlerini özetle`, kind: 'briefing', country, category };
+}
+
+async function generatePodcastScript(results: Result[]): Promise<PodcastLine[]> {
+    const [first, second] = PODCAST_HOSTS;
+    const lines: PodcastLine[] = [{ speaker: first, text: "Günaydın, sabah bülteninize hoş geldiniz." }];
+    results.forEach((result, index) => {
+        lines.push({ speaker: index % 2 === 0 ? second : first, text: `${result.source} başlığında neler var?` });
+        lines.push({ speaker: index % 2 === 0 ? first : second, text: result.summary.split('\n')[0] ?? '' });
+    });
+    lines.push({ speaker: second, text: "Bugünlük bu kadar, iyi günler." });
+    return lines;
+}
+
+async function generateDialogueSpeech(lines: PodcastLine[], voices: [string, string]): Promise<string> {
+    const parts = lines.map(line => generateTone(voiceFrequency(voices[line.speaker === PODCAST_HOSTS[0] ? 0 : 1]), toneSeconds(line.text), SAMPLE_RATE));
+    const pcm = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        pcm.set(part, offset);
+        offset += part.length;
+    });
+    return encode(pcm);
+}
+
+// Answers from the result itself, citing the first of its sources.
+async function answerFollowUp(result: Result, conversation: ChatMessage[], options: { signal?: AbortSignal } = {}): Promise<ChatMessage> {
+    await wait(STREAM_CHUNK_DELAY_MS * 5, options.signal);
+    const question = [...conversation].reverse().find(message => message.role === 'user')?.text ?? '';
+    const items = result.items ?? [];
+    const item = items.length > 0 ? items[seed(question) % items.length] : undefined;
+    const text = item
+        ? `"${question}" sorusuyla ilgili brifingde şu bilgi öne çıkıyor: ${item.headline}. ${item.body}`
+        : `"${question}" sorusu için bu brifingde yeterli bilgi bulunmuyor.`;
+    const chunks = result.groundingChunks.slice(0, 1);
+    const supports: GroundingSupportLike[] = chunks.length > 0
+        ? [{ segment: { startIndex: 0, endIndex: new TextEncoder().encode(text).length }, groundingChunkIndices: [0] }]
+        : [];
+    return {
+        id: `${Date.now()}-model`,
+        role: 'model',
+        text,
+        citations: citationsForText(text, supports, chunks),
+        timestamp: Date.now(),
+    };
+}
+
+// Describes each outlet by its first source title. With two or more
+// outlets, the first item is reported as disputed between the first two.
+async function analyzePerspectives(result: Result, item?: NewsItem, options: { signal?: AbortSignal } = {}): Promise<PerspectiveAnalysis> {
+    await wait(STREAM_CHUNK_DELAY_MS * 5, options.signal);
+    const groups = groupSourcesByOutlet(result.groundingChunks, perspectiveSourceIndices(result, item));
+    const framings = groups.map(group => ({
+        outlet: group.outlet,
+        framing: `${group.outlet}, haberi "${result.groundingChunks[group.sourceIndices[0]].web?.title ?? ''}" başlığıyla ${group.sourceIndices.length} kaynakta ele aldı.`,
+    }));
+    const subject = item ?? result.items?.[0];
+    const disagreements = groups.length >= 2 && subject
+        ? [{
+            claim: subject.headline || subject.body,
+            positions: [
+                { outlet: groups[0].outlet, position: "Gelişmeyi doğruluyor." },
+                { outlet: groups[1].outlet, position: "Gelişmenin ayrıntılarının henüz netleşmediğini belirtiyor." },
+            ],
+        }]
+        : [];
+    return buildPerspectiveAnalysis(groups, framings, disagreements, result.language, item?.id, Date.now());
+}
+
+// Expands the fixture story behind the link; links that are not fixtures
+// get a generic reading built from their title.
+async function readArticle(result: Result, chunkIndex: number, options: { signal?: AbortSignal } = {}): Promise<DeepDive> {
+    await wait(STREAM_CHUNK_DELAY_MS * 10, options.signal);
+    const web = result.groundingChunks[chunkIndex]?.web;
+    if (!web) throw new Error(`Result ${result.id} has no link at index ${chunkIndex}.`);
+    const story = MOCK_STORIES.find(candidate => candidate.uri === web.uri);
+    const headline = story?.headline ?? web.title;
+    return {
+        id: `${result.id}-deep-${chunkIndex}-${Date.now()}`,
+        chunkIndex,
+        uri: web.uri,
+        title: web.title,
+        summary: `${headline}.\n\n${story?.body ?? "Bu bağlantı için yerel bir örnek metin bulunmuyor."}\n\nBu okuma notu yerel demo sağlayıcısı tarafından üretildi ve makalenin kendisine dayanmıyor.`,
+        quotes: [{ text: "Gelişmeleri yakından takip ediyoruz.", speaker: "Yetkili" }],
+        entities: [{ name: "Türkiye", kind: 'place' }, { name: headline.split(' ')[0], kind: 'other' }],
+        language: result.language,
+        timestamp: Date.now(),
+    };
+}
+
+// Entities come from the fixtures. Results with stories that are not
+// fixtures, e.g. ones a real provider wrote, are left for that provider.
+async function extractEntities(results: Result[], options: { signal?: AbortSignal } = {}): Promise<Record<string, ItemEntities>> {
+    await wait(STREAM_CHUNK_DELAY_MS * 5, options.signal);
+    const extracted: Record<string, ItemEntities> = {};
+    results.forEach(result => {
+        const entities: ItemEntities = {};
+        const isFixture = getResultItems(result).every(item => {
+            const story = MOCK_STORIES.find(candidate => candidate.headline === item.headline);
+            if (story) entities[item.id] = story.entities;
+            return story !== undefined;
+        });
+        if (isFixture) extracted[result.id] = entities;
+    });
+    return extracted;
+}
+
+export const mockProvider: BriefingProvider = {
+    id: 'mock',
+    label: 'Yerel (demo)',
+    summarize,
+    generateSpeech,
+    interpretVoiceRequest,
+    generatePodcastScript,
+    generateDialogueSpeech,
+    answerFollowUp,
+    analyzePerspectives,
+    readArticle,
+    extractEntities,
+};
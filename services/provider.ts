@@ -0,0 +1,60 @@
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import type { ChatMessage, DeepDive, GroundingChunk, ItemEntities, Language, NewsItem, PerspectiveAnalysis, PodcastLine, Result, VoiceIntent } from '../types';
+
+// Everything the app asks of a language/speech backend. Audio is returned
+// as base64 24 kHz mono 16-bit PCM, whatever the provider.
+
+export interface SummarizeOptions {
+    signal?: AbortSignal;
+    // Called with the full text received so far, each time a chunk arrives.
+    onText?: (text: string) => void;
+}
+
+export interface SummaryResponse {
+    summary: string;
+    items: NewsItem[];
+    groundingChunks: GroundingChunk[];
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface BriefingProvider {
+    id: ProviderId;
+    label: string;
+    summarize(prompt: string, fallbackCategory?: string, options?: SummarizeOptions): Promise<SummaryResponse>;
+    generateSpeech(text: string, voiceName?: string, language?: Language): Promise<string>;
+    interpretVoiceRequest(base64Audio: string, mimeType: string, countries: string[], categories: string[]): Promise<VoiceIntent>;
+    generatePodcastScript(results: Result[], language?: Language): Promise<PodcastLine[]>;
+    generateDialogueSpeech(lines: PodcastLine[], voices: [string, string], language?: Language): Promise<string>;
+    // Answers the last user message in `conversation`, grounded in search
+    // and in the briefing the conversation is about.
+    answerFollowUp(result: Result, conversation: ChatMessage[], options?: { signal?: AbortSignal }): Promise<ChatMessage>;
+    // Compares how the outlets among the result's sources (or the sources
+    // cited by `item`) framed the story.
+    analyzePerspectives(result: Result, item?: NewsItem, options?: { signal?: AbortSignal }): Promise<PerspectiveAnalysis>;
+    // Reads the article behind one of the result's grounding links.
+    readArticle(result: Result, chunkIndex: number, options?: { signal?: AbortSignal }): Promise<DeepDive>;
+    // Names the entities and recurring topics in each item of the results,
+    // keyed by result id. Results left out could not be processed.
+    extractEntities(results: Result[], options?: { signal?: AbortSignal }): Promise<Record<string, ItemEntities>>;
+}
+
+export const PROVIDERS: Record<ProviderId, BriefingProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+export const isProviderId = (value: string | null): value is ProviderId => value === 'gemini' || value === 'mock';
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+let activeProviderId: ProviderId = DEFAULT_PROVIDER_ID;
+
+export function getProvider(): BriefingProvider {
+    return PROVIDERS[activeProviderId];
+}
+
+export function setActiveProvider(id: ProviderId): void {
+    activeProviderId = id;
+}
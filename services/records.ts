@@ -0,0 +1,132 @@
+import { isLanguage } from '../i18n';
+import type { ChatMessage, Citation, DeepDive, FavoriteCollection, FavoriteItem, GroundingChunk, NamedEntity, NewsItem, PerspectiveAnalysis, Result } from '../types';
+
+// Shape checks for records that come from outside the running app:
+// IndexedDB, backup files and share links. They run after migration, so
+// they check the current schema, down to every list element the interface
+// renders: a record that passes cannot break the views that show it.
+
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+function arrayOf<T>(value: unknown, isElement: (element: unknown) => element is T): value is T[] {
+    return Array.isArray(value) && value.every(isElement);
+}
+
+// Optional fields may be missing, but not hold something of another type.
+function optional<T>(value: unknown, isValue: (value: unknown) => value is T): value is T | undefined {
+    return value === undefined || isValue(value);
+}
+
+const isStringArray = (value: unknown): value is string[] => arrayOf(value, isString);
+
+function isCitation(value: unknown): value is Citation {
+    return isObject(value) && isIndex(value.index) && isString(value.uri) && isString(value.title);
+}
+
+function isGroundingChunk(value: unknown): value is GroundingChunk {
+    return isObject(value)
+        && optional(value.web, (web): web is GroundingChunk['web'] => isObject(web) && isString(web.uri) && isString(web.title));
+}
+
+function isNewsItem(value: unknown): value is NewsItem {
+    return isObject(value)
+        && isString(value.id)
+        && isString(value.headline)
+        && isString(value.body)
+        && isString(value.category)
+        && optional(value.citations, (citations): citations is Citation[] => arrayOf(citations, isCitation));
+}
+
+function isNamedEntity(value: unknown): value is NamedEntity {
+    return isObject(value) && isString(value.name) && isString(value.kind);
+}
+
+function isChatMessage(value: unknown): value is ChatMessage {
+    return isObject(value)
+        && isString(value.id)
+        && (value.role === 'user' || value.role === 'model')
+        && isString(value.text)
+        && isNumber(value.timestamp)
+        && optional(value.citations, (citations): citations is Citation[] => arrayOf(citations, isCitation));
+}
+
+function isPerspectiveAnalysis(value: unknown): value is PerspectiveAnalysis {
+    return isObject(value)
+        && isString(value.id)
+        && optional(value.itemId, isString)
+        && arrayOf(value.outlets, (outlet): outlet is PerspectiveAnalysis['outlets'][number] => isObject(outlet)
+            && isString(outlet.outlet)
+            && optional(outlet.country, isString)
+            && arrayOf(outlet.sourceIndices, isIndex)
+            && isString(outlet.framing))
+        && arrayOf(value.disagreements, (disagreement): disagreement is PerspectiveAnalysis['disagreements'][number] => isObject(disagreement)
+            && isString(disagreement.claim)
+            && arrayOf(disagreement.positions, (position): position is { outlet: string; position: string } => isObject(position)
+                && isString(position.outlet)
+                && isString(position.position)))
+        && isLanguage(value.language)
+        && isNumber(value.createdAt);
+}
+
+function isDeepDive(value: unknown): value is DeepDive {
+    return isObject(value)
+        && isString(value.id)
+        && isIndex(value.chunkIndex)
+        && isString(value.uri)
+        && isString(value.title)
+        && isString(value.summary)
+        && arrayOf(value.quotes, (quote): quote is DeepDive['quotes'][number] => isObject(quote) && isString(quote.text) && optional(quote.speaker, isString))
+        && arrayOf(value.entities, isNamedEntity)
+        && optional(value.citations, (citations): citations is Citation[] => arrayOf(citations, isCitation))
+        && isLanguage(value.language)
+        && isNumber(value.timestamp);
+}
+
+// Item citations point into the result's grounding chunks.
+const citesKnownSources = (items: NewsItem[] | undefined, sourceCount: number) =>
+    (items ?? []).every(item => (item.citations ?? []).every(citation => citation.index < sourceCount));
+
+export function isValidResult(value: unknown): value is Result {
+    return isObject(value)
+        && isString(value.id)
+        && isString(value.source)
+        && isString(value.summary)
+        && isNumber(value.timestamp)
+        && arrayOf(value.groundingChunks, isGroundingChunk)
+        && optional(value.items, (items): items is NewsItem[] => arrayOf(items, isNewsItem))
+        && citesKnownSources(value.items, value.groundingChunks.length)
+        && optional(value.requestedSites, isStringArray)
+        && optional(value.matchedSites, isStringArray)
+        && optional(value.subscriptionId, isString)
+        && optional(value.unread, (unread): unread is boolean => typeof unread === 'boolean')
+        && optional(value.conversation, (conversation): conversation is ChatMessage[] => arrayOf(conversation, isChatMessage))
+        && optional(value.perspectives, (perspectives): perspectives is PerspectiveAnalysis[] => arrayOf(perspectives, isPerspectiveAnalysis))
+        && optional(value.deepDives, (deepDives): deepDives is DeepDive[] => arrayOf(deepDives, isDeepDive))
+        && optional(value.entities, (entities): entities is Result['entities'] => isObject(entities)
+            && Object.values(entities).every(itemEntities => arrayOf(itemEntities, isNamedEntity)))
+        && isLanguage(value.language);
+}
+
+export function isValidFavorite(value: unknown): value is FavoriteItem {
+    return isObject(value)
+        && isString(value.id)
+        && isString(value.text)
+        && isString(value.source)
+        && isNumber(value.timestamp)
+        && optional(value.item, isNewsItem)
+        && optional(value.resultId, isString)
+        && isStringArray(value.tags)
+        && isString(value.note)
+        && isStringArray(value.collectionIds);
+}
+
+export function isValidCollection(value: unknown): value is FavoriteCollection {
+    return isObject(value)
+        && isString(value.id)
+        && isString(value.name)
+        && isNumber(value.createdAt);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createShareLink, parseSharedResult, readShareFragment, ShareLinkError } from './shareLinks';
+import type { Result } from '../types';
+
+const BASE_URL = 'https://gundem.example/?view=discover';
+
+const result: Result = {
+    id: 'result-1',
+    source: 'Türkiye - Spor',
+    summary: 'Milli takım kazandı. Hazırlık maçı sona erdi.',
+    items: [{
+        id: 'item-1',
+        headline: 'Milli takım kazandı',
+        body: 'Hazırlık maçı sona erdi.',
+        category: 'Spor',
+        citations: [{ index: 0, uri: 'https://example.com/spor', title: 'Örnek Haber' }],
+    }],
+    groundingChunks: [{ web: { uri: 'https://example.com/spor', title: 'Örnek Haber' } }],
+    timestamp: 1_700_000_000_000,
+    unread: true,
+    conversation: [{ id: 'message-1', role: 'user', text: 'Kim attı?', timestamp: 1_700_000_000_001 }],
+    language: 'tr',
+};
+
+async function encodedPayload(result: unknown): Promise<string> {
+    const link = await createShareLink(result as Result, BASE_URL);
+    return readShareFragment(new URL(link).hash)!;
+}
+
+async function problemOf(promise: Promise<unknown>): Promise<string | null> {
+    try {
+        await promise;
+        return null;
+    } catch (error) {
+        return error instanceof ShareLinkError ? error.problem : 'other';
+    }
+}
+
+describe('share links', () => {
+    it('round-trips the briefing without the sender\'s own data', async () => {
+        const link = await createShareLink(result, BASE_URL);
+        expect(new URL(link).search).toBe('');
+        const shared = await parseSharedResult(readShareFragment(new URL(link).hash)!);
+        expect(shared.items).toEqual(result.items);
+        expect(shared.groundingChunks).toEqual(result.groundingChunks);
+        expect(shared.conversation).toBeUndefined();
+        expect(shared.unread).toBeUndefined();
+    });
+
+    it('rejects links that are not share payloads', async () => {
+        expect(await problemOf(parseSharedResult('not-a-payload'))).toBe('unreadable');
+    });
+
+    it.each([
+        ['a null item', { ...result, items: [null] }],
+        ['an item without a body', { ...result, items: [{ id: 'item-1', headline: 'Başlık', category: '' }] }],
+        ['a null grounding chunk', { ...result, groundingChunks: [null] }],
+        ['a link without a uri', { ...result, groundingChunks: [{ web: { title: 'Örnek Haber' } }] }],
+        ['a citation of a missing source', { ...result, items: [{ ...result.items![0], citations: [{ index: 3, uri: 'https://example.com', title: 'X' }] }] }],
+        ['a non-numeric citation index', { ...result, items: [{ ...result.items![0], citations: [{ index: 'a', uri: 'https://example.com', title: 'X' }] }] }],
+    ])('rejects a snapshot with %s', async (_, malformed) => {
+        expect(await problemOf(parseSharedResult(await encodedPayload(malformed)))).toBe('incomplete');
+    });
+});
@@ -0,0 +1,98 @@
+import { migrateResultRecord, RESULT_SCHEMA_VERSION } from './storage';
+import { isObject } from './records';
+import { encode, decode } from '../utils/audio';
+import type { Result } from '../types';
+
+// A shared briefing travels inside the link: a compressed, read-only
+// snapshot of the result in the URL fragment, which browsers never send to
+// a server. Whoever opens the link can read it and import it into their
+// own history. Like backups, the snapshot records the schema version it was
+// written with so links made by an older version of the app still open.
+
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 1;
+
+interface SharePayload {
+    shareVersion: number;
+    resultSchemaVersion: number;
+    result: Result;
+}
+
+// Why a link could not be opened; the app turns it into a message in the
+// interface language.
+export type ShareProblem = 'unreadable' | 'unsupportedVersion' | 'newerSchemaVersion' | 'incomplete';
+
+export class ShareLinkError extends Error {
+    readonly problem: ShareProblem;
+
+    constructor(problem: ShareProblem) {
+        super(`Invalid share link: ${problem}`);
+        this.name = 'ShareLinkError';
+        this.problem = problem;
+    }
+}
+
+// Only what the briefing says is shared. The sender's follow-up chat,
+// analyses, readings, extracted entities and read state stay on their
+// device.
+export function toSnapshot(result: Result): Result {
+    return {
+        id: result.id,
+        source: result.source,
+        summary: result.summary,
+        items: result.items,
+        groundingChunks: result.groundingChunks,
+        timestamp: result.timestamp,
+        requestedSites: result.requestedSites,
+        matchedSites: result.matchedSites,
+        language: result.language,
+    };
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([bytes]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// base64url, so the fragment needs no escaping.
+const toBase64Url = (bytes: Uint8Array) => encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (text: string) => decode(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+export async function createShareLink(result: Result, baseUrl: string): Promise<string> {
+    const payload: SharePayload = {
+        shareVersion: SHARE_VERSION,
+        resultSchemaVersion: RESULT_SCHEMA_VERSION,
+        result: toSnapshot(result),
+    };
+    const compressed = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+    const url = new URL(baseUrl);
+    url.search = '';
+    url.hash = `${SHARE_PARAM}=${toBase64Url(compressed)}`;
+    return url.toString();
+}
+
+// The encoded snapshot in a location hash such as "#share=…", if any.
+export function readShareFragment(hash: string): string | null {
+    return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+}
+
+export async function parseSharedResult(encoded: string): Promise<Result> {
+    let payload: unknown;
+    try {
+        const bytes = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+        payload = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new ShareLinkError('unreadable');
+    }
+    if (!isObject(payload)) throw new ShareLinkError('unreadable');
+    const { shareVersion, resultSchemaVersion, result } = payload;
+    if (shareVersion !== SHARE_VERSION) throw new ShareLinkError('unsupportedVersion');
+    if (typeof resultSchemaVersion !== 'number' || !Number.isInteger(resultSchemaVersion) || resultSchemaVersion < 1) throw new ShareLinkError('incomplete');
+    if (resultSchemaVersion > RESULT_SCHEMA_VERSION) throw new ShareLinkError('newerSchemaVersion');
+    if (!isObject(result)) throw new ShareLinkError('incomplete');
+    // Every item, source and citation is checked here: the preview renders
+    // them, and an imported result is stored and loaded on every start.
+    const migrated = migrateResultRecord({ ...result, schemaVersion: resultSchemaVersion });
+    if (!migrated) throw new ShareLinkError('incomplete');
+    return toSnapshot(migrated);
+}
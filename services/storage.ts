@@ -0,0 +1,305 @@
+import { parseLegacySummary, categoryFromSource, withUniqueItemIds } from '../utils/newsItems';
+import { linkFavoritesToResults } from '../utils/favorites';
+import { isObject, isValidFavorite, isValidResult } from './records';
+import type { FavoriteCollection, FavoriteItem, NewsItem, Result, RetentionPolicy } from '../types';
+
+// History and favorites live in IndexedDB, one record per result/favorite,
+// so a change only rewrites the records that actually changed. Every record
+// carries the schema version it was written with and is migrated step by
+// step when read.
+
+const DB_NAME = 'newsBriefing';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+const FAVORITES_STORE = 'favorites';
+const META_STORE = 'meta';
+
+export const RESULT_SCHEMA_VERSION = 5;
+export const FAVORITE_SCHEMA_VERSION = 3;
+const SETTINGS_VERSION = 1;
+
+const QUOTA_WARNING_RATIO = 0.8;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { maxAgeDays: null, maxCount: null };
+
+// A record as read from storage or a file, before it is known to have the
+// current shape.
+export type StoredRecord = Record<string, unknown> & { schemaVersion?: number };
+type Migration = (record: StoredRecord) => StoredRecord;
+
+const text = (value: unknown) => typeof value === 'string' ? value : '';
+const isItemLike = (value: unknown): value is Record<string, unknown> & Pick<NewsItem, 'id' | 'headline' | 'body'> =>
+    isObject(value) && typeof value.id === 'string' && typeof value.headline === 'string' && typeof value.body === 'string';
+
+// Step N upgrades a record from version N to N + 1. Records written before
+// versioning existed are version 1.
+const resultMigrations: Record<number, Migration> = {
+    // v1 → v2: plain-text summaries gain a structured item list.
+    1: (record) => ({
+        ...record,
+        items: record.items ?? parseLegacySummary(text(record.summary), categoryFromSource(text(record.source))),
+    }),
+    // v2 → v3: early grounding chunks could lack a title or a uri.
+    2: (record) => ({
+        ...record,
+        groundingChunks: (Array.isArray(record.groundingChunks) ? record.groundingChunks : []).map((chunk: unknown) => {
+            const web = isObject(chunk) && isObject(chunk.web) ? chunk.web : null;
+            const uri = text(web?.uri);
+            return uri ? { web: { uri, title: text(web?.title) || uri } } : {};
+        }),
+    }),
+    // v3 → v4: results record the language they were written in; everything
+    // before the language setting was Turkish.
+    3: (record) => ({
+        ...record,
+        language: record.language ?? 'tr',
+    }),
+    // v4 → v5: a story repeated word for word within one result shared an
+    // id; later copies get their own (see withUniqueItemIds). Malformed
+    // lists are left for validation to reject.
+    4: (record) => ({
+        ...record,
+        items: Array.isArray(record.items) && record.items.every(isItemLike) ? withUniqueItemIds(record.items) : record.items,
+    }),
+};
+
+const favoriteMigrations: Record<number, Migration> = {
+    // v1 → v2: text-only favorites are wrapped in an item, using the same
+    // parsing as legacy results so ids still line up.
+    1: (record) => ({
+        ...record,
+        item: record.item ?? parseLegacySummary(text(record.text), categoryFromSource(text(record.source)))[0],
+    }),
+    // v2 → v3: favorites gain tags, a note and collections. The link to
+    // their result needs the history, so loadStoredData adds it.
+    2: (record) => ({
+        ...record,
+        tags: record.tags ?? [],
+        note: record.note ?? '',
+        collectionIds: record.collectionIds ?? [],
+    }),
+};
+
+function migrate(record: StoredRecord, migrations: Record<number, Migration>, target: number): { record: StoredRecord; changed: boolean } {
+    let current = record;
+    let version = record.schemaVersion ?? 1;
+    const changed = version < target;
+    while (version < target) {
+        const step = migrations[version];
+        current = step ? step(current) : current;
+        version++;
+    }
+    return { record: { ...current, schemaVersion: target }, changed };
+}
+
+export class StorageQuotaError extends Error {
+    constructor(message = "Storage quota exceeded.") {
+        super(message);
+        this.name = 'StorageQuotaError';
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+                db.createObjectStore(FAVORITES_STORE, { keyPath: 'id' });
+                db.createObjectStore(META_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error?.name === 'QuotaExceededError' ? new StorageQuotaError() : tx.error);
+        tx.onabort = () => reject(tx.error?.name === 'QuotaExceededError' ? new StorageQuotaError() : tx.error);
+    });
+}
+
+async function getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await openDatabase();
+    const entry = await promisify<{ key: string; value: T } | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+    return entry?.value;
+}
+
+async function setMeta<T>(key: string, value: T): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put({ key, value });
+    await completion(tx);
+}
+
+// Last JSON written per record, so saves only touch records that changed.
+const savedSnapshots: Record<string, Map<string, string>> = {
+    [RESULTS_STORE]: new Map(),
+    [FAVORITES_STORE]: new Map(),
+};
+
+async function saveRecords<T extends { id: string }>(storeName: string, records: T[], schemaVersion: number): Promise<void> {
+    const snapshot = savedSnapshots[storeName];
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const nextSnapshot = new Map<string, string>();
+    for (const record of records) {
+        const json = JSON.stringify(record);
+        nextSnapshot.set(record.id, json);
+        if (snapshot.get(record.id) !== json) {
+            store.put({ ...record, schemaVersion });
+        }
+    }
+    snapshot.forEach((_, id) => {
+        if (!nextSnapshot.has(id)) store.delete(id);
+    });
+    await completion(tx);
+    savedSnapshots[storeName] = nextSnapshot;
+}
+
+function stripVersion(record: StoredRecord): Record<string, unknown> {
+    const { schemaVersion, ...rest } = record;
+    return rest;
+}
+
+// Migrates a record to the current schema and checks the result; null if it
+// does not have the current shape even then.
+export function migrateResultRecord(record: StoredRecord): Result | null {
+    const migrated = stripVersion(migrate(record, resultMigrations, RESULT_SCHEMA_VERSION).record);
+    return isValidResult(migrated) ? migrated : null;
+}
+
+export function migrateFavoriteRecord(record: StoredRecord): FavoriteItem | null {
+    const migrated = stripVersion(migrate(record, favoriteMigrations, FAVORITE_SCHEMA_VERSION).record);
+    return isValidFavorite(migrated) ? migrated : null;
+}
+
+// Records that fail the shape check after migration are left in the store
+// untouched but not loaded, so one damaged record cannot break the app.
+async function loadRecords<T extends { id: string }>(
+    storeName: string,
+    migrations: Record<number, Migration>,
+    target: number,
+    isValid: (record: unknown) => record is T,
+): Promise<T[]> {
+    const db = await openDatabase();
+    const raw = await promisify<unknown[]>(db.transaction(storeName).objectStore(storeName).getAll());
+    const migrated = raw.filter(isObject).map(record => migrate(record, migrations, target));
+    const changed = migrated.filter(entry => entry.changed).map(entry => entry.record);
+    if (changed.length > 0) {
+        const tx = db.transaction(storeName, 'readwrite');
+        changed.forEach(record => tx.objectStore(storeName).put(record));
+        await completion(tx);
+    }
+    const records = migrated.map(entry => stripVersion(entry.record)).filter(isValid);
+    if (records.length < raw.length) {
+        console.warn(`Skipped ${raw.length - records.length} unreadable record(s) in ${storeName}`);
+    }
+    savedSnapshots[storeName] = new Map(records.map(record => [record.id, JSON.stringify(record)]));
+    return records;
+}
+
+// Data saved by earlier versions of the app lived in localStorage as two
+// JSON arrays. It is copied over once (as schema version 1 records, so the
+// regular migrations apply) and then removed to free the quota.
+async function importFromLocalStorage(): Promise<void> {
+    if (await getMeta<boolean>('importedLocalStorage')) return;
+    const db = await openDatabase();
+    const tx = db.transaction([RESULTS_STORE, FAVORITES_STORE], 'readwrite');
+    const parse = <T>(key: string): T[] => {
+        try {
+            const value = localStorage.getItem(key);
+            return value ? JSON.parse(value) : [];
+        } catch (e) {
+            console.error(`Failed to read ${key} from localStorage`, e);
+            return [];
+        }
+    };
+    parse<Result>('newsBriefingHistory').forEach(record => tx.objectStore(RESULTS_STORE).put({ schemaVersion: 1, ...record }));
+    parse<FavoriteItem>('newsBriefingFavorites').forEach(record => tx.objectStore(FAVORITES_STORE).put({ schemaVersion: 1, ...record }));
+    await completion(tx);
+    await setMeta('importedLocalStorage', true);
+    localStorage.removeItem('newsBriefingHistory');
+    localStorage.removeItem('newsBriefingFavorites');
+}
+
+export async function loadStoredData(): Promise<{ history: Result[]; favorites: FavoriteItem[] }> {
+    await importFromLocalStorage();
+    const history = await loadRecords(RESULTS_STORE, resultMigrations, RESULT_SCHEMA_VERSION, isValidResult);
+    const favorites = await loadRecords(FAVORITES_STORE, favoriteMigrations, FAVORITE_SCHEMA_VERSION, isValidFavorite);
+    return { history, favorites: linkFavoritesToResults(favorites, history) };
+}
+
+export function saveHistory(history: Result[]): Promise<void> {
+    return saveRecords(RESULTS_STORE, history, RESULT_SCHEMA_VERSION);
+}
+
+export function saveFavorites(favorites: FavoriteItem[]): Promise<void> {
+    return saveRecords(FAVORITES_STORE, favorites, FAVORITE_SCHEMA_VERSION);
+}
+
+export async function loadRetentionPolicy(): Promise<RetentionPolicy> {
+    return (await getMeta<RetentionPolicy>('retentionPolicy')) ?? DEFAULT_RETENTION_POLICY;
+}
+
+export function saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+    return setMeta('retentionPolicy', policy);
+}
+
+export async function loadCollections(): Promise<FavoriteCollection[]> {
+    return (await getMeta<FavoriteCollection[]>('favoriteCollections')) ?? [];
+}
+
+export function saveCollections(collections: FavoriteCollection[]): Promise<void> {
+    return setMeta('favoriteCollections', collections);
+}
+
+export interface QuotaStatus {
+    usage: number;
+    quota: number;
+    nearLimit: boolean;
+}
+
+export async function checkStorageQuota(): Promise<QuotaStatus | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota, nearLimit: quota > 0 && usage / quota >= QUOTA_WARNING_RATIO };
+}
+
+// Display settings stay in localStorage because the first render needs them
+// synchronously; they get the same kind of numbered migration steps.
+const settingsMigrations: Record<number, () => void> = {
+    // v0 → v1: the 'small' font size was removed.
+    0: () => {
+        if (localStorage.getItem('fontSize') === 'small') {
+            localStorage.setItem('fontSize', 'medium');
+        }
+    },
+};
+
+export function migrateSettings(): void {
+    let version = Number(localStorage.getItem('settingsVersion') ?? 0);
+    while (version < SETTINGS_VERSION) {
+        settingsMigrations[version]?.();
+        version++;
+    }
+    localStorage.setItem('settingsVersion', String(SETTINGS_VERSION));
+}
@@ -0,0 +1,19 @@
+// Prebuilt TTS voices offered in the UI. The names are Gemini's; other
+// providers map them onto whatever they can produce.
+
+export const DEFAULT_VOICE = 'Kore';
+
+export const TTS_VOICES: { name: string; description: string }[] = [
+    { name: 'Kore', description: 'Kararlı' },
+    { name: 'Charon', description: 'Bilgilendirici' },
+    { name: 'Puck', description: 'Neşeli' },
+    { name: 'Zephyr', description: 'Parlak' },
+    { name: 'Fenrir', description: 'Heyecanlı' },
+    { name: 'Aoede', description: 'Akıcı' },
+    { name: 'Leda', description: 'Genç' },
+    { name: 'Orus', description: 'Tok' },
+    { name: 'Sulafat', description: 'Sıcak' },
+    { name: 'Iapetus', description: 'Net' },
+];
+
+export const PODCAST_HOSTS: [string, string] = ['Deniz', 'Selin'];
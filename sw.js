@@ -0,0 +1,85 @@
+// Service worker for the installable app. It keeps the app shell available
+// offline; briefings, favorites and audio already live in IndexedDB, so once
+// the shell loads the app works from local data alone.
+//
+// The build (see vite.config.ts) fills in the hashed scripts and styles it
+// produced, which are precached with the shell, and a version that changes
+// with them so an old build's cache is dropped once the new one is
+// installed. The dev server does not register the worker.
+//
+// Same-origin files are fetched from the network first and fall back to the
+// cache, so a deploy is picked up on the next online load. The CDN scripts
+// the page imports (Tailwind, React, @google/genai) are served from the
+// cache and refreshed in the background. /api calls are never cached: the
+// app queues them itself while offline.
+
+const BUILD_VERSION = 'dev';
+const BUILD_FILES = [];
+
+const SHELL_CACHE = `gundem-shell-${BUILD_VERSION}`;
+const CDN_CACHE = 'gundem-cdn-v1';
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then(cache => cache.addAll([...SHELL_FILES, ...BUILD_FILES]))
+            .then(() => self.skipWaiting()),
+    );
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== CDN_CACHE).map(key => caches.delete(key))))
+            .then(() => self.clients.claim()),
+    );
+});
+
+async function networkFirst(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+        if (cached) return cached;
+        // Any route of the single-page app is served by index.html.
+        if (request.mode === 'navigate') {
+            const shell = await cache.match('/index.html');
+            if (shell) return shell;
+        }
+        throw error;
+    }
+}
+
+async function staleWhileRevalidate(request) {
+    const cache = await caches.open(CDN_CACHE);
+    const cached = await cache.match(request);
+    const refresh = fetch(request)
+        .then(response => {
+            // Cross-origin scripts may come back opaque; they are still
+            // usable from the cache.
+            if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+            return response;
+        });
+    if (cached) {
+        refresh.catch(() => undefined);
+        return cached;
+    }
+    return refresh;
+}
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    if (url.origin === self.location.origin) {
+        if (url.pathname.startsWith('/api/')) return;
+        event.respondWith(networkFirst(request));
+    } else if (CDN_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`))) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
+});
@@ -0,0 +1,47 @@
+export type BackgroundTheme = 'light' | 'dark' | 'sepia';
+export type FontSize = 'medium' | 'large' | 'xlarge';
+
+export const fontSizeClassMap: Record<FontSize, string> = {
+    medium: 'text-base',
+    large: 'text-lg',
+    xlarge: 'text-xl',
+};
+
+export const themeStyles: Record<BackgroundTheme, { bg: string, text: string, cardBg: string, cardBorder: string, prose: string, subText: string, inputBg: string, hoverBg: string, activeTab: string, inactiveTab: string }> = {
+    light: {
+        bg: 'bg-gray-100',
+        text: 'text-gray-800',
+        cardBg: 'bg-white/50',
+        cardBorder: 'border-gray-300',
+        prose: '',
+        subText: 'text-gray-500',
+        inputBg: 'bg-gray-200',
+        hoverBg: 'hover:bg-gray-300',
+        activeTab: 'bg-white shadow text-gray-800',
+        inactiveTab: 'text-gray-600 hover:bg-gray-200',
+    },
+    dark: {
+        bg: 'bg-gray-900',
+        text: 'text-gray-200',
+        cardBg: 'bg-gray-800/50',
+        cardBorder: 'border-gray-700',
+        prose: 'prose-invert',
+        subText: 'text-gray-400',
+        inputBg: 'bg-gray-700/80',
+        hoverBg: 'hover:bg-gray-600/80',
+        activeTab: 'bg-gray-700 shadow text-gray-200',
+        inactiveTab: 'text-gray-400 hover:bg-gray-700/80',
+    },
+    sepia: {
+        bg: 'bg-[#fbf0e4]',
+        text: 'text-[#5b4636]',
+        cardBg: 'bg-[#f5e5d3]/50',
+        cardBorder: 'border-[#dcd0c0]',
+        prose: 'prose-sepia',
+        subText: 'text-[#8d7966]',
+        inputBg: 'bg-[#e9dac9]',
+        hoverBg: 'hover:bg-[#dcd0c0]',
+        activeTab: 'bg-[#f5e5d3] shadow text-[#5b4636]',
+        inactiveTab: 'text-[#8d7966] hover:bg-[#e9dac9]',
+    },
+};
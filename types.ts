@@ -5,17 +5,198 @@ export interface GroundingChunk {
   };
 }
 
+export interface NewsSite {
+  id: string;
+  domain: string;
+  name: string;
+  language: string;
+}
+
+export interface Citation {
+  index: number;
+  uri: string;
+  title: string;
+}
+
+export interface NewsItem {
+  id: string;
+  headline: string;
+  body: string;
+  category: string;
+  citations?: Citation[];
+}
+
 export interface Result {
   id: string;
   source: string;
   summary: string;
+  items?: NewsItem[];
   groundingChunks: GroundingChunk[];
   timestamp: number;
+  requestedSites?: string[];
+  matchedSites?: string[];
+  subscriptionId?: string;
+  unread?: boolean;
+  conversation?: ChatMessage[];
+  perspectives?: PerspectiveAnalysis[];
+  deepDives?: DeepDive[];
+  // Entities named in each item, keyed by item id. Missing until the result
+  // has been through extraction for the "Zaman Çizelgesi" view.
+  entities?: ItemEntities;
+  language: Language;
+}
+
+// One turn of the follow-up ("Sor") chat on a result. Answers carry the
+// search results that support them.
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  citations?: Citation[];
+  timestamp: number;
+}
+
+// How one outlet among a result's grounding sources framed the story.
+// `sourceIndices` point into the result's groundingChunks.
+export interface OutletFraming {
+  outlet: string;
+  country?: string;
+  sourceIndices: number[];
+  framing: string;
+}
+
+// A factual point the outlets report differently.
+export interface SourceDisagreement {
+  claim: string;
+  positions: { outlet: string; position: string }[];
+}
+
+// The "Bakış Açıları" analysis of a whole result, or of one of its items
+// when `itemId` is set.
+export interface PerspectiveAnalysis {
+  id: string;
+  itemId?: string;
+  outlets: OutletFraming[];
+  disagreements: SourceDisagreement[];
+  language: Language;
+  createdAt: number;
+}
+
+export type EntityKind = 'person' | 'organization' | 'place' | 'other';
+
+// A person, organization or place named in a text; recurring topics
+// ("enflasyon", "seçim") are kind 'other'.
+export interface NamedEntity {
+  name: string;
+  kind: EntityKind;
+}
+
+export type ItemEntities = Record<string, NamedEntity[]>;
+
+export interface DeepDiveQuote {
+  text: string;
+  speaker?: string;
+}
+
+// A "Derinlemesine oku" reading of one of a result's grounding links: a
+// longer summary of that single article with its key quotes and the people,
+// organizations and places it names. `chunkIndex` points into the parent
+// result's groundingChunks.
+export interface DeepDive {
+  id: string;
+  chunkIndex: number;
+  uri: string;
+  title: string;
+  summary: string;
+  quotes: DeepDiveQuote[];
+  entities: NamedEntity[];
+  // Search results the model used besides the article itself.
+  citations?: Citation[];
+  language: Language;
+  timestamp: number;
+}
+
+export type BriefingRequest =
+  | { kind: 'news'; country: string; category: string }
+  | { kind: 'discover'; topic: string }
+  | { kind: 'sites'; sites: NewsSite[]; category?: string }
+  | { kind: 'question'; question: string }
+  | { kind: 'topic'; topic: string };
+
+export type SubscriptionTarget =
+  | { kind: 'news'; country: string; category: string }
+  | { kind: 'discover'; topic: string }
+  | { kind: 'sites'; siteIds: string[]; category?: string }
+  | { kind: 'topic'; topic: string };
+
+export interface Subscription {
+  id: string;
+  target: SubscriptionTarget;
+  intervalMinutes: number;
+  createdAt: number;
+  lastRunAt?: number;
+  lastSuccessAt?: number;
+  lastErrorAt?: number;
+  lastError?: string;
 }
 
 export interface FavoriteItem {
   id: string;
   text: string;
+  item?: NewsItem;
   source: string;
   timestamp: number;
+  // The result the item was saved from. Old favorites whose result was
+  // deleted before they could be linked have none.
+  resultId?: string;
+  tags: string[];
+  note: string;
+  collectionIds: string[];
+}
+
+// A named reading list of favorites, e.g. everything saved for one piece of
+// research. A favorite can be in any number of collections.
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface VoiceIntent {
+  transcript: string;
+  kind: 'briefing' | 'question';
+  country?: string;
+  category?: string;
+  question?: string;
+}
+
+export interface PodcastLine {
+  speaker: string;
+  text: string;
+}
+
+// An entry in one of the user-editable pick lists. The name is also what
+// goes into prompts and result sources, so it is unique within its catalog.
+// Built-in entries can only be hidden; entries the user added can be removed.
+export interface CatalogEntry {
+  name: string;
+  hidden: boolean;
+  custom: boolean;
+}
+
+export type CatalogId = 'countries' | 'categories' | 'discoverCategories';
+
+export type Catalogs = Record<CatalogId, CatalogEntry[]>;
+
+// One editable prompt per briefing kind, with {placeholders} filled in from
+// the request.
+export type PromptTemplates = Record<BriefingRequest['kind'], string>;
+
+// Languages the interface is translated into; briefings can be written in
+// any of them too.
+export type Language = 'tr' | 'en' | 'de';
+
+export interface RetentionPolicy {
+  maxAgeDays: number | null;
+  maxCount: number | null;
 }
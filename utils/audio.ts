@@ -35,3 +35,67 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+export function floatTo16BitPcm(samples: Float32Array): Uint8Array {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return new Uint8Array(int16.buffer);
+}
+
+// Linear-interpolation resampling. Microphones record at the device rate
+// (usually 44.1 or 48 kHz); good enough for speech going down to 16 kHz.
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = samples[index] + (samples[next] - samples[index]) * fraction;
+  }
+  return output;
+}
+
+// Wraps raw little-endian 16-bit PCM in a RIFF/WAVE header.
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels: number): Blob {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  const bytesPerSample = 2;
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, 8 * bytesPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  return new Blob([header, pcm.slice().buffer], { type: 'audio/wav' });
+}
+
+// A plain sine tone with short fades, as 16-bit PCM. Used where real speech
+// is not available, e.g. by the local mock provider.
+export function generateTone(frequency: number, seconds: number, sampleRate: number): Uint8Array {
+  const length = Math.round(seconds * sampleRate);
+  const fade = Math.min(Math.round(0.01 * sampleRate), Math.floor(length / 2));
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - 1 - i) / fade);
+    samples[i] = 0.2 * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return floatTo16BitPcm(samples);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { classifyItem, computeHistoryDiffs, countChanges } from './briefingDiff';
+import type { NewsItem, Result } from '../types';
+
+const item = (id: string, headline: string, body: string): NewsItem => ({ id, headline, body, category: 'Ekonomi' });
+
+const result = (id: string, source: string, timestamp: number, items: NewsItem[]): Result => ({
+    id,
+    source,
+    summary: '',
+    items,
+    groundingChunks: [],
+    timestamp,
+    language: 'tr',
+});
+
+const rateDecision = item('rate', "Merkez Bankası faizi sabit tuttu", "Politika faizi yüzde elli seviyesinde kaldı.");
+const previousItems = [rateDecision];
+
+describe('classifyItem', () => {
+    it('treats the same item as covered', () => {
+        expect(classifyItem(rateDecision, previousItems)).toBe('covered');
+    });
+
+    it('treats a story told again in the same words as covered', () => {
+        expect(classifyItem({ ...rateDecision, id: 'rate-again' }, previousItems)).toBe('covered');
+    });
+
+    it('treats a known headline with new details as updated', () => {
+        const followUp = item('rate-reaction', rateDecision.headline, "Karar piyasalarda beklenen etkiyi yarattı, dolar geriledi.");
+        expect(classifyItem(followUp, previousItems)).toBe('updated');
+    });
+
+    it('treats an unrelated story as new', () => {
+        const earthquake = item('quake', "Deprem İzmir'i salladı", "Kandilli büyüklüğü açıkladı.");
+        expect(classifyItem(earthquake, previousItems)).toBe('new');
+    });
+});
+
+describe('computeHistoryDiffs', () => {
+    it('compares each result with the previous one from the same source', () => {
+        const earthquake = item('quake', "Deprem İzmir'i salladı", "Kandilli büyüklüğü açıkladı.");
+        const history = [
+            result('morning', 'Türkiye - Ekonomi', 1, [rateDecision]),
+            result('other', 'Dünya - Gündem', 2, [earthquake]),
+            result('evening', 'Türkiye - Ekonomi', 3, [rateDecision, earthquake]),
+        ];
+        const diffs = computeHistoryDiffs(history);
+        expect(diffs.has('morning')).toBe(false);
+        expect(diffs.has('other')).toBe(false);
+        const evening = diffs.get('evening')!;
+        expect(evening.previousId).toBe('morning');
+        expect(evening.changes).toEqual({ rate: 'covered', quake: 'new' });
+        expect(countChanges(evening)).toEqual({ new: 1, updated: 0, covered: 1 });
+    });
+});
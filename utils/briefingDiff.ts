@@ -0,0 +1,87 @@
+import type { NewsItem, Result } from '../types';
+import { getResultItems } from './newsItems';
+
+export type ItemChange = 'new' | 'updated' | 'covered';
+
+export interface ResultDiff {
+  previousId: string;
+  changes: Record<string, ItemChange>;
+}
+
+// Thresholds for the Jaccard overlap of significant words. A story that keeps
+// its headline but gains new details is "updated"; one that barely changed
+// is "covered".
+const SAME_STORY_THRESHOLD = 0.45;
+const UNCHANGED_THRESHOLD = 0.8;
+
+const STOPWORDS = new Set([
+  've', 'ile', 'bir', 'bu', 'şu', 'için', 'da', 'de', 'ki', 'mi', 'ne', 'olarak', 'olan', 'gibi', 'daha', 'en',
+  'çok', 'ancak', 'ama', 'veya', 'ya', 'her', 'göre', 'kadar', 'sonra', 'önce', 'ise', 'the', 'and', 'of', 'to', 'in',
+]);
+
+function tokenize(text: string): Set<string> {
+  const words = text
+    .toLocaleLowerCase('tr-TR')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 2 && !STOPWORDS.has(word))
+    // Crude stemming: Turkish suffixes make "seçimi", "seçimde" and "seçim"
+    // different words, so only the first five letters are compared.
+    .map(word => word.slice(0, 5));
+  return new Set(words);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+export function classifyItem(item: NewsItem, previousItems: NewsItem[]): ItemChange {
+  if (previousItems.some(previous => previous.id === item.id)) return 'covered';
+  const headline = tokenize(item.headline);
+  const full = tokenize(`${item.headline} ${item.body}`);
+  let best = 0;
+  let bestHeadline = 0;
+  for (const previous of previousItems) {
+    const score = jaccard(full, tokenize(`${previous.headline} ${previous.body}`));
+    if (score > best) {
+      best = score;
+      bestHeadline = item.headline && previous.headline ? jaccard(headline, tokenize(previous.headline)) : 0;
+    }
+  }
+  if (best >= UNCHANGED_THRESHOLD) return 'covered';
+  if (best >= SAME_STORY_THRESHOLD || bestHeadline >= UNCHANGED_THRESHOLD) return 'updated';
+  return 'new';
+}
+
+export function diffResults(result: Result, previous: Result): ResultDiff {
+  const previousItems = getResultItems(previous);
+  const changes: Record<string, ItemChange> = {};
+  for (const item of getResultItems(result)) {
+    changes[item.id] = classifyItem(item, previousItems);
+  }
+  return { previousId: previous.id, changes };
+}
+
+// Compares every result with the most recent earlier result from the same
+// source. Results without a predecessor get no diff.
+export function computeHistoryDiffs(history: Result[]): Map<string, ResultDiff> {
+  const diffs = new Map<string, ResultDiff>();
+  const lastBySource = new Map<string, Result>();
+  const chronological = [...history].sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id));
+  for (const result of chronological) {
+    const previous = lastBySource.get(result.source);
+    if (previous) diffs.set(result.id, diffResults(result, previous));
+    lastBySource.set(result.source, result);
+  }
+  return diffs;
+}
+
+export function countChanges(diff: ResultDiff): Record<ItemChange, number> {
+  const counts: Record<ItemChange, number> = { new: 0, updated: 0, covered: 0 };
+  Object.values(diff.changes).forEach(change => counts[change]++);
+  return counts;
+}
@@ -0,0 +1,79 @@
+import type { CatalogEntry, CatalogId, Catalogs } from '../types';
+
+const BUILT_IN_NAMES: Record<CatalogId, string[]> = {
+  countries: ["Dünya", "Türkiye", "ABD", "Almanya", "İngiltere", "Fransa", "Japonya", "Rusya", "Çin"],
+  categories: ["Gündem", "Son Dakika", "Spor", "Teknoloji", "Bilim", "Sanat", "Sağlık", "Eğlence"],
+  discoverCategories: ["Yorum & Analiz", "Edebiyat & Sanat", "Felsefe", "Popüler Bilim", "Siyaset", "Din", "Sinema", "Toplum", "Psikoloji", "Hukuk"],
+};
+
+export const CATALOG_IDS: CatalogId[] = ['countries', 'categories', 'discoverCategories'];
+
+function builtInEntries(id: CatalogId): CatalogEntry[] {
+  return BUILT_IN_NAMES[id].map(name => ({ name, hidden: false, custom: false }));
+}
+
+export const DEFAULT_CATALOGS: Catalogs = {
+  countries: builtInEntries('countries'),
+  categories: builtInEntries('categories'),
+  discoverCategories: builtInEntries('discoverCategories'),
+};
+
+export function visibleNames(catalog: CatalogEntry[]): string[] {
+  return catalog.filter(entry => !entry.hidden).map(entry => entry.name);
+}
+
+export function catalogNames(catalog: CatalogEntry[]): string[] {
+  return catalog.map(entry => entry.name);
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLocaleLowerCase('tr-TR') === b.toLocaleLowerCase('tr-TR');
+}
+
+// Result sources are built as "<country> - <category>" and split on the
+// separator again for search facets, so names must not contain it.
+export type EntryNameProblem = 'empty' | 'separator' | 'duplicate';
+
+export function validateEntryName(catalog: CatalogEntry[], name: string): EntryNameProblem | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'empty';
+  if (trimmed.includes(' - ')) return 'separator';
+  if (catalog.some(entry => sameName(entry.name, trimmed))) return 'duplicate';
+  return null;
+}
+
+export function addCatalogEntry(catalog: CatalogEntry[], name: string): CatalogEntry[] {
+  return [...catalog, { name: name.trim(), hidden: false, custom: true }];
+}
+
+export function moveCatalogEntry(catalog: CatalogEntry[], index: number, offset: number): CatalogEntry[] {
+  const target = index + offset;
+  if (target < 0 || target >= catalog.length) return catalog;
+  const next = [...catalog];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function toggleCatalogEntry(catalog: CatalogEntry[], name: string): CatalogEntry[] {
+  return catalog.map(entry => entry.name === name ? { ...entry, hidden: !entry.hidden } : entry);
+}
+
+export function removeCatalogEntry(catalog: CatalogEntry[], name: string): CatalogEntry[] {
+  return catalog.filter(entry => !(entry.custom && entry.name === name));
+}
+
+// Saved catalogs keep the user's order and choices; built-in entries the
+// saved copy does not know about yet (added by a later version of the app)
+// are appended so they are not lost.
+export function restoreCatalogs(saved: Partial<Catalogs> | null): Catalogs {
+  const restore = (id: CatalogId): CatalogEntry[] => {
+    const entries = (saved?.[id] ?? []).filter(entry => entry && typeof entry.name === 'string');
+    const missing = builtInEntries(id).filter(entry => !entries.some(known => known.name === entry.name));
+    return [...entries, ...missing];
+  };
+  return {
+    countries: restore('countries'),
+    categories: restore('categories'),
+    discoverCategories: restore('discoverCategories'),
+  };
+}
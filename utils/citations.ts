@@ -0,0 +1,70 @@
+import type { Citation, GroundingChunk } from '../types';
+import type { ItemSpan } from './newsItems';
+
+export interface GroundingSupportLike {
+  segment?: { startIndex?: number; endIndex?: number; text?: string };
+  groundingChunkIndices?: number[];
+}
+
+// Segment offsets from the API count UTF-8 bytes, while item spans count
+// UTF-16 code units; Turkish text makes the two diverge quickly.
+function byteToCharOffsets(text: string): (byteOffset: number) => number {
+  const encoder = new TextEncoder();
+  const byteStarts: number[] = [];
+  const charStarts: number[] = [];
+  let bytes = 0;
+  let chars = 0;
+  for (const char of text) {
+    byteStarts.push(bytes);
+    charStarts.push(chars);
+    bytes += encoder.encode(char).length;
+    chars += char.length;
+  }
+  return (byteOffset: number) => {
+    let low = 0;
+    let high = byteStarts.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (byteStarts[mid] < byteOffset) low = mid + 1;
+      else high = mid;
+    }
+    return low < charStarts.length ? charStarts[low] : text.length;
+  };
+}
+
+export function attachCitations(
+  text: string,
+  spans: ItemSpan[],
+  supports: GroundingSupportLike[],
+  chunks: GroundingChunk[],
+): ItemSpan[] {
+  const toChar = byteToCharOffsets(text);
+  const ranges = supports
+    .filter(support => support.segment && support.groundingChunkIndices?.length)
+    .map(support => ({
+      start: toChar(support.segment!.startIndex ?? 0),
+      end: toChar(support.segment!.endIndex ?? 0),
+      indices: support.groundingChunkIndices!,
+    }));
+
+  return spans.map(span => {
+    const indices = new Set<number>();
+    for (const range of ranges) {
+      if (range.start < span.end && range.end > span.start) {
+        range.indices.forEach(index => indices.add(index));
+      }
+    }
+    const citations: Citation[] = [...indices]
+      .sort((a, b) => a - b)
+      .filter(index => chunks[index]?.web)
+      .map(index => ({ index, uri: chunks[index].web!.uri, title: chunks[index].web!.title }));
+    return { ...span, item: { ...span.item, citations } };
+  });
+}
+
+// Citations for a free-form answer that is not split into items: every
+// source supporting any part of the text.
+export function citationsForText(text: string, supports: GroundingSupportLike[], chunks: GroundingChunk[]): Citation[] {
+  const span: ItemSpan = { item: { id: '', headline: '', body: text, category: '' }, start: 0, end: text.length };
+  return attachCitations(text, [span], supports, chunks)[0].item.citations ?? [];
+}
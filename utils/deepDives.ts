@@ -0,0 +1,94 @@
+import type { DeepDive, DeepDiveQuote, EntityKind, NamedEntity, Result } from '../types';
+
+// Deep-dive readings are requested as plain text in three marked sections,
+// because the article is read through tools and tool calls cannot be
+// combined with a JSON response schema. The markers stay in English
+// whatever language the reading is written in.
+
+export const DEEP_DIVE_FORMAT_INSTRUCTIONS = `Yanıtını tam olarak şu üç bölümle ver ve bölüm başlıklarını değiştirme:
+## SUMMARY
+Makalenin ayrıntılı özeti: ne olduğu, arka planı, rakamlar ve tarafların tutumu. Paragraflar arasında boş satır bırak.
+## QUOTES
+Makaledeki en önemli doğrudan alıntılar, her satırda bir tane: - "alıntı" — konuşan kişi
+## ENTITIES
+Makalede geçen kişi, kurum ve yerler, her satırda bir tane: - ad | person, organization, place ya da other
+Alıntı ya da ad yoksa ilgili bölümü boş bırak.`;
+
+export const ENTITY_KINDS: EntityKind[] = ['person', 'organization', 'place', 'other'];
+
+type Section = 'summary' | 'quotes' | 'entities';
+
+const SECTION_MARKERS: Record<string, Section> = {
+  SUMMARY: 'summary',
+  QUOTES: 'quotes',
+  ENTITIES: 'entities',
+};
+
+function parseQuote(line: string): DeepDiveQuote | null {
+  const match = line.match(/^["“”„«](.+?)["“”»]\s*(?:[—–-]\s*(.+))?$/);
+  if (match) return { text: match[1].trim(), speaker: match[2]?.trim() || undefined };
+  return line ? { text: line } : null;
+}
+
+function parseEntity(line: string): NamedEntity | null {
+  const [name, kind] = line.split('|').map(part => part.trim());
+  if (!name) return null;
+  const normalized = kind?.toLowerCase() as EntityKind | undefined;
+  return { name, kind: normalized && ENTITY_KINDS.includes(normalized) ? normalized : 'other' };
+}
+
+// Text before any marker, or a reply without markers at all, is taken as
+// the summary so an off-format answer still shows something.
+export function parseDeepDiveText(text: string): Pick<DeepDive, 'summary' | 'quotes' | 'entities'> {
+  const sections: Record<Section, string[]> = { summary: [], quotes: [], entities: [] };
+  let current: Section = 'summary';
+  text.split('\n').forEach(line => {
+    const marker = line.match(/^#{1,3}\s*([A-Z]+)\s*$/);
+    if (marker && SECTION_MARKERS[marker[1]]) {
+      current = SECTION_MARKERS[marker[1]];
+      return;
+    }
+    sections[current].push(line);
+  });
+  const listLines = (lines: string[]) => lines.map(line => line.trim().replace(/^[-*•]\s*/, '')).filter(Boolean);
+  const names = new Set<string>();
+  return {
+    summary: sections.summary.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    quotes: listLines(sections.quotes).map(parseQuote).filter((quote): quote is DeepDiveQuote => quote !== null),
+    entities: listLines(sections.entities)
+      .map(parseEntity)
+      .filter((entity): entity is NamedEntity => {
+        if (!entity || names.has(entity.name.toLowerCase())) return false;
+        names.add(entity.name.toLowerCase());
+        return true;
+      }),
+  };
+}
+
+export function findDeepDive(result: Result, chunkIndex: number): DeepDive | undefined {
+  return result.deepDives?.find(deepDive => deepDive.chunkIndex === chunkIndex);
+}
+
+// Stores a reading in place of any earlier one of the same link.
+export function withDeepDive(deepDives: DeepDive[] | undefined, deepDive: DeepDive): DeepDive[] {
+  return [...(deepDives ?? []).filter(existing => existing.chunkIndex !== deepDive.chunkIndex), deepDive];
+}
+
+export function summaryParagraphs(deepDive: DeepDive): string[] {
+  return deepDive.summary.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
+
+export function deepDiveSearchTexts(deepDive: DeepDive): string[] {
+  return [
+    deepDive.title,
+    deepDive.summary,
+    ...deepDive.quotes.flatMap(quote => [quote.text, quote.speaker ?? '']),
+    ...deepDive.entities.map(entity => entity.name),
+  ];
+}
+
+// Read-aloud audio is cached under the reading's own id, so deleting a
+// result has to clear these as well.
+export function audioCacheIds(result: Result): string[] {
+  return [result.id, ...(result.deepDives ?? []).map(deepDive => deepDive.id)];
+}
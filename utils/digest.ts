@@ -0,0 +1,203 @@
+import type { Citation, FavoriteCollection, FavoriteItem, GroundingChunk, Language, NewsItem, Result } from '../types';
+import { getResultItems } from './newsItems';
+import { MESSAGES, formatDate } from '../i18n';
+
+// Markdown and standalone HTML digests of selected briefings and favorites,
+// meant for sharing outside the app. Both carry the grounding links so the
+// reader can check every story. Headings and dates are in the interface
+// language the export was made in.
+
+export interface DigestSelection {
+  results: Result[];
+  favorites: FavoriteItem[];
+}
+
+function formatDigestDate(timestamp: number, language: Language): string {
+  return formatDate(timestamp, language, { dateStyle: 'long', timeStyle: 'short' });
+}
+
+function groundingLinks(chunks: GroundingChunk[]): { uri: string; title: string }[] {
+  return chunks.filter(chunk => chunk.web?.uri).map(chunk => ({ uri: chunk.web!.uri, title: chunk.web!.title || chunk.web!.uri }));
+}
+
+function favoriteItem(favorite: FavoriteItem): NewsItem {
+  return favorite.item ?? { id: favorite.id, headline: '', body: favorite.text, category: '' };
+}
+
+// A collection exported on its own: the favorites in reading order with the
+// reader's tags and notes, and every source they cite gathered at the end.
+export interface Dossier {
+  collection: FavoriteCollection;
+  favorites: FavoriteItem[];
+  // Where the favorites were saved from, for the grounding links of items
+  // that carry no citations of their own.
+  history: Result[];
+}
+
+function dossierSources({ favorites, history }: Dossier): { uri: string; title: string }[] {
+  const sources = new Map<string, string>();
+  favorites.forEach(favorite => {
+    const citations = favorite.item?.citations ?? [];
+    const links = citations.length > 0
+      ? citations.map(citation => ({ uri: citation.uri, title: citation.title || citation.uri }))
+      : groundingLinks(history.find(result => result.id === favorite.resultId)?.groundingChunks ?? []);
+    links.forEach(link => {
+      if (!sources.has(link.uri)) sources.set(link.uri, link.title);
+    });
+  });
+  return Array.from(sources, ([uri, title]) => ({ uri, title }));
+}
+
+function markdownEscape(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function markdownCitations(citations: Citation[] | undefined): string {
+  if (!citations || citations.length === 0) return '';
+  return ' ' + citations.map(citation => `[[${citation.index + 1}]](${citation.uri})`).join(' ');
+}
+
+function markdownItem(item: NewsItem): string {
+  const headline = item.headline ? `**${markdownEscape(item.headline)}**` : '';
+  const category = item.category ? ` _(${markdownEscape(item.category)})_` : '';
+  const body = markdownEscape(item.body);
+  return `- ${headline}${category}${headline ? ': ' : ''}${body}${markdownCitations(item.citations)}`;
+}
+
+export function toMarkdown({ results, favorites }: DigestSelection, language: Language, now = Date.now()): string {
+  const t = MESSAGES[language].digest;
+  const lines: string[] = [`# ${t.title}`, '', `_${t.created(formatDigestDate(now, language))}_`, ''];
+  results.forEach(result => {
+    lines.push(`## ${markdownEscape(result.source)}`, '', `_${formatDigestDate(result.timestamp, language)}_`, '');
+    getResultItems(result).forEach(item => lines.push(markdownItem(item)));
+    const links = groundingLinks(result.groundingChunks);
+    if (links.length > 0) {
+      lines.push('', `**${t.relatedLinks}**`, '');
+      links.forEach((link, index) => lines.push(`${index + 1}. [${markdownEscape(link.title)}](${link.uri})`));
+    }
+    lines.push('');
+  });
+  if (favorites.length > 0) {
+    lines.push(`## ${t.favorites}`, '');
+    favorites.forEach(favorite => {
+      lines.push(markdownItem(favoriteItem(favorite)), `  _${markdownEscape(favorite.source)} · ${formatDigestDate(favorite.timestamp, language)}_`);
+    });
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+export function dossierToMarkdown(dossier: Dossier, language: Language, now = Date.now()): string {
+  const t = MESSAGES[language].digest;
+  const { collection, favorites } = dossier;
+  const lines: string[] = [`# ${markdownEscape(collection.name)}`, '', `_${t.dossierSummary(favorites.length, formatDigestDate(now, language))}_`, ''];
+  favorites.forEach(favorite => {
+    lines.push(markdownItem(favoriteItem(favorite)), `  _${t.source}: ${markdownEscape(favorite.source)} · ${formatDigestDate(favorite.timestamp, language)}_`);
+    if (favorite.tags.length > 0) lines.push(`  ${t.tags}: ${favorite.tags.map(markdownEscape).join(', ')}`);
+    if (favorite.note.trim()) lines.push('', ...favorite.note.trim().split('\n').map(line => `  > ${markdownEscape(line)}`));
+    lines.push('');
+  });
+  const sources = dossierSources(dossier);
+  if (sources.length > 0) {
+    lines.push(`## ${t.sources}`, '');
+    sources.forEach((source, index) => lines.push(`${index + 1}. [${markdownEscape(source.title)}](${source.uri})`));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlCitations(citations: Citation[] | undefined): string {
+  if (!citations || citations.length === 0) return '';
+  return citations
+    .map(citation => ` <a class="cite" href="${escapeHtml(citation.uri)}" title="${escapeHtml(citation.title)}">[${citation.index + 1}]</a>`)
+    .join('');
+}
+
+function htmlItem(item: NewsItem, meta = ''): string {
+  const category = item.category ? ` <span class="category">${escapeHtml(item.category)}</span>` : '';
+  const headline = item.headline ? `<strong>${escapeHtml(item.headline)}</strong>${category}<br>` : '';
+  return `<li>${headline}${escapeHtml(item.body)}${htmlCitations(item.citations)}${meta}</li>`;
+}
+
+const DIGEST_STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+h1 { color: #1d4ed8; }
+h2 { margin-top: 2.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; }
+.date, .meta { color: #6b7280; font-size: .875rem; }
+.category { font-size: .75rem; color: #1d4ed8; background: #dbeafe; border-radius: 9999px; padding: 0 .5rem; }
+ul.items > li { margin-bottom: 1rem; }
+a { color: #2563eb; }
+a.cite { text-decoration: none; font-size: .75rem; vertical-align: super; }
+.tags { font-size: .75rem; color: #6b7280; }
+.note { border-left: 3px solid #fbbf24; margin: .5rem 0 0; padding: .25rem .75rem; color: #374151; white-space: pre-wrap; }
+`;
+
+export function toHtml({ results, favorites }: DigestSelection, language: Language, now = Date.now()): string {
+  const t = MESSAGES[language].digest;
+  const sections = results.map(result => {
+    const links = groundingLinks(result.groundingChunks);
+    const linkList = links.length > 0
+      ? `<h3>${escapeHtml(t.relatedLinks)}</h3><ol>${links.map(link => `<li><a href="${escapeHtml(link.uri)}">${escapeHtml(link.title)}</a></li>`).join('')}</ol>`
+      : '';
+    return `<section><h2>${escapeHtml(result.source)}</h2><p class="date">${formatDigestDate(result.timestamp, language)}</p><ul class="items">${getResultItems(result).map(item => htmlItem(item)).join('')}</ul>${linkList}</section>`;
+  });
+  if (favorites.length > 0) {
+    const items = favorites.map(favorite =>
+      htmlItem(favoriteItem(favorite), `<div class="meta">${escapeHtml(favorite.source)} · ${formatDigestDate(favorite.timestamp, language)}</div>`));
+    sections.push(`<section><h2>${escapeHtml(t.favorites)}</h2><ul class="items">${items.join('')}</ul></section>`);
+  }
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(t.title)} · ${formatDigestDate(now, language)}</title>
+<style>${DIGEST_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(t.title)}</h1>
+<p class="date">${escapeHtml(t.created(formatDigestDate(now, language)))}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function dossierToHtml(dossier: Dossier, language: Language, now = Date.now()): string {
+  const t = MESSAGES[language].digest;
+  const { collection, favorites } = dossier;
+  const items = favorites.map(favorite => {
+    const tags = favorite.tags.length > 0 ? `<div class="tags">${escapeHtml(t.tags)}: ${favorite.tags.map(escapeHtml).join(', ')}</div>` : '';
+    const note = favorite.note.trim() ? `<blockquote class="note">${escapeHtml(favorite.note.trim())}</blockquote>` : '';
+    return htmlItem(favoriteItem(favorite), `<div class="meta">${escapeHtml(t.source)}: ${escapeHtml(favorite.source)} · ${formatDigestDate(favorite.timestamp, language)}</div>${tags}${note}`);
+  });
+  const sources = dossierSources(dossier);
+  const sourceList = sources.length > 0
+    ? `<section><h2>${escapeHtml(t.sources)}</h2><ol>${sources.map(source => `<li><a href="${escapeHtml(source.uri)}">${escapeHtml(source.title)}</a></li>`).join('')}</ol></section>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(collection.name)} · ${escapeHtml(t.dossier)}</title>
+<style>${DIGEST_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(collection.name)}</h1>
+<p class="date">${escapeHtml(t.dossierSummary(favorites.length, formatDigestDate(now, language)))}</p>
+<ul class="items">${items.join('')}</ul>
+${sourceList}
+</body>
+</html>
+`;
+}
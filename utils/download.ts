@@ -0,0 +1,10 @@
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns; revoking the
+  // URL straight away can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,108 @@
+import type { FavoriteCollection, FavoriteItem, NewsItem, Result } from '../types';
+import { getResultItems, itemText } from './newsItems';
+
+// Favorites are identified by the result they were saved from and the item's
+// id within it, so the same story saved from two briefings stays two
+// favorites with their own tags and notes.
+
+export function createFavorite(result: Result, item: NewsItem, now: number): FavoriteItem {
+  return {
+    id: new Date(now).toISOString(),
+    text: itemText(item),
+    item,
+    source: result.source,
+    timestamp: result.timestamp,
+    resultId: result.id,
+    tags: [],
+    note: '',
+    collectionIds: [],
+  };
+}
+
+export function isFavoriteOf(favorite: FavoriteItem, resultId: string, item: NewsItem): boolean {
+  return favorite.resultId === resultId && favorite.item?.id === item.id;
+}
+
+export function findFavorite(favorites: FavoriteItem[], resultId: string, item: NewsItem): FavoriteItem | undefined {
+  return favorites.find(favorite => isFavoriteOf(favorite, resultId, item));
+}
+
+// Favorites saved before they recorded their result carry the result's
+// source and timestamp, which together pick out the result they came from.
+// Text-only favorites predate item ids and are matched by text.
+export function linkFavoritesToResults(favorites: FavoriteItem[], history: Result[]): FavoriteItem[] {
+  if (favorites.every(favorite => favorite.resultId)) return favorites;
+  return favorites.map(favorite => {
+    if (favorite.resultId) return favorite;
+    const result = history.find(candidate => candidate.source === favorite.source
+      && candidate.timestamp === favorite.timestamp
+      && getResultItems(candidate).some(item => favorite.item ? favorite.item.id === item.id : favorite.text === itemText(item)));
+    if (!result) return favorite;
+    const item = favorite.item ?? getResultItems(result).find(candidate => favorite.text === itemText(candidate));
+    return { ...favorite, item, resultId: result.id };
+  });
+}
+
+function sameLabel(a: string, b: string): boolean {
+  return a.toLocaleLowerCase('tr-TR') === b.toLocaleLowerCase('tr-TR');
+}
+
+export function addTag(favorite: FavoriteItem, tag: string): FavoriteItem {
+  const trimmed = tag.trim().replace(/\s+/g, ' ');
+  if (!trimmed || favorite.tags.some(existing => sameLabel(existing, trimmed))) return favorite;
+  return { ...favorite, tags: [...favorite.tags, trimmed] };
+}
+
+export function removeTag(favorite: FavoriteItem, tag: string): FavoriteItem {
+  return { ...favorite, tags: favorite.tags.filter(existing => existing !== tag) };
+}
+
+// Every tag in use, alphabetically; spellings that differ only in case are
+// listed once.
+export function allTags(favorites: FavoriteItem[]): string[] {
+  const tags: string[] = [];
+  favorites.forEach(favorite => favorite.tags.forEach(tag => {
+    if (!tags.some(existing => sameLabel(existing, tag))) tags.push(tag);
+  }));
+  return tags.sort((a, b) => a.localeCompare(b, 'tr-TR'));
+}
+
+export function toggleCollection(favorite: FavoriteItem, collectionId: string): FavoriteItem {
+  const collectionIds = favorite.collectionIds.includes(collectionId)
+    ? favorite.collectionIds.filter(id => id !== collectionId)
+    : [...favorite.collectionIds, collectionId];
+  return { ...favorite, collectionIds };
+}
+
+export type CollectionNameProblem = 'empty' | 'duplicate';
+
+export function validateCollectionName(collections: FavoriteCollection[], name: string, exceptId?: string): CollectionNameProblem | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'empty';
+  if (collections.some(collection => collection.id !== exceptId && sameLabel(collection.name, trimmed))) return 'duplicate';
+  return null;
+}
+
+export function createCollection(name: string, now: number): FavoriteCollection {
+  return { id: `collection-${now}`, name: name.trim(), createdAt: now };
+}
+
+// Deleting a collection only removes the favorites from it.
+export function removeCollectionFromFavorites(favorites: FavoriteItem[], collectionId: string): FavoriteItem[] {
+  return favorites.map(favorite => favorite.collectionIds.includes(collectionId)
+    ? { ...favorite, collectionIds: favorite.collectionIds.filter(id => id !== collectionId) }
+    : favorite);
+}
+
+export interface NotebookFilter {
+  tag: string | null;
+  collectionId: string | null;
+}
+
+export const EMPTY_NOTEBOOK_FILTER: NotebookFilter = { tag: null, collectionId: null };
+
+export function filterNotebook(favorites: FavoriteItem[], filter: NotebookFilter): FavoriteItem[] {
+  return favorites.filter(favorite =>
+    (!filter.tag || favorite.tags.some(tag => sameLabel(tag, filter.tag!)))
+    && (!filter.collectionId || favorite.collectionIds.includes(filter.collectionId)));
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseLegacySummary, parseNewsItems } from './newsItems';
+
+describe('news item ids', () => {
+    const story = "### Faiz kararı | Ekonomi\nMerkez Bankası faizi sabit tuttu.";
+
+    it('gives a story repeated in one response distinct ids', () => {
+        const items = parseNewsItems(`${story}\n\n${story}\n\n${story}`);
+        expect(items).toHaveLength(3);
+        expect(new Set(items.map(item => item.id)).size).toBe(3);
+    });
+
+    it('keeps the id of the first copy the same as in any other briefing', () => {
+        const [single] = parseNewsItems(story);
+        const [first] = parseNewsItems(`${story}\n\n${story}`);
+        expect(first.id).toBe(single.id);
+    });
+
+    it('does the same for legacy summaries', () => {
+        const items = parseLegacySummary("- Aynı satır\n- Aynı satır");
+        expect(items[0].id).toBe(parseLegacySummary("Aynı satır")[0].id);
+        expect(items[1].id).not.toBe(items[0].id);
+    });
+});
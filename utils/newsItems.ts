@@ -0,0 +1,145 @@
+import type { NewsItem, Result } from '../types';
+
+// Appended to every summary prompt so the response can be split into items
+// without guessing where one story ends and the next begins.
+export const ITEM_FORMAT_INSTRUCTIONS = `Yanıtını yalnızca aşağıdaki biçimde ver, giriş ya da kapanış cümlesi ekleme. Her haber için:
+### <başlık> | <kategori>
+<bir iki cümlelik özet>`;
+
+const HEADER_PATTERN = /^#{2,4}\s+(.+)$/;
+
+// FNV-1a; stable across sessions so ids survive reloads and re-parsing.
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function itemId(headline: string, body: string, occurrence = 0): string {
+  return `item-${hashText(occurrence > 0 ? `${headline}\n${body}\n${occurrence}` : `${headline}\n${body}`)}`;
+}
+
+function createItem(headline: string, body: string, category: string): NewsItem {
+  return {
+    id: itemId(headline, body),
+    headline,
+    body,
+    category,
+  };
+}
+
+// A response can repeat a story word for word, which would give two items
+// the same id. Later copies mix their position among the copies into the
+// hash; the first keeps the plain hash, so the same story still has the same
+// id in every briefing and in favorites saved from it.
+export function withUniqueItemIds<T extends Pick<NewsItem, 'id' | 'headline' | 'body'>>(items: T[]): T[] {
+  const occurrences = new Map<string, number>();
+  return items.map(item => {
+    const occurrence = occurrences.get(item.id) ?? 0;
+    occurrences.set(item.id, occurrence + 1);
+    return occurrence === 0 ? item : { ...item, id: itemId(item.headline, item.body, occurrence) };
+  });
+}
+
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1').replace(/__(.+?)__/g, '$1').trim();
+}
+
+export function categoryFromSource(source: string): string {
+  const parts = source.split(' - ');
+  return parts.length > 1 ? parts[parts.length - 1].trim() : '';
+}
+
+export interface ItemSpan {
+  item: NewsItem;
+  start: number;
+  end: number;
+}
+
+function withUniqueSpanIds(spans: ItemSpan[]): ItemSpan[] {
+  const items = withUniqueItemIds(spans.map(span => span.item));
+  return spans.map((span, index) => ({ ...span, item: items[index] }));
+}
+
+function splitLines(text: string): { line: string; start: number; end: number }[] {
+  const lines: { line: string; start: number; end: number }[] = [];
+  let start = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ line: raw.trim(), start, end: start + raw.length });
+    start += raw.length + 1;
+  }
+  return lines;
+}
+
+// Like parseNewsItems, but also reports where each item sits in the raw
+// response so grounding segments can be mapped back onto items.
+export function parseNewsItemSpans(text: string, fallbackCategory = ''): ItemSpan[] {
+  const lines = splitLines(text);
+  if (!lines.some(({ line }) => HEADER_PATTERN.test(line))) {
+    return parseLegacySpans(text, fallbackCategory);
+  }
+
+  const spans: ItemSpan[] = [];
+  let current: { headline: string; category: string; body: string[]; start: number; end: number } | null = null;
+  const flush = () => {
+    if (current && current.headline) {
+      spans.push({
+        item: createItem(current.headline, current.body.join(' ').trim(), current.category || fallbackCategory),
+        start: current.start,
+        end: current.end,
+      });
+    }
+  };
+  for (const { line, start, end } of lines) {
+    const header = line.match(HEADER_PATTERN);
+    if (header) {
+      flush();
+      const [headline, category = ''] = header[1].split('|').map(part => stripMarkdown(part));
+      current = { headline, category, body: [], start, end };
+    } else if (current && line) {
+      current.body.push(stripMarkdown(line.replace(/^[-*]\s*/, '')));
+      current.end = end;
+    }
+  }
+  flush();
+  return withUniqueSpanIds(spans);
+}
+
+export function parseNewsItems(text: string, fallbackCategory = ''): NewsItem[] {
+  return parseNewsItemSpans(text, fallbackCategory).map(span => span.item);
+}
+
+function parseLegacySpans(summary: string, fallbackCategory: string): ItemSpan[] {
+  return withUniqueSpanIds(splitLines(summary)
+    .map(({ line, start, end }) => ({ line: line.replace(/^[-*]\s*|^\d+\.\s*/, ''), start, end }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, start, end }) => {
+      const labelled = line.match(/^\*\*(.+?)\*\*:?\s*(.*)$/);
+      const item = labelled && labelled[2]
+        ? createItem(labelled[1].replace(/:$/, '').trim(), stripMarkdown(labelled[2]), fallbackCategory)
+        : createItem('', stripMarkdown(line), fallbackCategory);
+      return { item, start, end };
+    }));
+}
+
+// Summaries saved before items existed were free text with one story per line.
+export function parseLegacySummary(summary: string, fallbackCategory = ''): NewsItem[] {
+  return parseLegacySpans(summary, fallbackCategory).map(span => span.item);
+}
+
+export function getResultItems(result: Result): NewsItem[] {
+  return result.items ?? parseLegacySummary(result.summary, categoryFromSource(result.source));
+}
+
+export function itemText(item: NewsItem): string {
+  if (!item.headline) return item.body;
+  if (!item.body) return item.headline;
+  return `${item.headline}${/[.!?:]$/.test(item.headline) ? '' : '.'} ${item.body}`;
+}
+
+export function itemsToSummary(items: NewsItem[]): string {
+  return items.map(itemText).join('\n');
+}
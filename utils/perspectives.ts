@@ -0,0 +1,127 @@
+import type { GroundingChunk, Language, NewsItem, OutletFraming, PerspectiveAnalysis, Result, SourceDisagreement } from '../types';
+import { normalizeDomain } from './sites';
+
+// Groups a result's grounding sources by outlet for the "Bakış Açıları"
+// analysis and checks how varied the coverage is. The model only writes
+// the framings and disagreements; which sources belong to which outlet is
+// decided here so the grouping is the same whatever the provider.
+
+// Gemini's grounding URIs point at its own redirect host; the outlet's
+// domain is then only in the chunk title.
+const REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// Country-code top-level domains of the countries in the default catalog
+// and a few other common news sources. Generic domains (.com, .org) tell
+// nothing about the country and are left unknown.
+const COUNTRY_DOMAINS: Record<string, string> = {
+  tr: 'Türkiye',
+  us: 'ABD',
+  de: 'Almanya',
+  uk: 'İngiltere',
+  fr: 'Fransa',
+  jp: 'Japonya',
+  ru: 'Rusya',
+  cn: 'Çin',
+  it: 'İtalya',
+  es: 'İspanya',
+  nl: 'Hollanda',
+  at: 'Avusturya',
+  ch: 'İsviçre',
+  gr: 'Yunanistan',
+  az: 'Azerbaycan',
+  ir: 'İran',
+  il: 'İsrail',
+  ua: 'Ukrayna',
+  qa: 'Katar',
+  in: 'Hindistan',
+};
+
+export function outletOf(chunk: GroundingChunk): string | null {
+  if (!chunk.web) return null;
+  const title = normalizeDomain(chunk.web.title);
+  if (DOMAIN_PATTERN.test(title)) return title;
+  try {
+    const host = normalizeDomain(new URL(chunk.web.uri).hostname);
+    if (!REDIRECT_HOSTS.includes(host)) return host;
+  } catch {
+    // Not a valid URL; fall back to the title.
+  }
+  return chunk.web.title.trim() || null;
+}
+
+export function countryOfOutlet(outlet: string): string | undefined {
+  if (!DOMAIN_PATTERN.test(outlet)) return undefined;
+  return COUNTRY_DOMAINS[outlet.slice(outlet.lastIndexOf('.') + 1)];
+}
+
+export interface OutletSources {
+  outlet: string;
+  country?: string;
+  sourceIndices: number[];
+}
+
+// The sources an analysis covers: those cited by the item, or all of the
+// result's sources.
+export function perspectiveSourceIndices(result: Result, item?: NewsItem): number[] {
+  if (item) return [...new Set((item.citations ?? []).map(citation => citation.index))].sort((a, b) => a - b);
+  return result.groundingChunks.map((_, index) => index);
+}
+
+// Outlets in the order they are first cited.
+export function groupSourcesByOutlet(chunks: GroundingChunk[], indices: number[]): OutletSources[] {
+  const groups: OutletSources[] = [];
+  indices.forEach(index => {
+    const chunk = chunks[index];
+    const outlet = chunk ? outletOf(chunk) : null;
+    if (!outlet) return;
+    const group = groups.find(candidate => candidate.outlet === outlet);
+    if (group) group.sourceIndices.push(index);
+    else groups.push({ outlet, country: countryOfOutlet(outlet), sourceIndices: [index] });
+  });
+  return groups;
+}
+
+export type CoverageWarning = 'noSources' | 'singleOutlet' | 'singleCountry';
+
+// Single-country coverage is only reported when the country of every
+// outlet is known; one .com outlet could be from anywhere.
+export function coverageWarnings(groups: OutletSources[]): CoverageWarning[] {
+  if (groups.length === 0) return ['noSources'];
+  if (groups.length === 1) return ['singleOutlet'];
+  const countries = groups.map(group => group.country);
+  if (countries.every(country => country !== undefined) && new Set(countries).size === 1) return ['singleCountry'];
+  return [];
+}
+
+export function findPerspective(result: Result, itemId?: string): PerspectiveAnalysis | undefined {
+  return result.perspectives?.find(analysis => analysis.itemId === itemId);
+}
+
+// Stores an analysis in place of any earlier one for the same scope.
+export function withPerspective(perspectives: PerspectiveAnalysis[] | undefined, analysis: PerspectiveAnalysis): PerspectiveAnalysis[] {
+  return [...(perspectives ?? []).filter(existing => existing.itemId !== analysis.itemId), analysis];
+}
+
+// Joins what the model wrote about each outlet back onto the local
+// grouping. Outlets the model skipped keep an empty framing; outlets it
+// made up are dropped.
+export function buildPerspectiveAnalysis(
+  groups: OutletSources[],
+  framings: { outlet: string; framing: string }[],
+  disagreements: SourceDisagreement[],
+  language: Language,
+  itemId: string | undefined,
+  now: number,
+): PerspectiveAnalysis {
+  const outlets: OutletFraming[] = groups.map(group => ({
+    ...group,
+    framing: framings.find(framing => framing.outlet.trim().toLowerCase() === group.outlet.toLowerCase())?.framing.trim() ?? '',
+  }));
+  const known = new Set(groups.map(group => group.outlet.toLowerCase()));
+  const kept = disagreements
+    .map(disagreement => ({ ...disagreement, positions: disagreement.positions.filter(position => known.has(position.outlet.trim().toLowerCase())) }))
+    .filter(disagreement => disagreement.claim.trim() && disagreement.positions.length >= 2);
+  return { id: `perspective-${now}`, itemId, outlets, disagreements: kept, language, createdAt: now };
+}
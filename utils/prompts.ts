@@ -0,0 +1,88 @@
+import type { BriefingRequest, Language, PromptTemplates } from '../types';
+import { buildSiteRestriction } from './sites';
+
+export type PromptKind = BriefingRequest['kind'];
+
+export const PROMPT_KINDS: PromptKind[] = ['news', 'discover', 'topic', 'sites', 'question'];
+
+// How the output language is named inside the (Turkish) prompt text.
+export const OUTPUT_LANGUAGE_NAMES: Record<Language, string> = {
+  tr: 'Türkçe',
+  en: 'İngilizce',
+  de: 'Almanca',
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  news: 'Lütfen {bölge} en güncel {kategori} haberlerini özetle. Özetini oluştururken, farklı bakış açıları sunan birden çok çeşitli ve güvenilir web kaynağını kullandığından emin ol. Sonucu {dil} olarak maddeler halinde sun.',
+  discover: '"{konu}" alanında, dünya çapında saygın düşünce liderlerinden, eleştirmenlerden veya sanatçılardan ufuk açıcı, güncel bir deneme, analiz veya eleştiri yazısı bul ve bunu {dil} olarak, ana fikirlerini ve temel argümanlarını vurgulayarak maddeler halinde özetle. Özetini oluştururken, farklı bakış açıları sunan çeşitli ve güvenilir web kaynaklarını kullandığından emin ol.',
+  topic: '"{konu}" konusundaki en güncel gelişmeleri özetle. Gelişmelerin arka planını, tarafların tutumlarını ve olası sonuçlarını kısaca açıkla. Özetini oluştururken, farklı bakış açıları sunan birden çok çeşitli ve güvenilir web kaynağını kullandığından emin ol. Sonucu {dil} olarak maddeler halinde sun.',
+  sites: 'Lütfen seçilen haber sitelerindeki en güncel {kategori} haberlerini özetle. {siteler} Sonucu {dil} olarak maddeler halinde sun.',
+  question: 'Şu soruyu güncel haberlere dayanarak yanıtla: "{soru}". Yanıtını oluştururken, farklı bakış açıları sunan birden çok çeşitli ve güvenilir web kaynağını kullandığından emin ol. Sonucu {dil} olarak maddeler halinde sun.',
+};
+
+// Placeholders each kind fills in; their descriptions are in the message
+// catalog under prompts.placeholders.
+export const PROMPT_PLACEHOLDERS: Record<PromptKind, string[]> = {
+  news: ['ülke', 'bölge', 'kategori', 'dil'],
+  discover: ['konu', 'dil'],
+  topic: ['konu', 'dil'],
+  sites: ['siteler', 'kategori', 'dil'],
+  question: ['soru', 'dil'],
+};
+
+const PLACEHOLDER_PATTERN = /\{([^{}\s]+)\}/g;
+
+export function promptValues(request: BriefingRequest, language: Language = 'tr'): Record<string, string> {
+  return { ...requestValues(request), dil: OUTPUT_LANGUAGE_NAMES[language] };
+}
+
+function requestValues(request: BriefingRequest): Record<string, string> {
+  switch (request.kind) {
+    case 'news':
+      return {
+        ülke: request.country,
+        bölge: request.country === 'Dünya' ? 'dünyadaki' : `${request.country} ülkesindeki`,
+        kategori: request.category,
+      };
+    case 'discover':
+    case 'topic':
+      return { konu: request.topic };
+    case 'sites':
+      return { siteler: buildSiteRestriction(request.sites), kategori: request.category ?? '' };
+    case 'question':
+      return { soru: request.question };
+  }
+}
+
+// Unknown placeholders are left as written so a typo shows up in the
+// preview instead of silently disappearing. Empty values would leave double
+// spaces behind, so runs of spaces are collapsed.
+export function renderPrompt(template: string, values: Record<string, string>): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match)
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
+
+export function buildPrompt(request: BriefingRequest, templates: PromptTemplates = DEFAULT_PROMPT_TEMPLATES, language: Language = 'tr'): string {
+  return renderPrompt(templates[request.kind] || DEFAULT_PROMPT_TEMPLATES[request.kind], promptValues(request, language));
+}
+
+export function unknownPlaceholders(template: string, kind: PromptKind): string[] {
+  const known = new Set(PROMPT_PLACEHOLDERS[kind]);
+  const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]).filter(name => !known.has(name));
+  return [...new Set(unknown)];
+}
+
+// Templates saved before {dil} existed are the old defaults with "Türkçe"
+// written out; those are replaced by the current default so they follow the
+// output language instead of pinning every briefing to Turkish.
+export function restorePromptTemplates(saved: Partial<PromptTemplates> | null): PromptTemplates {
+  const templates = { ...DEFAULT_PROMPT_TEMPLATES };
+  PROMPT_KINDS.forEach(kind => {
+    const template = saved?.[kind];
+    const staleDefault = DEFAULT_PROMPT_TEMPLATES[kind].replace('{dil}', OUTPUT_LANGUAGE_NAMES.tr);
+    if (typeof template === 'string' && template.trim() && template !== staleDefault) templates[kind] = template;
+  });
+  return templates;
+}
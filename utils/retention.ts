@@ -0,0 +1,28 @@
+import type { FavoriteItem, Result, RetentionPolicy } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isResultFavorited(result: Result, favorites: FavoriteItem[]): boolean {
+  return favorites.some(favorite => favorite.resultId === result.id);
+}
+
+// Drops results that are older than the age limit or beyond the count limit
+// (newest first). Results with a favorited item are always kept and do not
+// count towards the limit.
+export function applyRetention(history: Result[], favorites: FavoriteItem[], policy: RetentionPolicy, now: number): Result[] {
+  if (policy.maxAgeDays === null && policy.maxCount === null) return history;
+  const cutoff = policy.maxAgeDays !== null ? now - policy.maxAgeDays * DAY_MS : -Infinity;
+  let kept = 0;
+  const keepIds = new Set<string>();
+  for (const result of [...history].sort((a, b) => b.timestamp - a.timestamp)) {
+    if (isResultFavorited(result, favorites)) {
+      keepIds.add(result.id);
+      continue;
+    }
+    if (result.timestamp < cutoff) continue;
+    if (policy.maxCount !== null && kept >= policy.maxCount) continue;
+    kept++;
+    keepIds.add(result.id);
+  }
+  return keepIds.size === history.length ? history : history.filter(result => keepIds.has(result.id));
+}
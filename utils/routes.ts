@@ -0,0 +1,86 @@
+import type { BriefingRequest } from '../types';
+
+// The app's routes live in the query string, next to the search filters
+// (see utils/search.ts), so any static host can serve them:
+//   ?view=discover|favorites|timeline   a tab other than the feed
+//   ?result=<id>                          one briefing in the feed
+//   ?favorite=<id>                        one favorite in the notebook
+//   ?country=…&category=… or ?topic=…     a briefing to run on arrival
+// Shared briefings use the fragment instead (see services/shareLinks.ts).
+
+export type AppView = 'feed' | 'discover' | 'favorites' | 'timeline';
+
+export interface Route {
+  view: AppView;
+  resultId: string | null;
+  favoriteId: string | null;
+}
+
+const VIEW_PARAM = 'view';
+const RESULT_PARAM = 'result';
+const FAVORITE_PARAM = 'favorite';
+const BRIEFING_PARAMS = { country: 'country', category: 'category', topic: 'topic' };
+
+export const isAppView = (value: string | null): value is AppView => value === 'feed' || value === 'discover' || value === 'favorites' || value === 'timeline';
+
+export const viewRoute = (view: AppView): Route => ({ view, resultId: null, favoriteId: null });
+
+// A result is always shown in the feed and a favorite in the notebook,
+// whatever `view` says.
+export function routeFromParams(params: URLSearchParams): Route {
+  const resultId = params.get(RESULT_PARAM) || null;
+  const favoriteId = resultId ? null : params.get(FAVORITE_PARAM) || null;
+  const view = params.get(VIEW_PARAM);
+  return {
+    view: resultId ? 'feed' : favoriteId ? 'favorites' : isAppView(view) ? view : 'feed',
+    resultId,
+    favoriteId,
+  };
+}
+
+// Writes the route into `params`, leaving unrelated parameters alone.
+export function writeRouteToParams(route: Route, params: URLSearchParams): void {
+  if (route.view === 'feed' || route.resultId || route.favoriteId) params.delete(VIEW_PARAM);
+  else params.set(VIEW_PARAM, route.view);
+  if (route.resultId) params.set(RESULT_PARAM, route.resultId);
+  else params.delete(RESULT_PARAM);
+  if (route.favoriteId) params.set(FAVORITE_PARAM, route.favoriteId);
+  else params.delete(FAVORITE_PARAM);
+}
+
+export const isSameRoute = (a: Route, b: Route) => a.view === b.view && a.resultId === b.resultId && a.favoriteId === b.favoriteId;
+
+// The link to `route`, for copying; filters are not part of it.
+export function routeUrl(route: Route, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  const params = new URLSearchParams();
+  writeRouteToParams(route, params);
+  url.search = params.toString();
+  url.hash = '';
+  return url.toString();
+}
+
+export const hasBriefingParams = (params: URLSearchParams) => Object.values(BRIEFING_PARAMS).some(key => params.has(key));
+
+// Catalog names are matched without regard to case, so a hand-typed
+// ?country=türkiye works too.
+function catalogMatch(names: string[], value: string | null): string | null {
+  if (!value) return null;
+  const wanted = value.trim().toLocaleLowerCase('tr');
+  return names.find(name => name.toLocaleLowerCase('tr') === wanted) ?? null;
+}
+
+// The briefing a link asks for, or null if its parameters do not name one
+// the app can run.
+export function briefingRequestFromParams(params: URLSearchParams, countries: string[], categories: string[]): BriefingRequest | null {
+  const topic = params.get(BRIEFING_PARAMS.topic)?.trim();
+  if (topic) return { kind: 'topic', topic };
+  const country = catalogMatch(countries, params.get(BRIEFING_PARAMS.country));
+  const category = catalogMatch(categories, params.get(BRIEFING_PARAMS.category));
+  return country && category ? { kind: 'news', country, category } : null;
+}
+
+// A briefing link runs once; reloading the page should not run it again.
+export function clearBriefingParams(params: URLSearchParams): void {
+  Object.values(BRIEFING_PARAMS).forEach(key => params.delete(key));
+}
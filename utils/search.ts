@@ -0,0 +1,156 @@
+import type { FavoriteItem, NewsItem, Result } from '../types';
+import { getResultItems } from './newsItems';
+import { deepDiveSearchTexts } from './deepDives';
+
+// Full-text search and facet filters for the feed and favorites. Filters are
+// mirrored in the page URL so a filtered view can be bookmarked.
+
+export interface SearchFilters {
+  query: string;
+  country: string | null;
+  category: string | null;
+  topic: string | null;
+  // Inclusive day bounds as YYYY-MM-DD, in local time.
+  from: string | null;
+  to: string | null;
+  hasAudio: boolean;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  query: '',
+  country: null,
+  category: null,
+  topic: null,
+  from: null,
+  to: null,
+  hasAudio: false,
+};
+
+// Folds case and diacritics so "istanbul", "İSTANBUL" and "Istanbul" all
+// match. Lowercasing is done with Turkish rules first (İ → i, I → ı) and the
+// dotless ı is then folded into i, so users typing without Turkish
+// characters still find what they look for.
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLocaleLowerCase('tr-TR')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/ı/g, 'i');
+}
+
+function matchesQuery(texts: string[], query: string): boolean {
+  const terms = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = normalizeSearchText(texts.join('\n'));
+  return terms.every(term => haystack.includes(term));
+}
+
+function itemSearchTexts(item: NewsItem): string[] {
+  return [item.headline, item.body, item.category, ...(item.citations ?? []).map(citation => citation.title)];
+}
+
+export function resultSearchTexts(result: Result): string[] {
+  return [
+    result.source,
+    result.summary,
+    ...getResultItems(result).flatMap(itemSearchTexts),
+    ...result.groundingChunks.map(chunk => chunk.web?.title ?? ''),
+    ...(result.deepDives ?? []).flatMap(deepDiveSearchTexts),
+  ];
+}
+
+export function favoriteSearchTexts(favorite: FavoriteItem): string[] {
+  return [favorite.text, favorite.source, favorite.note, ...favorite.tags, ...(favorite.item ? itemSearchTexts(favorite.item) : [])];
+}
+
+export interface SourceFacets {
+  country: string | null;
+  category: string | null;
+  topic: string | null;
+}
+
+// Results only record a display label such as "Türkiye - Spor" or
+// "Keşfet - Felsefe" (see describeBriefing), so facets are read back from it.
+export function sourceFacets(source: string): SourceFacets {
+  const parts = source.split(' - ').map(part => part.trim());
+  if (parts[0] === 'Keşfet') return { country: null, category: null, topic: parts[1] ?? null };
+  if (parts[0] === 'Sesli Soru' || parts[0] === 'Konu') return { country: null, category: null, topic: null };
+  if (parts[0] === 'Siteler') return { country: null, category: parts[2] ?? null, topic: null };
+  return { country: parts.length > 1 ? parts[0] : null, category: parts[1] ?? null, topic: null };
+}
+
+function dayStart(day: string): number {
+  return new Date(`${day}T00:00:00`).getTime();
+}
+
+function withinDates(timestamp: number, filters: SearchFilters): boolean {
+  if (filters.from && timestamp < dayStart(filters.from)) return false;
+  if (filters.to && timestamp >= dayStart(filters.to) + 24 * 60 * 60 * 1000) return false;
+  return true;
+}
+
+export function filterResults(results: Result[], filters: SearchFilters, cachedAudioIds: Set<string>): Result[] {
+  return results.filter(result => {
+    const facets = sourceFacets(result.source);
+    if (filters.country && facets.country !== filters.country) return false;
+    if (filters.topic && facets.topic !== filters.topic) return false;
+    if (filters.category && facets.category !== filters.category
+      && !getResultItems(result).some(item => item.category === filters.category)) return false;
+    if (filters.hasAudio && !cachedAudioIds.has(result.id)) return false;
+    return withinDates(result.timestamp, filters) && matchesQuery(resultSearchTexts(result), filters.query);
+  });
+}
+
+export function filterFavorites(favorites: FavoriteItem[], filters: SearchFilters): FavoriteItem[] {
+  return favorites.filter(favorite => {
+    const facets = sourceFacets(favorite.source);
+    if (filters.country && facets.country !== filters.country) return false;
+    if (filters.topic && facets.topic !== filters.topic) return false;
+    if (filters.category && facets.category !== filters.category && favorite.item?.category !== filters.category) return false;
+    return withinDates(favorite.timestamp, filters) && matchesQuery(favoriteSearchTexts(favorite), filters.query);
+  });
+}
+
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return filters.query.trim() !== '' || filters.country !== null || filters.category !== null
+    || filters.topic !== null || filters.from !== null || filters.to !== null || filters.hasAudio;
+}
+
+// The filters share the query string with the routes (see utils/routes.ts).
+// The catalog filters are prefixed so they never collide with ?country=,
+// ?category= and ?topic=, which describe a briefing to run.
+const PARAM_KEYS: Record<Exclude<keyof SearchFilters, 'hasAudio'>, string> = {
+  query: 'q',
+  country: 'filterCountry',
+  category: 'filterCategory',
+  topic: 'filterTopic',
+  from: 'from',
+  to: 'to',
+};
+const AUDIO_PARAM = 'audio';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function filtersFromParams(params: URLSearchParams): SearchFilters {
+  const day = (value: string | null) => value && DAY_PATTERN.test(value) ? value : null;
+  return {
+    query: params.get(PARAM_KEYS.query) ?? '',
+    country: params.get(PARAM_KEYS.country) || null,
+    category: params.get(PARAM_KEYS.category) || null,
+    topic: params.get(PARAM_KEYS.topic) || null,
+    from: day(params.get(PARAM_KEYS.from)),
+    to: day(params.get(PARAM_KEYS.to)),
+    hasAudio: params.get(AUDIO_PARAM) === '1',
+  };
+}
+
+// Writes the filters into `params`, leaving unrelated parameters alone.
+export function writeFiltersToParams(filters: SearchFilters, params: URLSearchParams): void {
+  (Object.keys(PARAM_KEYS) as (keyof typeof PARAM_KEYS)[]).forEach(key => {
+    const value = filters[key];
+    if (value) params.set(PARAM_KEYS[key], value);
+    else params.delete(PARAM_KEYS[key]);
+  });
+  if (filters.hasAudio) params.set(AUDIO_PARAM, '1');
+  else params.delete(AUDIO_PARAM);
+}
@@ -0,0 +1,40 @@
+import type { GroundingChunk, NewsSite } from '../types';
+
+export function normalizeDomain(input: string): string {
+  let domain = input.trim().toLowerCase();
+  domain = domain.replace(/^[a-z]+:\/\//, '');
+  domain = domain.split(/[/?#]/)[0];
+  domain = domain.replace(/^www\./, '');
+  return domain;
+}
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// Grounding URIs are usually Google redirect links, so the chunk title
+// (which Gemini fills with the outlet's domain) is checked as well.
+export function chunkMatchesSite(chunk: GroundingChunk, site: NewsSite): boolean {
+  if (!chunk.web) return false;
+  const domain = normalizeDomain(site.domain);
+  try {
+    const host = normalizeDomain(new URL(chunk.web.uri).hostname);
+    if (hostMatches(host, domain)) return true;
+  } catch {
+    // Not a valid URL; fall through to the title check.
+  }
+  const title = chunk.web.title.trim().toLowerCase();
+  return hostMatches(normalizeDomain(title), domain) || title.includes(domain);
+}
+
+export function findMatchedSites(chunks: GroundingChunk[], sites: NewsSite[]): string[] {
+  return sites
+    .filter(site => chunks.some(chunk => chunkMatchesSite(chunk, site)))
+    .map(site => normalizeDomain(site.domain));
+}
+
+export function buildSiteRestriction(sites: NewsSite[]): string {
+  const operators = sites.map(site => `site:${normalizeDomain(site.domain)}`).join(' OR ');
+  const names = sites.map(site => `${site.name} (${normalizeDomain(site.domain)}, ${site.language})`).join(', ');
+  return `Yalnızca şu haber sitelerindeki içerikleri kullan: ${names}. Arama yaparken "${operators}" ifadesini kullan ve bu siteler dışındaki kaynaklara yer verme.`;
+}
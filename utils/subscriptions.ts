@@ -0,0 +1,43 @@
+import type { BriefingRequest, NewsSite, Subscription, SubscriptionTarget } from '../types';
+
+// Refresh intervals offered in minutes; their labels are in the message
+// catalog under subscriptions.interval.
+export const SUBSCRIPTION_INTERVALS = [60, 180, 360, 720, 1440];
+
+// A subscription that missed several runs while the app was closed is only
+// refreshed once: the latest briefing already covers what the skipped ones
+// would have said.
+export function isSubscriptionDue(subscription: Subscription, now: number): boolean {
+  return now - (subscription.lastRunAt ?? 0) >= subscription.intervalMinutes * 60 * 1000;
+}
+
+export function toBriefingRequest(target: SubscriptionTarget, sites: NewsSite[]): BriefingRequest | null {
+  switch (target.kind) {
+    case 'news':
+      return target;
+    case 'discover':
+    case 'topic':
+      return target;
+    case 'sites': {
+      const selected = sites.filter(site => target.siteIds.includes(site.id));
+      return selected.length > 0 ? { kind: 'sites', sites: selected, category: target.category } : null;
+    }
+  }
+}
+
+// Described the way the resulting briefing's source will read; only the
+// placeholder for sites that no longer exist is worded by the caller.
+export function describeSubscription(target: SubscriptionTarget, sites: NewsSite[], deletedSitesLabel: string): string {
+  switch (target.kind) {
+    case 'news':
+      return `${target.country} - ${target.category}`;
+    case 'discover':
+      return `Keşfet - ${target.topic}`;
+    case 'sites': {
+      const names = sites.filter(site => target.siteIds.includes(site.id)).map(site => site.name);
+      return `Siteler - ${names.length > 0 ? names.join(', ') : deletedSitesLabel}${target.category ? ` - ${target.category}` : ''}`;
+    }
+    case 'topic':
+      return `Konu - ${target.topic}`;
+  }
+}
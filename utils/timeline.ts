@@ -0,0 +1,120 @@
+import type { EntityKind, NewsItem, Result } from '../types';
+import { categoryFromSource, getResultItems } from './newsItems';
+
+// The "Zaman Çizelgesi" view: how often the people, organizations, places
+// and topics named in stored briefings come up, per day and per category.
+// Entities are extracted once per result and kept on it (see
+// Result.entities), so only results that arrived since the last run are
+// sent for extraction.
+
+// Results sent to the provider in one extraction request.
+export const ENTITY_BATCH_SIZE = 5;
+
+export function needsEntities(result: Result): boolean {
+  return result.entities === undefined && getResultItems(result).length > 0;
+}
+
+// After a failed extraction request the next one waits, doubling from half
+// a minute up to a quarter of an hour, so a failing service is not polled.
+const ENTITY_RETRY_BASE_MS = 30_000;
+const ENTITY_RETRY_MAX_MS = 15 * 60_000;
+
+export function entityRetryDelay(failures: number): number {
+  return Math.min(ENTITY_RETRY_MAX_MS, ENTITY_RETRY_BASE_MS * 2 ** failures);
+}
+
+// The next results to extract, newest first. `skipped` holds results whose
+// extraction failed this session so they are not retried in a loop.
+export function nextEntityBatch(history: Result[], skipped: ReadonlySet<string>): Result[] {
+  return [...history]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(result => needsEntities(result) && !skipped.has(result.id))
+    .slice(0, ENTITY_BATCH_SIZE);
+}
+
+// The same entity is often written with different case or spacing across
+// briefings ("Merkez Bankası", "merkez bankası").
+export function entityKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLocaleLowerCase('tr');
+}
+
+// Local calendar day, e.g. "2024-05-17"; sorts chronologically as text.
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// The `count` days up to and including the day of `now`, oldest first.
+export function recentDays(now: number, count: number): string[] {
+  const today = new Date(now);
+  return Array.from({ length: count }, (_, index) => {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (count - 1 - index));
+    return dayKey(day.getTime());
+  });
+}
+
+export interface TopicMention {
+  result: Result;
+  item: NewsItem;
+}
+
+export interface TimelineTopic {
+  key: string;
+  // The spelling and kind the entity was first seen with.
+  name: string;
+  kind: EntityKind;
+  // Oldest first; an item counts once however often it names the entity.
+  mentions: TopicMention[];
+  byDay: Record<string, number>;
+}
+
+export function mentionCategory(mention: TopicMention): string {
+  return mention.item.category || categoryFromSource(mention.result.source);
+}
+
+// Mentions per category, most frequent first.
+export function countByCategory(mentions: TopicMention[]): [string, number][] {
+  const counts = new Map<string, number>();
+  mentions.forEach(mention => {
+    const category = mentionCategory(mention);
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'tr'));
+}
+
+// Topics across all extracted results, most mentioned first.
+export function buildTimeline(history: Result[]): TimelineTopic[] {
+  const topics = new Map<string, TimelineTopic>();
+  const chronological = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  chronological.forEach(result => {
+    if (!result.entities) return;
+    getResultItems(result).forEach(item => {
+      const seen = new Set<string>();
+      (result.entities?.[item.id] ?? []).forEach(entity => {
+        const key = entityKey(entity.name);
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+        let topic = topics.get(key);
+        if (!topic) {
+          topic = { key, name: entity.name.trim(), kind: entity.kind, mentions: [], byDay: {} };
+          topics.set(key, topic);
+        }
+        const day = dayKey(result.timestamp);
+        topic.mentions.push({ result, item });
+        topic.byDay[day] = (topic.byDay[day] ?? 0) + 1;
+      });
+    });
+  });
+  return [...topics.values()].sort((a, b) => b.mentions.length - a.mentions.length || a.name.localeCompare(b.name, 'tr'));
+}
+
+// Topics named in at least `minMentions` items within the given days.
+export function recurringTopics(topics: TimelineTopic[], days: string[], minMentions: number, kind: EntityKind | null): TimelineTopic[] {
+  return topics
+    .filter(topic => !kind || topic.kind === kind)
+    .map(topic => ({ topic, count: days.reduce((sum, day) => sum + (topic.byDay[day] ?? 0), 0) }))
+    .filter(({ count }) => count >= minMentions)
+    .sort((a, b) => b.count - a.count || a.topic.name.localeCompare(b.topic.name, 'tr'))
+    .map(({ topic }) => topic);
+}
@@ -1,19 +1,41 @@
+import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with the files of this build to precache; see sw.js.
+function serviceWorker(): Plugin {
+    return {
+      name: 'service-worker',
+      apply: 'build',
+      generateBundle(_options, bundle) {
+        const files = Object.keys(bundle)
+          .filter(name => name !== 'index.html' && !name.endsWith('.map'))
+          .map(name => `/${name}`)
+          .sort();
+        const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+        const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+          .replace("const BUILD_VERSION = 'dev';", `const BUILD_VERSION = '${version}';`)
+          .replace('const BUILD_FILES = [];', `const BUILD_FILES = ${JSON.stringify(files)};`);
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+      },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The Gemini key stays with the proxy in server/; see README.
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 3001}`,
+        },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), serviceWorker()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),